@@ -0,0 +1,351 @@
+/**
+ * Batch terrain generator for Node
+ *
+ *   npm run generate -- --preset alpine_peaks --seeds 1..100 --erosion applyDesertErosion --out maps
+ *
+ * Every seed gets its own directory with the requested heightmaps, splatmaps and meshes.
+ * Built on the headless core, no browser involved.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { TerrainCore, TerrainConfig, SUPPORTED_RESOLUTIONS } from '../core/TerrainCore'
+import { TerrainPresets, TerrainPreset } from '../core/TerrainPresets'
+import { TerrainType } from '../core/AdvancedTerrainGenerator'
+import { ErosionPresets } from '../core/ErosionPresets'
+import { HeightmapFormat } from '../core/HeightmapExporter'
+import { SplatmapGenerator, SplatNoiseTexture } from '../core/SplatmapGenerator'
+
+type OutputKind = 'heightmap' | 'splatmap' | 'glb' | 'obj' | 'stl' | 'project'
+
+const OUTPUT_KINDS: OutputKind[] = ['heightmap', 'splatmap', 'glb', 'obj', 'stl', 'project']
+const HEIGHTMAP_FORMATS: HeightmapFormat[] = ['png16', 'png8', 'r16', 'r32']
+
+interface CliOptions {
+  project?: string
+  preset?: string
+  seeds?: number[]
+  resolution?: number
+  size?: number
+  terrainType?: TerrainType
+  erosion?: string
+  out: string
+  outputs: OutputKind[]
+  heightmapFormat: HeightmapFormat
+  meshTriangles?: number
+  meshTiles: number
+  noise: string
+}
+
+interface ErosionChoice {
+  model: 'droplet' | 'geological'
+  preset: string
+}
+
+const USAGE = `Usage: npm run generate -- [options]
+
+Input (defaults to the editor's default terrain):
+  --project <file>          .welt or JSON project; its layers and node graph are kept. Its
+                            heights are exported as-is unless a generation override is given.
+  --preset <name|file>      built-in preset (${TerrainPresets.getPresetNames().join(', ')})
+                            or a JSON file with TerrainPresets fields
+
+Overrides:
+  --seed <n>                terrain seed
+  --seeds <a..b>            sweep every seed from a to b, one output directory each
+  --resolution <n>          ${SUPPORTED_RESOLUTIONS.join(', ')}
+  --size <km>               world size in kilometers
+  --type <terrain type>     ${Object.values(TerrainType).join(', ')}
+  --erosion <preset>        droplet: ${ErosionPresets.getDropletPresetNames().join(', ')}
+                            geological: ${ErosionPresets.getGeologicalPresetNames().map(name => `${name}_evolution`).join(', ')}
+                            or an editor method name such as applyDesertErosion
+
+Output:
+  --out <dir>               output directory (default: output)
+  --outputs <list>          comma separated: ${OUTPUT_KINDS.join(', ')} (default: heightmap,splatmap,glb)
+  --heightmap-format <f>    ${HEIGHTMAP_FORMATS.join(', ')} (default: png16)
+  --mesh-triangles <n>      decimate GLB/OBJ meshes to about n triangles
+  --mesh-tiles <n>          split GLB/OBJ meshes into n x n tiles (default: 1)
+  --noise <file>            simplex texture for splatmaps (default: noise/simplex.png)
+`
+
+async function main(argv: string[]): Promise<void> {
+  if (argv.includes('--help') || argv.includes('-h')) {
+    console.log(USAGE)
+    return
+  }
+
+  const options = parseArguments(argv)
+  const erosion = options.erosion ? findErosionPreset(options.erosion) : null
+  const core = await createCore(options)
+
+  // A project's own heights are only kept when nothing asks for a fresh terrain
+  const regenerate = !options.project || options.seeds !== undefined || options.resolution !== undefined
+    || options.size !== undefined || options.terrainType !== undefined
+  const seeds = options.seeds ?? [core.getConfig().seed]
+  const noiseTexture = options.outputs.includes('splatmap') ? await loadNoiseTexture(options.noise) : undefined
+
+  for (const seed of seeds) {
+    const startTime = Date.now()
+    if (regenerate) {
+      core.updateConfig({ seed })
+      await core.generate()
+    }
+    if (erosion) {
+      applyErosion(core, erosion)
+    }
+
+    const directory = join(options.out, `seed-${seed}`)
+    await mkdir(directory, { recursive: true })
+    const written = await writeOutputs(core, directory, options, noiseTexture)
+
+    const { resolution } = core.getConfig()
+    const seconds = ((Date.now() - startTime) / 1000).toFixed(1)
+    console.log(`seed ${seed}: ${resolution}x${resolution}${erosion ? `, ${erosion.preset} erosion` : ''} in ${seconds}s -> ${directory} (${written.join(', ')})`)
+  }
+}
+
+function parseArguments(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    out: 'output',
+    outputs: ['heightmap', 'splatmap', 'glb'],
+    heightmapFormat: 'png16',
+    meshTiles: 1,
+    noise: 'noise/simplex.png'
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    const value = (): string => {
+      const next = argv[++i]
+      if (next === undefined || next.startsWith('--')) {
+        throw new Error(`Missing value for ${flag}`)
+      }
+      return next
+    }
+
+    switch (flag) {
+      case '--project':
+        options.project = value()
+        break
+      case '--preset':
+        options.preset = value()
+        break
+      case '--seed':
+        options.seeds = [parseInteger(flag, value())]
+        break
+      case '--seeds':
+        options.seeds = parseSeedRange(value())
+        break
+      case '--resolution':
+        options.resolution = parseInteger(flag, value())
+        if (!SUPPORTED_RESOLUTIONS.includes(options.resolution)) {
+          throw new Error(`Unsupported resolution ${options.resolution}, use one of ${SUPPORTED_RESOLUTIONS.join(', ')}`)
+        }
+        break
+      case '--size':
+        options.size = parseFloat(value())
+        if (!(options.size > 0)) {
+          throw new Error('--size must be a positive number of kilometers')
+        }
+        break
+      case '--type': {
+        const type = value()
+        if (!(Object.values(TerrainType) as string[]).includes(type)) {
+          throw new Error(`Unknown terrain type ${type}, use one of ${Object.values(TerrainType).join(', ')}`)
+        }
+        options.terrainType = type as TerrainType
+        break
+      }
+      case '--erosion':
+        options.erosion = value()
+        break
+      case '--out':
+        options.out = value()
+        break
+      case '--outputs':
+        options.outputs = value().split(',').map(kind => kind.trim()) as OutputKind[]
+        for (const kind of options.outputs) {
+          if (!OUTPUT_KINDS.includes(kind)) {
+            throw new Error(`Unknown output ${kind}, use any of ${OUTPUT_KINDS.join(', ')}`)
+          }
+        }
+        break
+      case '--heightmap-format':
+        options.heightmapFormat = value() as HeightmapFormat
+        if (!HEIGHTMAP_FORMATS.includes(options.heightmapFormat)) {
+          throw new Error(`Unknown heightmap format ${options.heightmapFormat}, use one of ${HEIGHTMAP_FORMATS.join(', ')}`)
+        }
+        break
+      case '--mesh-triangles':
+        options.meshTriangles = parseInteger(flag, value())
+        break
+      case '--mesh-tiles':
+        options.meshTiles = parseInteger(flag, value())
+        break
+      case '--noise':
+        options.noise = value()
+        break
+      default:
+        throw new Error(`Unknown option ${flag}, see --help`)
+    }
+  }
+
+  if (options.project && options.preset) {
+    throw new Error('Use either --project or --preset, not both')
+  }
+  return options
+}
+
+function parseInteger(flag: string, text: string): number {
+  const value = Number(text)
+  if (!Number.isInteger(value)) {
+    throw new Error(`${flag} expects an integer, got ${text}`)
+  }
+  return value
+}
+
+/**
+ * Seeds "a..b" (inclusive), a single seed or a comma separated list
+ */
+function parseSeedRange(text: string): number[] {
+  const range = /^(-?\d+)\.\.(-?\d+)$/.exec(text)
+  if (range) {
+    const from = Number(range[1])
+    const to = Number(range[2])
+    if (to < from) {
+      throw new Error(`Empty seed range ${text}`)
+    }
+    return Array.from({ length: to - from + 1 }, (_, index) => from + index)
+  }
+  return text.split(',').map(seed => parseInteger('--seeds', seed.trim()))
+}
+
+/**
+ * Resolve preset names as listed in --help as well as the editor's method names
+ * (applyDesertErosion, applyRealisticRiverSystemEvolution)
+ */
+function findErosionPreset(name: string): ErosionChoice {
+  const snakeCase = (text: string) => text.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase()
+
+  const geological = /^applyRealistic(\w+)Evolution$/.exec(name) ?? /^(\w+)_evolution$/.exec(name)
+  if (geological && ErosionPresets.getGeologicalPresetNames().includes(snakeCase(geological[1]))) {
+    return { model: 'geological', preset: snakeCase(geological[1]) }
+  }
+
+  const droplet = /^apply(\w+)Erosion$/.exec(name)
+  const dropletName = droplet ? snakeCase(droplet[1]) : name
+  if (ErosionPresets.getDropletPresetNames().includes(dropletName)) {
+    return { model: 'droplet', preset: dropletName }
+  }
+
+  throw new Error(`Unknown erosion preset ${name}, see --help`)
+}
+
+async function createCore(options: CliOptions): Promise<TerrainCore> {
+  const core = new TerrainCore()
+
+  if (options.project) {
+    const bytes = await readFile(options.project)
+    await core.importProject(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength))
+  } else if (options.preset) {
+    core.applyPreset(await loadPreset(options.preset))
+  }
+
+  const overrides: Partial<TerrainConfig> = {}
+  if (options.resolution !== undefined) overrides.resolution = options.resolution
+  if (options.size !== undefined) overrides.size = options.size
+  if (options.terrainType !== undefined) overrides.terrainType = options.terrainType
+  core.updateConfig(overrides)
+
+  return core
+}
+
+async function loadPreset(preset: string): Promise<Partial<TerrainPreset>> {
+  if (TerrainPresets.hasPreset(preset)) {
+    return TerrainPresets.getPreset(preset)!
+  }
+  if (!existsSync(preset)) {
+    throw new Error(`No built-in preset or file named ${preset}`)
+  }
+  return JSON.parse(await readFile(preset, 'utf8')) as Partial<TerrainPreset>
+}
+
+/**
+ * Same settings the editor's erosion buttons use, including the high resolution boost
+ */
+function applyErosion(core: TerrainCore, erosion: ErosionChoice): void {
+  if (erosion.model === 'geological') {
+    core.erodeAdvanced(ErosionPresets.getGeologicalPreset(erosion.preset))
+    return
+  }
+
+  const config = ErosionPresets.adaptToResolution(ErosionPresets.getDropletPreset(erosion.preset), core.getConfig().resolution)
+  core.erode(config)
+}
+
+/**
+ * The simplex texture the material samples, so splatmaps match the editor preview
+ */
+async function loadNoiseTexture(path: string): Promise<SplatNoiseTexture | undefined> {
+  if (!existsSync(path)) {
+    console.warn(`Noise texture ${path} not found, splatmaps use the procedural fallback`)
+    return undefined
+  }
+  return SplatmapGenerator.decodeNoiseTexture(new Uint8Array(await readFile(path)), path)
+}
+
+async function writeOutputs(
+  core: TerrainCore,
+  directory: string,
+  options: CliOptions,
+  noiseTexture: SplatNoiseTexture | undefined
+): Promise<string[]> {
+  const written: string[] = []
+  const write = async (name: string, data: Uint8Array | ArrayBuffer | string) => {
+    await writeFile(join(directory, name), typeof data === 'string' ? data : new Uint8Array(data))
+    written.push(name)
+  }
+  const meshOptions = { targetTriangles: options.meshTriangles, tiles: options.meshTiles }
+
+  for (const kind of options.outputs) {
+    switch (kind) {
+      case 'heightmap': {
+        const result = await core.exportHeightmap({ format: options.heightmapFormat, metadata: 'sidecar' })
+        await write(`heightmap.${result.extension}`, result.data)
+        if (result.sidecar) {
+          await write('heightmap.json', result.sidecar)
+        }
+        break
+      }
+      case 'splatmap': {
+        const result = await core.exportSplatmap(core.createSplatmap({ noiseTexture }), 'splatmap.png')
+        await write('splatmap.png', result.png)
+        await write('splatmap.json', result.manifest)
+        break
+      }
+      case 'glb':
+        await write('terrain.glb', core.exportGLB({ ...meshOptions, vertexColors: true }).data)
+        break
+      case 'obj':
+        for (const file of (await core.exportOBJ(meshOptions)).files) {
+          await write(file.name, file.data)
+        }
+        break
+      case 'stl':
+        await write('terrain.stl', core.exportSTL({ printSize: 200, baseThickness: 5, verticalExaggeration: 1.5, targetTriangles: 500000 }).data)
+        break
+      case 'project':
+        await write('terrain-project.welt', await core.exportProject({ compress: true }))
+        break
+    }
+  }
+
+  return written
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
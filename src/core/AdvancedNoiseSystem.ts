@@ -11,6 +11,7 @@ export interface NoiseConfig {
   lacunarity: number
   seed: number
   offset: { x: number; y: number }
+  period?: number // Input coordinates repeat every `period` units; frequencies snap to fit
 }
 
 export interface RidgedNoiseConfig extends NoiseConfig {
@@ -31,6 +32,7 @@ export interface HybridConfig {
   warpNoise: NoiseConfig
   detailWeight: number
   warpWeight: number
+  period?: number
 }
 
 export enum NoiseType {
@@ -156,6 +158,65 @@ export class AdvancedNoiseSystem {
     )
   }
 
+  /**
+   * Perlin noise that repeats every periodX / periodY lattice cells (integers)
+   */
+  public periodicPerlin(x: number, y: number, periodX: number, periodY: number, z: number = 0): number {
+    const floorX = Math.floor(x)
+    const floorY = Math.floor(y)
+    const floorZ = Math.floor(z)
+    
+    // Wrap the lattice corners, not the coordinates, so the fractional parts stay exact
+    const X0 = wrap(floorX, periodX) & 255
+    const X1 = wrap(floorX + 1, periodX) & 255
+    const Y0 = wrap(floorY, periodY) & 255
+    const Y1 = wrap(floorY + 1, periodY) & 255
+    const Z0 = floorZ & 255
+    const Z1 = (floorZ + 1) & 255
+    
+    x -= floorX
+    y -= floorY
+    z -= floorZ
+    
+    const u = this.fade(x)
+    const v = this.fade(y)
+    const w = this.fade(z)
+    const hash = (X: number, Y: number, Z: number) => this.permutation[this.permutation[this.permutation[X] + Y] + Z]
+    
+    return this.lerp(w,
+      this.lerp(v,
+        this.lerp(u, this.grad(hash(X0, Y0, Z0), x, y, z),
+                     this.grad(hash(X1, Y0, Z0), x - 1, y, z)),
+        this.lerp(u, this.grad(hash(X0, Y1, Z0), x, y - 1, z),
+                     this.grad(hash(X1, Y1, Z0), x - 1, y - 1, z))),
+      this.lerp(v,
+        this.lerp(u, this.grad(hash(X0, Y0, Z1), x, y, z - 1),
+                     this.grad(hash(X1, Y0, Z1), x - 1, y, z - 1)),
+        this.lerp(u, this.grad(hash(X0, Y1, Z1), x, y - 1, z - 1),
+                     this.grad(hash(X1, Y1, Z1), x - 1, y - 1, z - 1)))
+    )
+  }
+
+  /**
+   * Lattice cells per period for a frequency; at least one, so very low frequencies get faster
+   */
+  public static periodicLattice(frequency: number, period: number): number {
+    return Math.max(1, Math.round(frequency * period))
+  }
+
+  /**
+   * One Perlin octave of (coordinate + offset) * frequency, periodic when a period is given
+   */
+  private octave(x: number, y: number, frequency: number, offset: { x: number; y: number }, period?: number): number {
+    if (!period) {
+      return this.perlin((x + offset.x) * frequency, (y + offset.y) * frequency)
+    }
+    
+    const lattice = AdvancedNoiseSystem.periodicLattice(frequency, period)
+    const snapped = lattice / period
+    return this.periodicPerlin((x + offset.x) * snapped, (y + offset.y) * snapped, lattice, lattice)
+  }
+
   /**
    * Fractal Brownian Motion (fBm)
    */
@@ -165,27 +226,19 @@ export class AdvancedNoiseSystem {
     let amplitude = config.amplitude
     let maxValue = 0
 
-    // Apply warp if enabled
+    // Apply warp if enabled; periodic warps keep the warped coordinates periodic
     if (config.warpStrength > 0) {
-      const warpX = this.perlin(x * config.warpFrequency, y * config.warpFrequency) * config.warpStrength
-      const warpY = this.perlin((x + 100) * config.warpFrequency, (y + 100) * config.warpFrequency) * config.warpStrength
+      const warpX = this.octave(x, y, config.warpFrequency, { x: 0, y: 0 }, config.period) * config.warpStrength
+      const warpY = this.octave(x, y, config.warpFrequency, { x: 100, y: 100 }, config.period) * config.warpStrength
       x += warpX
       y += warpY
     }
 
     for (let i = 0; i < config.octaves; i++) {
-      let noise: number
+      let noise = this.octave(x, y, frequency, config.offset, config.period)
       
       if (config.turbulence) {
-        noise = Math.abs(this.perlin(
-          (x + config.offset.x) * frequency,
-          (y + config.offset.y) * frequency
-        ))
-      } else {
-        noise = this.perlin(
-          (x + config.offset.x) * frequency,
-          (y + config.offset.y) * frequency
-        )
+        noise = Math.abs(noise)
       }
       
       total += noise * amplitude
@@ -208,10 +261,7 @@ export class AdvancedNoiseSystem {
     let weight = 1.0
 
     for (let i = 0; i < config.octaves; i++) {
-      let noise = this.perlin(
-        (x + config.offset.x) * frequency,
-        (y + config.offset.y) * frequency
-      )
+      let noise = this.octave(x, y, frequency, config.offset, config.period)
       
       // Create ridges
       noise = Math.abs(noise)
@@ -240,10 +290,7 @@ export class AdvancedNoiseSystem {
     let maxValue = 0
 
     for (let i = 0; i < config.octaves; i++) {
-      const noise = Math.abs(this.perlin(
-        (x + config.offset.x) * frequency,
-        (y + config.offset.y) * frequency
-      ))
+      const noise = Math.abs(this.octave(x, y, frequency, config.offset, config.period))
       
       total += noise * amplitude
       maxValue += amplitude
@@ -256,9 +303,14 @@ export class AdvancedNoiseSystem {
   }
 
   /**
-   * Voronoi/Worley noise
+   * Voronoi/Worley noise; with a period the cell points repeat every `period` input units
    */
-  public voronoiNoise(x: number, y: number, frequency: number = 1.0): number {
+  public voronoiNoise(x: number, y: number, frequency: number = 1.0, period?: number): number {
+    const lattice = period ? AdvancedNoiseSystem.periodicLattice(frequency, period) : 0
+    if (period) {
+      frequency = lattice / period
+    }
+    
     const cellX = Math.floor(x * frequency)
     const cellY = Math.floor(y * frequency)
     
@@ -270,8 +322,10 @@ export class AdvancedNoiseSystem {
         const neighborX = cellX + xi
         const neighborY = cellY + yi
         
-        // Generate random point in cell
-        const random = this.seededRandom(neighborX * 374761393 + neighborY * 668265263 + this.seed)
+        // Generate random point in cell (the wrapped cell's point when periodic)
+        const keyX = period ? wrap(neighborX, lattice) : neighborX
+        const keyY = period ? wrap(neighborY, lattice) : neighborY
+        const random = this.seededRandom(keyX * 374761393 + keyY * 668265263 + this.seed)
         const pointX = neighborX + random()
         const pointY = neighborY + random()
         
@@ -291,8 +345,10 @@ export class AdvancedNoiseSystem {
    */
   public hybridNoise(x: number, y: number, config: HybridConfig): number {
     // Base noise layer
+    const { period } = config
     const base = this.fbm(x, y, {
       ...config.baseNoise,
+      period,
       warpStrength: 0,
       warpFrequency: 0,
       turbulence: false
@@ -303,6 +359,7 @@ export class AdvancedNoiseSystem {
     // Warp noise for domain distortion
     const warpX = this.fbm(x * 0.5, y * 0.5, {
       ...config.warpNoise,
+      period: period && period * 0.5,
       warpStrength: 0,
       warpFrequency: 0,
       turbulence: false
@@ -310,6 +367,7 @@ export class AdvancedNoiseSystem {
     
     const warpY = this.fbm((x + 100) * 0.5, (y + 100) * 0.5, {
       ...config.warpNoise,
+      period: period && period * 0.5,
       warpStrength: 0,
       warpFrequency: 0,
       turbulence: false
@@ -318,6 +376,7 @@ export class AdvancedNoiseSystem {
     // Apply domain distortion
     const warpedDetail = this.fbm(x + warpX, y + warpY, {
       ...config.detailNoise,
+      period,
       warpStrength: 0,
       warpFrequency: 0,
       turbulence: false
@@ -332,10 +391,7 @@ export class AdvancedNoiseSystem {
   public generateNoise(x: number, y: number, type: NoiseType, config: any): number {
     switch (type) {
       case NoiseType.PERLIN:
-        return this.perlin(
-          (x + config.offset.x) * config.frequency,
-          (y + config.offset.y) * config.frequency
-        )
+        return this.octave(x, y, config.frequency, config.offset, config.period)
       
       case NoiseType.FBM:
         return this.fbm(x, y, config as FBMConfig)
@@ -350,16 +406,13 @@ export class AdvancedNoiseSystem {
         return this.fbm(x, y, { ...config, turbulence: true } as FBMConfig)
       
       case NoiseType.VORONOI:
-        return this.voronoiNoise(x, y, config.frequency)
+        return this.voronoiNoise(x, y, config.frequency, config.period)
       
       case NoiseType.HYBRID:
         return this.hybridNoise(x, y, config as HybridConfig)
       
       default:
-        return this.perlin(
-          (x + config.offset.x) * config.frequency,
-          (y + config.offset.y) * config.frequency
-        )
+        return this.octave(x, y, config.frequency, config.offset, config.period)
     }
   }
 
@@ -392,4 +445,8 @@ export class AdvancedNoiseSystem {
   public getSeed(): number {
     return this.seed
   }
-} 
\ No newline at end of file
+} 
+
+function wrap(value: number, period: number): number {
+  return ((value % period) + period) % period
+}
@@ -1,4 +1,8 @@
 import { AdvancedNoiseSystem, NoiseType, NoiseConfig, RidgedNoiseConfig, FBMConfig } from './AdvancedNoiseSystem'
+import { Resampler } from './Resampler'
+import { PNGCodec } from './PNGCodec'
+import { TerrainGraphData } from './TerrainGraph'
+import { TerrainGraphEvaluator } from './TerrainGraphEvaluator'
 
 export enum BlendMode {
   ADD = 'add',
@@ -19,7 +23,16 @@ export interface TerrainLayer {
   maskType?: NoiseType
   maskConfig?: any
   elevationRange?: { min: number; max: number } // For elevation-based masking
-  slopeRange?: { min: number; max: number }     // For slope-based masking
+  slopeRange?: { min: number; max: number }     // For slope-based masking, degrees
+  slopeFalloff?: number                         // Soft edge around slopeRange, degrees
+  heightmap?: HeightmapLayerSource              // Imported elevation used instead of noise
+}
+
+// Imported heightmap used as a layer source, stretched over the whole terrain
+export interface HeightmapLayerSource {
+  width: number
+  height: number
+  data: Float32Array // heights in meters
 }
 
 export interface AdvancedTerrainConfig {
@@ -35,6 +48,7 @@ export interface AdvancedTerrainConfig {
   
   // Advanced blending controls
   useAdvancedBlending?: boolean // Enable advanced blending modes from demo
+  tileable?: boolean // Wrap on both axes: periodic noise, opposite edges identical
   
   // Legacy terrain controls (deprecated but kept for compatibility)
   heightScale?: number
@@ -49,12 +63,14 @@ export interface AdvancedTerrainConfig {
   // Geological features
   continentalShelf: {
     enabled: boolean
+    weight?: number // 0-1 strength when enabled, set by preset morphing; default 1
     depth: number
     falloff: number
   }
   
   mountainRanges: {
     enabled: boolean
+    weight?: number // 0-1 strength when enabled, set by preset morphing; default 1
     count: number
     ridgeStrength: number
     peakHeight: number
@@ -62,6 +78,7 @@ export interface AdvancedTerrainConfig {
   
   valleys: {
     enabled: boolean
+    weight?: number // 0-1 strength when enabled, set by preset morphing; default 1
     depth: number
     width: number
     networkDensity: number
@@ -69,12 +86,14 @@ export interface AdvancedTerrainConfig {
   
   plateaus: {
     enabled: boolean
+    weight?: number // 0-1 strength when enabled, set by preset morphing; default 1
     height: number
     edgeSharpness: number
   }
   
   coastalFeatures: {
     enabled: boolean
+    weight?: number // 0-1 strength when enabled, set by preset morphing; default 1
     beachWidth: number
     cliffHeight: number
   }
@@ -90,6 +109,60 @@ export interface AdvancedTerrainConfig {
   layers: TerrainLayer[]
 }
 
+// Custom layers and base-layer weight overrides applied on top of the terrain type's layers
+export interface TerrainLayerStack {
+  customLayers?: TerrainLayer[]
+  baseLayerWeightOverrides?: Map<number, number> // base layer index -> weight
+  graph?: TerrainGraphData | null                // node graph composing the final heights
+  morph?: TerrainMorph | null                    // second configuration blended in across the map
+}
+
+// Straight transition band across the terrain, in terrain coordinates (-1..1 over the grid)
+export interface MorphGradient {
+  angle: number  // degrees the blend advances towards: 0 = west to east, 90 = north to south
+  center: number // offset of the 50% line from the terrain centre along that direction
+  width: number  // width of the transition band, 2 spans the whole terrain
+}
+
+// Spatial morph: the configured terrain turns into `target` along the gradient
+export interface TerrainMorph {
+  target: AdvancedTerrainConfig // size, resolution, seed and tiling follow the main configuration
+  gradient: MorphGradient
+}
+
+// Per-generation inputs of the shared per-sample evaluation
+export interface TerrainSampleContext {
+  type: TerrainType
+  resolution: number
+  cellSize: number // meters between samples, for slopes
+  tileable: boolean // neighbours wrap around; the last row and column repeat the first
+  unbounded: boolean // samples beyond the grid edges exist (tileable terrain, world chunks), halos are not clipped
+  geologicalComplexity: number
+  domainWarping: number
+  reliefAmplitude: number
+  featureScale: number
+  baseLayers: Array<{ type: NoiseType; config: any; weight: number }>
+  customLayers: TerrainLayer[]
+  graph?: TerrainGraphData // its 'terrain' nodes read the layer stack above
+  morph?: {
+    generator: AdvancedTerrainGenerator // configured with the morph target
+    context: TerrainSampleContext
+    gradient: MorphGradient
+  }
+  features: {
+    ridgeStrength: number
+    peakHeight: number
+    valleyDepth: number
+    plateauHeight: number
+  }
+}
+
+// Soft edge around a slope-masked layer's range when the layer sets none, degrees
+export const DEFAULT_SLOPE_FALLOFF = 5
+
+// Terrain coordinates span -1..1, so tileable noise repeats every 2 units
+const TILE_PERIOD = 2
+
 export enum TerrainType {
   CONTINENTAL = 'continental',
   ISLAND_CHAIN = 'island_chain', 
@@ -183,99 +256,398 @@ export class AdvancedTerrainGenerator {
     }
   }
 
-  public generateTerrain(type: TerrainType = TerrainType.CONTINENTAL): Float32Array {
+  public generateTerrain(type: TerrainType = TerrainType.CONTINENTAL, layerStack: TerrainLayerStack = {}): Float32Array {
     const { resolution } = this.config
-    const heightData = new Float32Array(resolution * resolution)
-    
+    return this.generateRegion(this.createSampleContext(type, layerStack), 0, 0, resolution, resolution)
+  }
+
+  /**
+   * Heights of world chunk (chunkX, chunkZ) of an infinite world: a resolution x resolution grid
+   * covering `size` km, centred at (chunkX, chunkZ) * size km. Noise is evaluated in world
+   * coordinates, so neighbouring chunks share their edge rows exactly. `apron` adds that many
+   * samples of the neighbouring chunks on every side.
+   */
+  public generateChunk(
+    chunkX: number,
+    chunkZ: number,
+    type: TerrainType = TerrainType.CONTINENTAL,
+    layerStack: TerrainLayerStack = {},
+    apron: number = 0
+  ): Float32Array {
+    return this.generateChunkRegion(this.createSampleContext(type, layerStack), chunkX, chunkZ, apron)
+  }
+
+  /**
+   * generateChunk() with a prepared sample context. World chunks index one boundless grid,
+   * chunk (0, 0) is the regular terrain's grid.
+   */
+  public generateChunkRegion(context: TerrainSampleContext, chunkX: number, chunkZ: number, apron: number = 0): Float32Array {
+    const span = context.resolution - 1
+    const startX = chunkX * span - apron
+    const startY = chunkZ * span - apron
+    const size = context.resolution + apron * 2
+    return this.generateRegion({ ...context, unbounded: true }, startX, startY, startX + size, startY + size)
+  }
+
+  /**
+   * Resolve everything the per-sample evaluation needs once per generation.
+   * The single-threaded, chunked and worker paths all build their heights from this.
+   */
+  public createSampleContext(type: TerrainType, layerStack: TerrainLayerStack = {}): TerrainSampleContext {
     // Get redesigned terrain control parameters with fallbacks to legacy values
     const geologicalComplexity = this.config.geologicalComplexity ?? (this.config.mountainIntensity || 0.8)
     const domainWarping = this.config.domainWarping ?? 0.5
     const reliefAmplitude = this.config.reliefAmplitude ?? (this.config.heightScale || 1.0)
     const featureScale = this.config.featureScale ?? 1.5
     
-    // Generate base layers based on terrain type and scale them by geological complexity
-    const layers = this.getTerrainTypeLayers(type, geologicalComplexity, featureScale)
+    // Generate base layers based on terrain type, with the user's weight overrides
+    const baseLayers = this.getTerrainTypeLayers(type, geologicalComplexity, featureScale)
+      .map(layer => ({ ...layer, config: this.tiled(layer.config) }))
+    layerStack.baseLayerWeightOverrides?.forEach((weight, index) => {
+      if (baseLayers[index]) {
+        baseLayers[index].weight = weight
+      }
+    })
     
-    // Update geological feature configs based on new controls
-    const adjustedConfig = { ...this.config }
-    adjustedConfig.mountainRanges.ridgeStrength = geologicalComplexity * 0.8
-    adjustedConfig.mountainRanges.peakHeight *= reliefAmplitude * 0.5
-    adjustedConfig.valleys.depth *= (this.config.valleyDepth || 0.5) * reliefAmplitude * 0.3
-    adjustedConfig.valleys.networkDensity = geologicalComplexity * 0.6
-    adjustedConfig.plateaus.height *= reliefAmplitude * 0.4
+    // The morph target shares the grid, seed and layer stack, so both sides line up sample by sample
+    let morph: TerrainSampleContext['morph']
+    if (layerStack.morph) {
+      const { size, resolution, seed, tileable } = this.config
+      const generator = new AdvancedTerrainGenerator({ ...layerStack.morph.target, size, resolution, seed, tileable })
+      morph = {
+        generator,
+        context: generator.createSampleContext(type, { ...layerStack, morph: null }),
+        gradient: layerStack.morph.gradient
+      }
+    }
     
-    for (let y = 0; y < resolution; y++) {
-      for (let x = 0; x < resolution; x++) {
-        const index = y * resolution + x
-        
-        // Improved coordinate transformation with slight offset to avoid center artifacts
-        const nx = (x / (resolution - 1)) * 2 - 1 + 0.001
-        const ny = (y / (resolution - 1)) * 2 - 1 + 0.001
-        
-        // Advanced domain warping controlled by domainWarping parameter
-        const warpStrength = domainWarping * 0.6 // 0.0 to 0.36
-        const warpScale = 0.3 + featureScale * 0.4 // Scale warp frequency with feature scale
-        
-        const warpX = this.noiseSystem.perlin(nx * warpScale + 100, ny * warpScale + 200) * warpStrength
-        const warpY = this.noiseSystem.perlin(nx * warpScale + 300, ny * warpScale + 400) * warpStrength
-        
-        // Apply secondary warping for ultra-natural terrain when domain warping is high
-        let warpedX = nx + warpX
-        let warpedY = ny + warpY
-        
-        if (domainWarping > 0.7) {
-          const secondaryWarp = (domainWarping - 0.7) * 0.3
-          const secondaryScale = warpScale * 2
-          warpedX += this.noiseSystem.perlin(warpedX * secondaryScale + 500, warpedY * secondaryScale + 600) * secondaryWarp
-          warpedY += this.noiseSystem.perlin(warpedX * secondaryScale + 700, warpedY * secondaryScale + 800) * secondaryWarp
-        }
-        
-        let height: number
-        
-        // Use advanced blending if enabled, otherwise use original method
-        if (this.config.useAdvancedBlending) {
-          height = this.generateAdvancedTerrain(warpedX, warpedY, type, layers, geologicalComplexity, featureScale)
-        } else {
-          // Original terrain generation using multi-scale composition
-          height = this.noiseSystem.multiScaleNoise(warpedX, warpedY, layers)
-        }
+    return {
+      type,
+      resolution: this.config.resolution,
+      cellSize: (this.config.size * 1000) / (this.config.resolution - 1),
+      tileable: !!this.config.tileable,
+      unbounded: !!this.config.tileable,
+      geologicalComplexity,
+      domainWarping,
+      reliefAmplitude,
+      featureScale,
+      baseLayers,
+      customLayers: layerStack.customLayers ?? [],
+      graph: layerStack.graph ?? undefined,
+      morph,
+      // Geological feature strengths derived from the redesigned controls
+      features: {
+        ridgeStrength: geologicalComplexity * 0.8,
+        peakHeight: this.config.mountainRanges.peakHeight * reliefAmplitude * 0.5,
+        valleyDepth: this.config.valleys.depth * (this.config.valleyDepth || 0.5) * reliefAmplitude * 0.3,
+        plateauHeight: this.config.plateaus.height * reliefAmplitude * 0.4
+      }
+    }
+  }
+
+  /**
+   * Generate heights for [startX, endX) x [startY, endY) of the full grid.
+   * Two passes: the base field with all regular layers, then slope-masked layers driven by
+   * the slope of that field. Each pass reads a one-sample halo, so any tiling gives the same
+   * result as one region. With a node graph in the context the graph composes the heights.
+   */
+  public generateRegion(context: TerrainSampleContext, startX: number, startY: number, endX: number, endY: number): Float32Array {
+    if (context.morph) {
+      return this.generateMorphedRegion(context, startX, startY, endX, endY)
+    }
+    
+    if (context.graph) {
+      return TerrainGraphEvaluator.evaluateRegion(context.graph, this, context, startX, startY, endX, endY)
+    }
+    
+    const slopeLayers = context.customLayers.filter(layer => layer.blendMode === BlendMode.MASK_SLOPE)
+    if (slopeLayers.length === 0) {
+      return this.composeHeightRegion(context, startX, startY, endX, endY)
+    }
+    
+    const { resolution, cellSize } = context
+    const width = endX - startX
+    
+    // First pass over the region plus the halo the slope needs (beyond the edges when unbounded)
+    const { unbounded } = context
+    const fieldStartX = unbounded ? startX - 1 : Math.max(0, startX - 1)
+    const fieldStartY = unbounded ? startY - 1 : Math.max(0, startY - 1)
+    const fieldEndX = unbounded ? endX + 1 : Math.min(resolution, endX + 1)
+    const fieldEndY = unbounded ? endY + 1 : Math.min(resolution, endY + 1)
+    const fieldWidth = fieldEndX - fieldStartX
+    const field = this.composeHeightRegion(context, fieldStartX, fieldStartY, fieldEndX, fieldEndY)
+    const fieldAt = (x: number, y: number) => field[(y - fieldStartY) * fieldWidth + (x - fieldStartX)]
+    
+    const heightData = new Float32Array(width * (endY - startY))
+    
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        // Central differences, one-sided at the terrain border unless it is unbounded
+        const left = unbounded ? x - 1 : Math.max(0, x - 1)
+        const right = unbounded ? x + 1 : Math.min(resolution - 1, x + 1)
+        const up = unbounded ? y - 1 : Math.max(0, y - 1)
+        const down = unbounded ? y + 1 : Math.min(resolution - 1, y + 1)
+        const dzdx = (fieldAt(right, y) - fieldAt(left, y)) / ((right - left) * cellSize)
+        const dzdy = (fieldAt(x, down) - fieldAt(x, up)) / ((down - up) * cellSize)
+        const slope = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)) * 180 / Math.PI
         
-        // Apply geological features with new parameter control
-        if (adjustedConfig.mountainRanges.enabled) {
-          height += this.generateMountainRanges(warpedX, warpedY, featureScale) * geologicalComplexity
-        }
+        const u = this.gridCoordinate(x, context)
+        const v = this.gridCoordinate(y, context)
+        let height = fieldAt(x, y)
         
-        if (adjustedConfig.valleys.enabled) {
-          height = this.carveValleys(warpedX, warpedY, height, geologicalComplexity * 0.7, featureScale)
+        for (const layer of slopeLayers) {
+          const value = this.sampleCustomLayer(layer, u, v)
+          height = this.blendLayerValue(u + 0.001, v + 0.001, height, value, layer, slope)
         }
         
-        if (adjustedConfig.plateaus.enabled) {
-          height = this.addPlateaus(warpedX, warpedY, height, featureScale)
-        }
+        heightData[(y - startY) * width + (x - startX)] = height
+      }
+    }
+    
+    return heightData
+  }
+
+  /**
+   * Cross-fade the finished heights of both configurations with the morph gradient
+   */
+  private generateMorphedRegion(context: TerrainSampleContext, startX: number, startY: number, endX: number, endY: number): Float32Array {
+    const { generator, context: targetContext, gradient } = context.morph!
+    const from = this.generateRegion({ ...context, morph: undefined }, startX, startY, endX, endY)
+    const to = generator.generateRegion({ ...targetContext, unbounded: context.unbounded }, startX, startY, endX, endY)
+    
+    const angle = gradient.angle * Math.PI / 180
+    const directionX = Math.cos(angle)
+    const directionY = Math.sin(angle)
+    const halfWidth = Math.max(gradient.width, 1e-6) / 2
+    const width = endX - startX
+    
+    for (let y = startY; y < endY; y++) {
+      const v = this.gridCoordinate(y, context)
+      for (let x = startX; x < endX; x++) {
+        const u = this.gridCoordinate(x, context)
+        const along = (u * directionX + v * directionY - gradient.center) / halfWidth
+        const t = Math.max(0, Math.min(1, (along + 1) / 2))
+        const weight = t * t * (3 - 2 * t)
+        const index = (y - startY) * width + (x - startX)
+        from[index] += (to[index] - from[index]) * weight
+      }
+    }
+    
+    return from
+  }
+
+  /**
+   * First compositor pass: base heights, outlier smoothing and every layer that is not slope-masked
+   */
+  private composeHeightRegion(context: TerrainSampleContext, startX: number, startY: number, endX: number, endY: number): Float32Array {
+    const { resolution, unbounded } = context
+    const width = endX - startX
+    const height = endY - startY
+    
+    // Base heights including the halo, clipped to the grid unless it is unbounded
+    const haloStartX = unbounded ? startX - 1 : Math.max(0, startX - 1)
+    const haloStartY = unbounded ? startY - 1 : Math.max(0, startY - 1)
+    const haloEndX = unbounded ? endX + 1 : Math.min(resolution, endX + 1)
+    const haloEndY = unbounded ? endY + 1 : Math.min(resolution, endY + 1)
+    const haloWidth = haloEndX - haloStartX
+    const base = new Float32Array(haloWidth * (haloEndY - haloStartY))
+    
+    for (let y = haloStartY; y < haloEndY; y++) {
+      for (let x = haloStartX; x < haloEndX; x++) {
+        base[(y - haloStartY) * haloWidth + (x - haloStartX)] = this.evaluateBaseHeight(x, y, context)
+      }
+    }
+    
+    const heightData = new Float32Array(width * height)
+    
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const current = base[(y - haloStartY) * haloWidth + (x - haloStartX)]
         
-        if (adjustedConfig.coastalFeatures.enabled) {
-          height = this.addCoastalFeatures(warpedX, warpedY, height, featureScale)
-        }
+        // Simple 3x3 smoothing for extreme outliers
+        let sum = current
+        let count = 1
         
-        // Apply custom layers with intelligent scaling
-        for (const layer of adjustedConfig.layers) {
-          height = this.applyLayer(warpedX, warpedY, height, layer)
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx
+            const ny = y + dy
+            
+            const inside = unbounded || (nx >= 0 && nx < resolution && ny >= 0 && ny < resolution)
+            if (inside && (dx !== 0 || dy !== 0)) {
+              sum += base[(ny - haloStartY) * haloWidth + (nx - haloStartX)]
+              count++
+            }
+          }
         }
         
-        // Intelligent micro-detail that scales with geological complexity and feature scale
-        const microDetailFreq = 6 + featureScale * 4 // 6.4 to 18 frequency range
-        const microDetailAmp = (1 + geologicalComplexity) * featureScale * 0.8 // Smarter amplitude scaling
-        const microDetail = this.noiseSystem.perlin(warpedX * microDetailFreq, warpedY * microDetailFreq) * microDetailAmp
-        height += microDetail
+        const average = sum / count
         
-        // Apply master relief amplitude scaling
-        height *= reliefAmplitude
+        // Only smooth if the value is drastically different from neighbors
+        const smoothed = Math.abs(current - average) > 50 ? current * 0.7 + average * 0.3 : current
         
-        heightData[index] = height
+        heightData[(y - startY) * width + (x - startX)] = this.applyCustomLayers(x, y, smoothed, context)
       }
     }
+    
+    return heightData
+  }
+
+  /**
+   * Height of one grid sample before outlier smoothing and custom layers
+   */
+  public evaluateBaseHeight(x: number, y: number, context: TerrainSampleContext): number {
+    const { type, baseLayers, geologicalComplexity, domainWarping, reliefAmplitude, featureScale } = context
+    
+    // Improved coordinate transformation with slight offset to avoid center artifacts
+    const nx = this.gridCoordinate(x, context) + 0.001
+    const ny = this.gridCoordinate(y, context) + 0.001
+    
+    // Advanced domain warping controlled by domainWarping parameter
+    const warpStrength = domainWarping * 0.6 // 0.0 to 0.36
+    const warpScale = 0.3 + featureScale * 0.4 // Scale warp frequency with feature scale
+    
+    const warpX = this.perlinAt(nx, ny, warpScale, 100, 200) * warpStrength
+    const warpY = this.perlinAt(nx, ny, warpScale, 300, 400) * warpStrength
+    
+    // Apply secondary warping for ultra-natural terrain when domain warping is high
+    let warpedX = nx + warpX
+    let warpedY = ny + warpY
+    
+    if (domainWarping > 0.7) {
+      const secondaryWarp = (domainWarping - 0.7) * 0.3
+      const secondaryScale = warpScale * 2
+      warpedX += this.perlinAt(warpedX, warpedY, secondaryScale, 500, 600) * secondaryWarp
+      warpedY += this.perlinAt(warpedX, warpedY, secondaryScale, 700, 800) * secondaryWarp
+    }
+    
+    let height: number
+    
+    // Use advanced blending if enabled, otherwise use original method
+    if (this.config.useAdvancedBlending) {
+      height = this.generateAdvancedTerrain(warpedX, warpedY, type, baseLayers, geologicalComplexity, featureScale)
+    } else {
+      // Original terrain generation using multi-scale composition
+      height = this.noiseSystem.multiScaleNoise(warpedX, warpedY, baseLayers)
+    }
+    
+    // Apply geological features with new parameter control, scaled by their morph weights
+    const { mountainRanges, valleys, plateaus, coastalFeatures } = this.config
+    
+    if (mountainRanges.enabled) {
+      height += this.generateMountainRanges(warpedX, warpedY, featureScale, context) * geologicalComplexity * (mountainRanges.weight ?? 1)
+    }
+    
+    if (valleys.enabled) {
+      height = this.weightFeature(height, this.carveValleys(warpedX, warpedY, height, geologicalComplexity * 0.7, featureScale, context), valleys.weight)
+    }
+    
+    if (plateaus.enabled) {
+      height = this.weightFeature(height, this.addPlateaus(warpedX, warpedY, height, featureScale, context), plateaus.weight)
+    }
+    
+    if (coastalFeatures.enabled) {
+      height = this.weightFeature(height, this.addCoastalFeatures(warpedX, warpedY, height, featureScale), coastalFeatures.weight)
+    }
+    
+    // Apply detail layers with intelligent scaling
+    for (const layer of this.config.layers) {
+      height = this.applyLayer(warpedX, warpedY, height, layer)
+    }
+    
+    // Intelligent micro-detail that scales with geological complexity and feature scale
+    const microDetailFreq = 6 + featureScale * 4 // 6.4 to 18 frequency range
+    const microDetailAmp = (1 + geologicalComplexity) * featureScale * 0.8 // Smarter amplitude scaling
+    const microDetail = this.perlinAt(warpedX, warpedY, microDetailFreq) * microDetailAmp
+    height += microDetail
+    
+    // Apply master relief amplitude scaling
+    return height * reliefAmplitude
+  }
+
+  /**
+   * Blend the user's custom layers (noise or imported heightmaps) into a finished base height.
+   * Slope-masked layers are skipped here, generateRegion() applies them in its second pass.
+   */
+  public applyCustomLayers(x: number, y: number, height: number, context: TerrainSampleContext): number {
+    if (context.customLayers.length === 0) return height
+    
+    const u = this.gridCoordinate(x, context)
+    const v = this.gridCoordinate(y, context)
+    
+    for (const layer of context.customLayers) {
+      if (layer.blendMode === BlendMode.MASK_SLOPE) continue
+      
+      // Layers without a blend mode (older projects) are additive
+      height = this.blendLayerValue(u + 0.001, v + 0.001, height, this.sampleCustomLayer(layer, u, v), layer)
+    }
+    
+    return height
+  }
+
+  /**
+   * Raw value of a custom layer at terrain coordinates (-1..1)
+   */
+  private sampleCustomLayer(layer: TerrainLayer, u: number, v: number): number {
+    // Noise is sampled with a slight offset to avoid center artifacts
+    return layer.heightmap
+      ? this.sampleHeightmapLayer(layer.heightmap, u, v)
+      : this.noiseSystem.generateNoise(u + 0.001, v + 0.001, layer.type, this.tiled(layer.config))
+  }
+
+  /**
+   * Height after a geological feature, faded in by the feature's weight
+   */
+  private weightFeature(before: number, after: number, weight: number = 1): number {
+    return before + (after - before) * weight
+  }
+
+  /**
+   * Terrain coordinate (-1..1) of a grid index. Tileable terrain wraps indices, so the last
+   * row and column repeat the first exactly and halo samples beyond the edges are defined.
+   */
+  public gridCoordinate(index: number, context: TerrainSampleContext): number {
+    const span = context.resolution - 1
+    const wrapped = context.tileable ? ((index % span) + span) % span : index
+    return (wrapped / span) * 2 - 1
+  }
 
-    return this.postProcess(heightData)
+  /**
+   * Noise config that repeats across the terrain in tileable mode. `scale` is the factor the
+   * caller applies to terrain coordinates before sampling.
+   */
+  public tiled<T>(config: T, scale: number = 1): T {
+    return this.config.tileable ? { ...config, period: this.tilePeriod(scale) } : config
+  }
+
+  /**
+   * Period of coordinates scaled by `scale` in tileable mode, undefined otherwise
+   */
+  private tilePeriod(scale: number = 1): number | undefined {
+    return this.config.tileable ? TILE_PERIOD * scale : undefined
+  }
+
+  /**
+   * Perlin noise at terrain coordinates * scale + offset; the scale snaps to whole periods when tileable
+   */
+  private perlinAt(x: number, y: number, scale: number, offsetX: number = 0, offsetY: number = 0): number {
+    if (!this.config.tileable) {
+      return this.noiseSystem.perlin(x * scale + offsetX, y * scale + offsetY)
+    }
+    
+    const lattice = AdvancedNoiseSystem.periodicLattice(scale, TILE_PERIOD)
+    const snapped = lattice / TILE_PERIOD
+    return this.noiseSystem.periodicPerlin(x * snapped + offsetX, y * snapped + offsetY, lattice, lattice)
+  }
+
+  /**
+   * Weight of a slope-masked layer at a slope (degrees): 1 inside slopeRange, easing to 0 over the falloff.
+   * A range starting at 0° or ending at 90° is open on that side.
+   */
+  public static slopeMask(slope: number, range: { min: number; max: number }, falloff: number = DEFAULT_SLOPE_FALLOFF): number {
+    const rise = range.min <= 0 ? 1 : smoothstep(range.min - falloff, range.min + falloff, slope)
+    const fall = range.max >= 90 ? 1 : 1 - smoothstep(range.max - falloff, range.max + falloff, slope)
+    return rise * fall
   }
 
   public getTerrainTypeLayers(type: TerrainType, geologicalComplexity: number, featureScale: number): Array<{ type: NoiseType; config: any; weight: number }> {
@@ -470,11 +842,11 @@ export class AdvancedTerrainGenerator {
    */
   private generateVoronoiIslands(x: number, y: number, featureScale: number, geologicalComplexity: number): number {
     // Voronoi for island placement (from demo's generateIslandChain)
-    const voronoi = this.noiseSystem.voronoiNoise(x, y, 0.4 / featureScale)
+    const voronoi = this.noiseSystem.voronoiNoise(x, y, 0.4 / featureScale, this.tilePeriod())
     const islandMask = Math.max(0, 0.6 - voronoi) / 0.6
     
     // Ridged noise for volcanic peaks
-    const volcanic = this.noiseSystem.ridgedNoise(x, y, {
+    const volcanic = this.noiseSystem.ridgedNoise(x, y, this.tiled({
       octaves: Math.round(6 + geologicalComplexity),
       frequency: 1.0 / featureScale,
       amplitude: 200,
@@ -485,10 +857,10 @@ export class AdvancedTerrainGenerator {
       ridgeOffset: 0.8,
       gain: 4.0 + geologicalComplexity * 2.0,
       threshold: 0.0
-    })
+    }))
     
     // Turbulence for coastal variation
-    const coastal = this.noiseSystem.fbm(x, y, {
+    const coastal = this.noiseSystem.fbm(x, y, this.tiled({
       octaves: Math.round(4 + geologicalComplexity * 0.5),
       frequency: 1.5 / featureScale,
       amplitude: 30,
@@ -499,10 +871,10 @@ export class AdvancedTerrainGenerator {
       warpStrength: 0.4 + geologicalComplexity * 0.2,
       warpFrequency: 0.6,
       turbulence: true
-    })
+    }))
     
     // Replace circular ocean depth with noise-based sea level variation
-    const seaLevel = this.noiseSystem.fbm(x * 0.3, y * 0.3, {
+    const seaLevel = this.noiseSystem.fbm(x * 0.3, y * 0.3, this.tiled({
       octaves: 3,
       frequency: 0.2 / featureScale,
       amplitude: 80,
@@ -513,10 +885,10 @@ export class AdvancedTerrainGenerator {
       warpStrength: 0.1,
       warpFrequency: 0.1,
       turbulence: false
-    })
+    }, 0.3))
     
     // Add subtle noise-based depth variation instead of circular falloff
-    const depthVariation = this.noiseSystem.perlin(x * 0.1, y * 0.1) * 40
+    const depthVariation = this.perlinAt(x, y, 0.1) * 40
     
     // Combine layers using demo technique without circular artifacts
     let height = volcanic * islandMask + coastal * 0.3 + seaLevel + depthVariation
@@ -524,15 +896,16 @@ export class AdvancedTerrainGenerator {
     return height
   }
 
-  private generateMountainRanges(x: number, y: number, featureScale: number): number {
+  private generateMountainRanges(x: number, y: number, featureScale: number, context: TerrainSampleContext): number {
     const { mountainRanges } = this.config
+    const { peakHeight, ridgeStrength } = context.features
     let mountainHeight = 0
     
     for (let i = 0; i < mountainRanges.count; i++) {
       const ridgeConfig: RidgedNoiseConfig = {
         octaves: 5,
         frequency: (0.5 + i * 0.2) / featureScale, // Scale frequency by featureScale
-        amplitude: mountainRanges.peakHeight,
+        amplitude: peakHeight,
         persistence: 0.6,
         lacunarity: 2.1,
         seed: this.config.seed + i,
@@ -542,17 +915,16 @@ export class AdvancedTerrainGenerator {
         threshold: 0.0
       }
       
-      const ridge = this.noiseSystem.ridgedNoise(x, y, ridgeConfig)
-      mountainHeight += ridge * mountainRanges.ridgeStrength * (1.0 / (i + 1))
+      const ridge = this.noiseSystem.ridgedNoise(x, y, this.tiled(ridgeConfig))
+      mountainHeight += ridge * ridgeStrength * (1.0 / (i + 1))
     }
     
     return mountainHeight
   }
 
-  private carveValleys(x: number, y: number, height: number, valleyIntensity: number, featureScale: number): number {
-    const { valleys } = this.config
-    
-    const valleyMask = this.noiseSystem.generateNoise(x * (0.3 / featureScale), y * (0.3 / featureScale), NoiseType.FBM, {
+  private carveValleys(x: number, y: number, height: number, valleyIntensity: number, featureScale: number, context: TerrainSampleContext): number {
+    const valleyScale = 0.3 / featureScale
+    const valleyMask = this.noiseSystem.generateNoise(x * valleyScale, y * valleyScale, NoiseType.FBM, this.tiled({
       octaves: 4,
       frequency: 1.0 / featureScale, // Scale valley network frequency
       amplitude: 1.0,
@@ -563,19 +935,19 @@ export class AdvancedTerrainGenerator {
       warpStrength: 0.2 * valleyIntensity, // More warping with higher intensity
       warpFrequency: 0.5 / featureScale,
       turbulence: false
-    } as FBMConfig)
+    } as FBMConfig, valleyScale))
     
-    const valleyDepth = Math.max(0, -valleyMask) * valleys.depth * valleyIntensity
+    const valleyDepth = Math.max(0, -valleyMask) * context.features.valleyDepth * valleyIntensity
     return height - valleyDepth
   }
 
-  private addPlateaus(x: number, y: number, height: number, featureScale: number): number {
+  private addPlateaus(x: number, y: number, height: number, featureScale: number, context: TerrainSampleContext): number {
     const { plateaus } = this.config
     
-    const plateauMask = this.noiseSystem.voronoiNoise(x, y, 0.4 / featureScale) // Scale plateau frequency
+    const plateauMask = this.noiseSystem.voronoiNoise(x, y, 0.4 / featureScale, this.tilePeriod()) // Scale plateau frequency
     const smoothedPlateau = Math.pow(Math.max(0, 0.5 - plateauMask), plateaus.edgeSharpness)
     
-    return height + smoothedPlateau * plateaus.height
+    return height + smoothedPlateau * context.features.plateauHeight
   }
 
   private addCoastalFeatures(_x: number, _y: number, height: number, _featureScale: number): number {
@@ -583,13 +955,13 @@ export class AdvancedTerrainGenerator {
     // No distance calculations from center point
     if (height > -10 && height < 10) {
       // Beach/shoreline area - make it flatter and add coastal detail
-      const coastalVariation = this.noiseSystem.perlin(_x * 3.0, _y * 3.0) * 2.0
+      const coastalVariation = this.perlinAt(_x, _y, 3.0) * 2.0
       height = height * 0.4 + coastalVariation
     }
     
     // Add subtle coastal erosion patterns for areas near sea level
     if (height > -20 && height < 20) {
-      const erosionPattern = this.noiseSystem.fbm(_x, _y, {
+      const erosionPattern = this.noiseSystem.fbm(_x, _y, this.tiled({
         octaves: 3,
         frequency: 2.0,
         amplitude: 3.0,
@@ -600,7 +972,7 @@ export class AdvancedTerrainGenerator {
         warpStrength: 0.1,
         warpFrequency: 1.0,
         turbulence: false
-      } as FBMConfig)
+      } as FBMConfig))
       height += erosionPattern * 0.3
     }
     
@@ -608,15 +980,33 @@ export class AdvancedTerrainGenerator {
   }
 
   private applyLayer(x: number, y: number, height: number, layer: TerrainLayer): number {
-    let layerValue = this.noiseSystem.generateNoise(x, y, layer.type, layer.config)
+    let layerValue = layer.heightmap
+      ? this.sampleHeightmapLayer(layer.heightmap, x, y)
+      : this.noiseSystem.generateNoise(x, y, layer.type, this.tiled(layer.config))
     
     // Apply mask if specified
     if (layer.maskType && layer.maskConfig) {
-      const mask = this.noiseSystem.generateNoise(x, y, layer.maskType, layer.maskConfig)
+      const mask = this.noiseSystem.generateNoise(x, y, layer.maskType, this.tiled(layer.maskConfig))
       layerValue *= Math.max(0, mask)
     }
     
-    // Apply blend mode
+    return this.blendLayerValue(x, y, height, layerValue, layer)
+  }
+
+  /**
+   * Sample an imported heightmap at noise-space coordinates (-1..1 across the terrain)
+   */
+  public sampleHeightmapLayer(source: HeightmapLayerSource, x: number, y: number): number {
+    const u = (x + 1) * 0.5 * (source.width - 1)
+    const v = (y + 1) * 0.5 * (source.height - 1)
+    return Resampler.sampleBilinear(source.data, source.width, source.height, u, v)
+  }
+
+  /**
+   * Combine a layer value with the current height using the layer's blend mode.
+   * Slope masking needs the local slope in degrees; without it the layer is applied unmasked.
+   */
+  public blendLayerValue(x: number, y: number, height: number, layerValue: number, layer: TerrainLayer, slope?: number): number {
     switch (layer.blendMode) {
       case BlendMode.ADD:
         return height + layerValue * layer.weight
@@ -644,17 +1034,17 @@ export class AdvancedTerrainGenerator {
         }
         return height
       case BlendMode.MASK_SLOPE:
-        // This blend mode requires slope data, which is not directly available here.
-        // For now, we'll just apply the layer value as is, or handle slope masking separately.
-        // If slope data were available, you'd calculate slope here and check against layer.slopeRange
-        return height + layerValue * layer.weight
+        if (slope === undefined || !layer.slopeRange) {
+          return height + layerValue * layer.weight
+        }
+        return height + layerValue * layer.weight * AdvancedTerrainGenerator.slopeMask(slope, layer.slopeRange, layer.slopeFalloff)
       case BlendMode.VORONOI_ISLANDS:
         // Generate Voronoi-based island masking
-        const voronoi = this.noiseSystem.voronoiNoise(x, y, 0.4)
+        const voronoi = this.noiseSystem.voronoiNoise(x, y, 0.4, this.tilePeriod())
         const islandMask = Math.max(0, 0.6 - voronoi) / 0.6
         
         // Replace circular ocean depth with noise-based sea level
-        const seaLevelNoise = this.noiseSystem.fbm(x * 0.15, y * 0.15, {
+        const seaLevelNoise = this.noiseSystem.fbm(x * 0.15, y * 0.15, this.tiled({
           octaves: 4,
           frequency: 0.3,
           amplitude: 120,
@@ -665,10 +1055,10 @@ export class AdvancedTerrainGenerator {
           warpStrength: 0.2,
           warpFrequency: 0.1,
           turbulence: false
-        } as FBMConfig)
+        } as FBMConfig, 0.15))
         
         // Add organic depth variation
-        const depthNoise = this.noiseSystem.perlin(x * 0.05 + 2000, y * 0.05 + 3000) * 60
+        const depthNoise = this.perlinAt(x, y, 0.05, 2000, 3000) * 60
         
         return height * islandMask + layerValue * layer.weight * islandMask + seaLevelNoise + depthNoise
       default:
@@ -676,46 +1066,6 @@ export class AdvancedTerrainGenerator {
     }
   }
 
-  private postProcess(heightData: Float32Array): Float32Array {
-    // Smooth extreme values
-    const processed = new Float32Array(heightData.length)
-    const resolution = this.config.resolution
-    
-    for (let i = 0; i < heightData.length; i++) {
-      const y = Math.floor(i / resolution)
-      const x = i % resolution
-      
-      // Simple 3x3 smoothing for extreme outliers
-      let sum = heightData[i]
-      let count = 1
-      
-      for (let dy = -1; dy <= 1; dy++) {
-        for (let dx = -1; dx <= 1; dx++) {
-          const nx = x + dx
-          const ny = y + dy
-          
-          if (nx >= 0 && nx < resolution && ny >= 0 && ny < resolution && (dx !== 0 || dy !== 0)) {
-            const neighborIndex = ny * resolution + nx
-            sum += heightData[neighborIndex]
-            count++
-          }
-        }
-      }
-      
-      const average = sum / count
-      const current = heightData[i]
-      
-      // Only smooth if the value is drastically different from neighbors
-      if (Math.abs(current - average) > 50) {
-        processed[i] = current * 0.7 + average * 0.3
-      } else {
-        processed[i] = current
-      }
-    }
-    
-    return processed
-  }
-
   public updateConfig(newConfig: Partial<AdvancedTerrainConfig>): void {
     this.config = { ...this.config, ...newConfig }
     if (newConfig.seed !== undefined) {
@@ -748,15 +1098,12 @@ export class AdvancedTerrainGenerator {
     return this.noiseSystem
   }
 
-  public exportHeightmapAsImage(heightData: Float32Array): string {
+  /**
+   * 8-bit grayscale PNG of the heights, normalized to their min/max, as a data URL
+   */
+  public async exportHeightmapAsImage(heightData: Float32Array): Promise<string> {
     const { resolution } = this.config
-    const canvas = document.createElement('canvas')
-    canvas.width = resolution
-    canvas.height = resolution
-    const ctx = canvas.getContext('2d')!
-    
-    const imageData = ctx.createImageData(resolution, resolution)
-    const data = imageData.data
+    const pixels = new Uint8Array(resolution * resolution)
 
     // Find min/max for normalization
     let min = Infinity
@@ -771,16 +1118,22 @@ export class AdvancedTerrainGenerator {
     // Convert height data to grayscale image
     for (let i = 0; i < heightData.length; i++) {
       const normalized = range > 0 ? (heightData[i] - min) / range : 0
-      const value = Math.floor(normalized * 255)
-      
-      const pixelIndex = i * 4
-      data[pixelIndex] = value     // Red
-      data[pixelIndex + 1] = value // Green  
-      data[pixelIndex + 2] = value // Blue
-      data[pixelIndex + 3] = 255   // Alpha
+      pixels[i] = Math.floor(normalized * 255)
     }
 
-    ctx.putImageData(imageData, 0, 0)
-    return canvas.toDataURL('image/png')
+    const png = await PNGCodec.encode({ width: resolution, height: resolution, bitDepth: 8, channels: 1, data: pixels })
+
+    // btoa works on binary strings; build it in slices to stay below argument limits
+    let binary = ''
+    for (let i = 0; i < png.length; i += 0x8000) {
+      binary += String.fromCharCode(...png.subarray(i, i + 0x8000))
+    }
+    return `data:image/png;base64,${btoa(binary)}`
   }
-} 
\ No newline at end of file
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  if (edge1 <= edge0) return x < edge0 ? 0 : 1
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)))
+  return t * t * (3 - 2 * t)
+}
@@ -1,56 +1,17 @@
 import * as THREE from 'three/webgpu'
-
-export type BrushMode = 'raise' | 'lower' | 'smooth' | 'flatten' | 'mountain'
-
-export interface MountainPreset {
-  name: string
-  size: number
-  strength: number
-  octaves: number
-  persistence: number
-  frequency: number
-  ridgeSharpness: number
-  type: 'alpine' | 'desert'
-}
-
-export interface BrushSettings {
-  size: number
-  strength: number
-  mode: BrushMode
-  mountainPreset?: MountainPreset
-}
-
-// Mountain presets for different mountain types
-export const MOUNTAIN_PRESETS: { [key: string]: MountainPreset } = {
-  alaskan: {
-    name: 'Alaskan/Everest',
-    size: 250,
-    strength: 0.8,
-    octaves: 8,
-    persistence: 0.6,
-    frequency: 0.004,
-    ridgeSharpness: 2.4,
-    type: 'alpine'
-  },
-  desert: {
-    name: 'Nevada/New Mexico',
-    size: 200,
-    strength: 0.6,
-    octaves: 6,
-    persistence: 0.5,
-    frequency: 0.006,
-    ridgeSharpness: 1.8,
-    type: 'desert'
-  }
-}
+import { HeightRegion, TerrainHistory } from './TerrainHistory'
+import { calculateTerrainColors } from './TerrainColors'
+import { HeightBrush, HeightBrushTarget, BrushSettings, MOUNTAIN_PRESETS } from './HeightBrush'
 
 export class BrushSystem {
   private terrain: THREE.Mesh | null = null
   private heightData: Float32Array | null = null
-  // @ts-ignore - Kept for potential undo functionality
-  private _originalHeightData: Float32Array | null = null
+  // Heights as they were before the current stroke, used to build undo diffs
+  private strokeBaseline: Float32Array | null = null
   private resolution: number = 0
   private terrainSize: number = 1000
+  // Tileable terrain: strokes and smoothing wrap around, the last row/column mirror the first
+  private tileable: boolean = false
   
   private brushSettings: BrushSettings = {
     size: 10,
@@ -76,10 +37,15 @@ export class BrushSystem {
   private affectedRegion: { minX: number; maxX: number; minZ: number; maxZ: number } | null = null
   private isHighResolution: boolean = false
 
+  // Union of all regions touched since mouse-down, reported to the undo history on mouse-up
+  private strokeRegion: HeightRegion | null = null
+  private strokeCallback?: (region: HeightRegion, previousValues: Float32Array) => void
+
   public setTerrain(terrain: THREE.Mesh, heightData: Float32Array, resolution: number): void {
     this.terrain = terrain
     this.heightData = heightData.slice() // Make a copy
-    this._originalHeightData = heightData.slice() // Keep original for reference
+    this.strokeBaseline = heightData.slice() // Pre-stroke state for undo diffs
+    this.strokeRegion = null
     this.resolution = resolution
     this.scene = terrain.parent as THREE.Scene
     
@@ -131,6 +97,10 @@ export class BrushSystem {
     }
   }
 
+  public setTileable(tileable: boolean): void {
+    this.tileable = tileable
+  }
+
   public getBrushSettings(): BrushSettings {
     return { ...this.brushSettings }
   }
@@ -151,6 +121,32 @@ export class BrushSystem {
     return this.heightData || new Float32Array(0)
   }
 
+  /**
+   * Register a callback fired when a stroke ends, with the heights the stroke replaced
+   */
+  public setStrokeCallback(callback: (region: HeightRegion, previousValues: Float32Array) => void): void {
+    this.strokeCallback = callback
+  }
+
+  /**
+   * Overwrite a region of the heightmap (used by undo/redo) and refresh the mesh
+   */
+  public setHeightRegion(region: HeightRegion, values: Float32Array): void {
+    if (!this.terrain || !this.heightData || !this.strokeBaseline) return
+
+    TerrainHistory.writeRegion(this.heightData, this.resolution, region, values)
+    TerrainHistory.writeRegion(this.strokeBaseline, this.resolution, region, values)
+
+    this.affectedRegion = { ...region }
+    this.updateTerrainMesh()
+    this.affectedRegion = null
+
+    if (this.isHighResolution) {
+      const geometry = this.terrain.geometry as THREE.PlaneGeometry
+      geometry.computeVertexNormals()
+    }
+  }
+
   public setActive(active: boolean): void {
     this.isActive = active
     if (this.brushPreview) {
@@ -188,6 +184,8 @@ export class BrushSystem {
     this.isMouseDown = false
     this._brushStarted = false
 
+    this.finishStroke()
+
     // Ensure normals are computed after brushing stops for high resolution terrains
     if (this.isHighResolution && this.terrain) {
       const geometry = this.terrain.geometry as THREE.PlaneGeometry
@@ -195,6 +193,23 @@ export class BrushSystem {
     }
   }
 
+  /**
+   * Hand the replaced heights of the finished stroke to the history and advance the baseline
+   */
+  private finishStroke(): void {
+    const region = this.strokeRegion
+    this.strokeRegion = null
+    if (!region || !this.heightData || !this.strokeBaseline) return
+
+    const previousValues = TerrainHistory.captureRegion(this.strokeBaseline, this.resolution, region)
+    const currentValues = TerrainHistory.captureRegion(this.heightData, this.resolution, region)
+    TerrainHistory.writeRegion(this.strokeBaseline, this.resolution, region, currentValues)
+
+    if (this.strokeCallback) {
+      this.strokeCallback(region, previousValues)
+    }
+  }
+
   private updateMousePosition(event: MouseEvent, canvas: HTMLCanvasElement): void {
     const rect = canvas.getBoundingClientRect()
     this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1
@@ -225,21 +240,10 @@ export class BrushSystem {
     
     if (intersects.length === 0) return
 
-    const intersect = intersects[0]
-    const worldPosition = intersect.point
-
-    // Convert world position to heightmap coordinates
-    const halfSize = this.terrainSize / 2
-    const hmapX = Math.floor(((worldPosition.x + halfSize) / this.terrainSize) * this.resolution)
-    const hmapZ = Math.floor(((worldPosition.z + halfSize) / this.terrainSize) * this.resolution)
-
-    // Clamp coordinates
-    const clampedX = Math.max(0, Math.min(this.resolution - 1, hmapX))
-    const clampedZ = Math.max(0, Math.min(this.resolution - 1, hmapZ))
-    
     // Set flatten height to the height at the center point where the mouse clicked
-    const index = clampedZ * this.resolution + clampedX
-    this.flattenHeight = this.heightData[index]
+    const target = this.getBrushTarget()!
+    const { x, z } = HeightBrush.worldToGrid(target, intersects[0].point.x, intersects[0].point.z)
+    this.flattenHeight = HeightBrush.heightAt(target, x, z)
   }
 
   private applyBrush(camera: THREE.Camera): void {
@@ -250,165 +254,46 @@ export class BrushSystem {
     
     if (intersects.length === 0) return
 
-    const intersect = intersects[0]
-    const worldPosition = intersect.point
-
-    // Convert world position to heightmap coordinates
-    const halfSize = this.terrainSize / 2
-    const hmapX = Math.floor(((worldPosition.x + halfSize) / this.terrainSize) * this.resolution)
-    const hmapZ = Math.floor(((worldPosition.z + halfSize) / this.terrainSize) * this.resolution)
-
-    // Apply brush effect
-    this.modifyHeightmap(hmapX, hmapZ)
+    // Convert world position to heightmap coordinates and apply the brush effect
+    const { x, z } = HeightBrush.worldToGrid(this.getBrushTarget()!, intersects[0].point.x, intersects[0].point.z)
+    this.modifyHeightmap(x, z)
     this.updateTerrainMesh()
   }
 
   private modifyHeightmap(centerX: number, centerZ: number): void {
-    if (!this.heightData) return
-
-    const brushRadius = (this.brushSettings.size / this.terrainSize) * this.resolution
-    const baseStrength = this.brushSettings.strength * 1.5 // Base strength multiplier
+    const target = this.getBrushTarget()
+    if (!target) return
 
-    // Track affected region for optimized mesh updates
-    const minX = Math.max(0, centerX - Math.ceil(brushRadius))
-    const maxX = Math.min(this.resolution - 1, centerX + Math.ceil(brushRadius))
-    const minZ = Math.max(0, centerZ - Math.ceil(brushRadius))
-    const maxZ = Math.min(this.resolution - 1, centerZ + Math.ceil(brushRadius))
+    const region = HeightBrush.apply(target, centerX, centerZ, this.brushSettings, this.flattenHeight)
+    if (!region) return
 
     // Store affected region for selective mesh updates
     if (this.isHighResolution) {
-      this.affectedRegion = { minX, maxX, minZ, maxZ }
-    }
-
-    for (let z = minZ; z <= maxZ; z++) {
-      for (let x = minX; x <= maxX; x++) {
-        
-        const distance = Math.sqrt((x - centerX) ** 2 + (z - centerZ) ** 2)
-        if (distance > brushRadius) continue
-
-        // Improved falloff with smoother curve
-        const normalizedDistance = distance / brushRadius
-        const falloff = Math.pow(1 - normalizedDistance, 2.2) // Smooth, more natural falloff
-        const effectiveStrength = baseStrength * falloff
-
-        const index = z * this.resolution + x
-        const currentHeight = this.heightData[index]
-
-        switch (this.brushSettings.mode) {
-          case 'raise':
-            this.heightData[index] = currentHeight + effectiveStrength
-            break
-            
-          case 'lower':
-            this.heightData[index] = currentHeight - effectiveStrength
-            break
-            
-          case 'smooth':
-            const smoothedHeight = this.getSmoothedHeight(x, z)
-            this.heightData[index] = this.lerp(currentHeight, smoothedHeight, effectiveStrength * 0.3)
-            break
-            
-          case 'flatten':
-            // Move towards the flatten height with improved interpolation
-            const heightDiff = this.flattenHeight - currentHeight
-            this.heightData[index] = currentHeight + heightDiff * effectiveStrength * 0.4
-            break
-
-          case 'mountain':
-            if (this.brushSettings.mountainPreset) {
-              const mountainHeight = this.generateMountainHeight(x, z, centerX, centerZ, distance, brushRadius)
-              // Gentle mountain building with proper scaling
-              if (mountainHeight > 0.1) { // Only apply if meaningful height
-                const blendFactor = effectiveStrength * 0.4 // Reduced blend factor
-                const newHeight = currentHeight + mountainHeight * blendFactor
-                // Smooth blending - allow small decreases for natural terrain flow
-                const heightDifference = newHeight - currentHeight
-                if (heightDifference > -2) { // Prevent major lowering, allow minor adjustments
-                  this.heightData[index] = newHeight
-                } else {
-                  this.heightData[index] = currentHeight // Keep original if too much lowering
-                }
-              }
-            }
-            break
-        }
-
-        // Clamp height values to reasonable bounds - greatly increased range
-        this.heightData[index] = Math.max(-2000, Math.min(5000, this.heightData[index]))
-      }
+      this.affectedRegion = { ...region }
     }
-  }
 
-  private generateMountainHeight(x: number, z: number, _centerX: number, _centerZ: number, distance: number, brushRadius: number): number {
-    if (!this.brushSettings.mountainPreset) return 0
-
-    const preset = this.brushSettings.mountainPreset
-    const normalizedDistance = distance / brushRadius
-
-    // Convert to world coordinates for consistent noise
-    const worldX = (x / this.resolution) * 2.0 - 1.0
-    const worldZ = (z / this.resolution) * 2.0 - 1.0
-
-    // Base mountain height using multiple noise layers
-    let mountainHeight = 0
-    let amplitude = preset.strength * 60
-    let frequency = preset.frequency
-
-    for (let i = 0; i < preset.octaves; i++) {
-      // Use proper sine/cosine noise for mountain generation
-      const nx = worldX * frequency * 10
-      const nz = worldZ * frequency * 10
-      
-      let noise = 0
-      if (preset.type === 'alpine') {
-        // Sharp alpine ridges
-        const ridge1 = Math.abs(Math.sin(nx) * Math.cos(nz * 0.7))
-        const ridge2 = Math.abs(Math.cos(nx * 1.3) * Math.sin(nz * 1.1))
-        noise = Math.pow(1.0 - (ridge1 + ridge2) * 0.5, preset.ridgeSharpness)
-      } else {
-        // Desert mesa formations
-        const base = Math.sin(nx) * Math.cos(nz) + Math.cos(nx * 0.7) * Math.sin(nz * 1.2)
-        noise = Math.abs(base)
-      }
-      
-      mountainHeight += noise * amplitude
-      amplitude *= preset.persistence
-      frequency *= 2.0
+    // Grow the stroke region for the undo history
+    if (this.strokeRegion) {
+      this.strokeRegion.minX = Math.min(this.strokeRegion.minX, region.minX)
+      this.strokeRegion.maxX = Math.max(this.strokeRegion.maxX, region.maxX)
+      this.strokeRegion.minZ = Math.min(this.strokeRegion.minZ, region.minZ)
+      this.strokeRegion.maxZ = Math.max(this.strokeRegion.maxZ, region.maxZ)
+    } else {
+      this.strokeRegion = { ...region }
     }
-
-    // Apply smooth distance falloff
-    const falloff = Math.pow(1.0 - Math.min(1.0, normalizedDistance), 2.0)
-    
-    return mountainHeight * falloff
   }
 
-  private getSmoothedHeight(x: number, z: number): number {
-    if (!this.heightData) return 0
-
-    let totalHeight = 0
-    let totalWeight = 0
-
-    // Sample a 5x5 neighborhood with gaussian-like weighting
-    for (let dz = -2; dz <= 2; dz++) {
-      for (let dx = -2; dx <= 2; dx++) {
-        const nx = x + dx
-        const nz = z + dz
-        
-        if (nx >= 0 && nx < this.resolution && nz >= 0 && nz < this.resolution) {
-          const distance = Math.sqrt(dx * dx + dz * dz)
-          const weight = Math.exp(-distance * distance * 0.3) // Gaussian-like weight
-          
-          totalHeight += this.heightData[nz * this.resolution + nx] * weight
-          totalWeight += weight
-        }
-      }
+  /**
+   * The heightmap as HeightBrush edits it, null before a terrain is set
+   */
+  private getBrushTarget(): HeightBrushTarget | null {
+    if (!this.heightData) return null
+    return {
+      heightData: this.heightData,
+      resolution: this.resolution,
+      worldSize: this.terrainSize,
+      tileable: this.tileable
     }
-
-    return totalWeight > 0 ? totalHeight / totalWeight : this.heightData[z * this.resolution + x]
-  }
-
-  private lerp(a: number, b: number, t: number): number {
-    return a + (b - a) * Math.max(0, Math.min(1, t))
   }
 
   private updateTerrainMesh(): void {
@@ -546,85 +431,14 @@ export class BrushSystem {
 
     const geometry = this.terrain.geometry as THREE.PlaneGeometry
     
-    // Update vertex colors based on new heights (avoid spread operator for large arrays)
+    // Update vertex colors based on new heights
     const colors = geometry.attributes.color.array as Float32Array
     const { minHeight, maxHeight } = this.calculateHeightRange()
-    
-    for (let i = 0; i < this.heightData.length; i++) {
-      const normalizedHeight = maxHeight > minHeight ? 
-        (this.heightData[i] - minHeight) / (maxHeight - minHeight) : 0.5
-      const color = this.calculateTerrainColor(normalizedHeight, this.heightData[i])
-      
-      colors[i * 3] = color.r     // R
-      colors[i * 3 + 1] = color.g // G
-      colors[i * 3 + 2] = color.b // B
-    }
+    calculateTerrainColors(this.heightData, minHeight, maxHeight, colors)
 
     geometry.attributes.color.needsUpdate = true
   }
 
-  private calculateTerrainColor(normalizedHeight: number, _height: number): { r: number, g: number, b: number } {
-    // Define terrain height thresholds and colors
-    const soilColor = { r: 0.4, g: 0.3, b: 0.15 }    // Brown soil
-    const grassColor = { r: 0.3, g: 0.6, b: 0.2 }    // Green grass
-    const rockColor = { r: 0.5, g: 0.45, b: 0.4 }    // Gray rock
-    const snowColor = { r: 0.9, g: 0.95, b: 1.0 }    // White snow
-    
-    // Height thresholds (normalized 0-1)
-    const grassStart = 0.1   // Grass starts above soil level
-    const rockStart = 0.6    // Rock starts at higher elevations
-    const snowStart = 0.85   // Snow appears at highest peaks
-    
-    // Transition smoothness
-    const transitionWidth = 0.08
-    
-    let finalColor = { ...soilColor }
-    
-    // Soil to Grass transition
-    if (normalizedHeight > grassStart - transitionWidth) {
-      const grassBlend = this.smoothstep(grassStart - transitionWidth, grassStart + transitionWidth, normalizedHeight)
-      finalColor = this.mixColors(soilColor, grassColor, grassBlend)
-    }
-    
-    // Grass to Rock transition
-    if (normalizedHeight > rockStart - transitionWidth) {
-      const rockBlend = this.smoothstep(rockStart - transitionWidth, rockStart + transitionWidth, normalizedHeight)
-      finalColor = this.mixColors(finalColor, rockColor, rockBlend)
-    }
-    
-    // Rock to Snow transition
-    if (normalizedHeight > snowStart - transitionWidth) {
-      const snowBlend = this.smoothstep(snowStart - transitionWidth, snowStart + transitionWidth, normalizedHeight)
-      finalColor = this.mixColors(finalColor, snowColor, snowBlend)
-    }
-    
-    // Add slight height-based lighting variation
-    const lightingFactor = 0.85 + normalizedHeight * 0.3
-    
-    return {
-      r: Math.min(1.0, finalColor.r * lightingFactor),
-      g: Math.min(1.0, finalColor.g * lightingFactor),
-      b: Math.min(1.0, finalColor.b * lightingFactor)
-    }
-  }
-  
-  private smoothstep(edge0: number, edge1: number, x: number): number {
-    const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)))
-    return t * t * (3 - 2 * t)
-  }
-  
-  private mixColors(
-    color1: { r: number, g: number, b: number }, 
-    color2: { r: number, g: number, b: number }, 
-    factor: number
-  ): { r: number, g: number, b: number } {
-    return {
-      r: color1.r + (color2.r - color1.r) * factor,
-      g: color1.g + (color2.g - color1.g) * factor,
-      b: color1.b + (color2.b - color1.b) * factor
-    }
-  }
-
   public update(camera: THREE.Camera): void {
     // Update brush preview if active but not brushing
     if (this.isActive && !this.isMouseDown) {
@@ -0,0 +1,56 @@
+/**
+ * Cooperative cancellation for long-running terrain operations
+ *
+ * Loops call throwIfCancelled() at safe points; worker-backed operations
+ * subscribe with onCancel() to terminate their workers.
+ */
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message)
+    this.name = 'CancelledError'
+  }
+}
+
+export function isCancelledError(error: unknown): error is CancelledError {
+  return error instanceof CancelledError
+}
+
+export class CancellationToken {
+  private cancelled: boolean = false
+  private listeners: Array<() => void> = []
+
+  public get isCancelled(): boolean {
+    return this.cancelled
+  }
+
+  public cancel(): void {
+    if (this.cancelled) return
+    this.cancelled = true
+
+    const listeners = this.listeners
+    this.listeners = []
+    listeners.forEach(listener => listener())
+  }
+
+  /**
+   * Run a callback on cancellation (immediately if already cancelled); returns an unsubscribe function
+   */
+  public onCancel(listener: () => void): () => void {
+    if (this.cancelled) {
+      listener()
+      return () => {}
+    }
+
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener)
+    }
+  }
+
+  public throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new CancelledError()
+    }
+  }
+}
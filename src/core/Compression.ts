@@ -0,0 +1,28 @@
+/**
+ * Thin wrappers around the Compression Streams API (available in browsers, workers and Node 18+)
+ */
+
+export type CompressionAlgorithm = 'deflate' | 'deflate-raw' | 'gzip'
+
+/**
+ * Compress a byte buffer with the given algorithm
+ */
+export async function compressBytes(data: Uint8Array, algorithm: CompressionAlgorithm = 'deflate'): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream(algorithm))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Decompress a byte buffer previously produced by compressBytes()
+ */
+export async function decompressBytes(data: Uint8Array, algorithm: CompressionAlgorithm = 'deflate'): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream(algorithm))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Check whether the runtime supports the Compression Streams API
+ */
+export function isCompressionSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined'
+}
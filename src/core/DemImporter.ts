@@ -0,0 +1,275 @@
+/**
+ * Real-world DEM import: SRTM .hgt tiles and ESRI ASCII grids (.asc)
+ *
+ * Parsing yields a DemGrid with nodata cells marked as NaN and the cell size
+ * in meters. toHeightmap() crops a region, fills nodata holes and derives the
+ * world size, producing an ImportedHeightmap for TerrainBuilder.importHeightmap().
+ */
+
+import { ImportedHeightmap } from './HeightmapImporter'
+
+export interface DemGrid {
+  width: number
+  height: number
+  values: Float32Array // row-major, north row first, NaN = nodata
+  cellSizeX: number // meters
+  cellSizeY: number // meters
+  source: 'srtm' | 'esri-ascii'
+}
+
+// Rectangle in grid cells, origin at the north-west corner
+export interface DemRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface DemImportResult extends ImportedHeightmap {
+  cellSize: number // meters, along x
+  nodataCount: number
+}
+
+const SRTM_NODATA = -32768
+const METERS_PER_DEGREE = 111320
+
+export class DemImporter {
+  /**
+   * Parse a DEM file, detecting the format from its name
+   */
+  public static parseFile(fileName: string, bytes: Uint8Array): DemGrid {
+    const extension = fileName.toLowerCase().split('.').pop()
+    switch (extension) {
+      case 'hgt':
+        return DemImporter.parseHgt(bytes, fileName)
+      case 'asc':
+        return DemImporter.parseAsc(new TextDecoder().decode(bytes))
+      default:
+        throw new Error(`Unsupported DEM file type: .${extension}`)
+    }
+  }
+
+  /**
+   * SRTM tile: square grid of big-endian int16 meters (1201² for 3", 3601² for 1").
+   * The latitude in the file name (e.g. N46E007.hgt) is used for the east-west cell size.
+   */
+  public static parseHgt(bytes: Uint8Array, fileName: string = ''): DemGrid {
+    const sampleCount = Math.floor(bytes.length / 2)
+    const side = Math.round(Math.sqrt(sampleCount))
+    if (side * side !== sampleCount || side < 2) {
+      throw new Error(`Invalid SRTM tile: ${bytes.length} bytes is not a square int16 grid`)
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const values = new Float32Array(sampleCount)
+    for (let i = 0; i < sampleCount; i++) {
+      const value = view.getInt16(i * 2, false)
+      values[i] = value === SRTM_NODATA ? NaN : value
+    }
+
+    // Tiles span one degree and share their edge rows/columns with neighbors
+    const cellDegrees = 1 / (side - 1)
+    const latitude = DemImporter.parseHgtLatitude(fileName)
+    if (latitude === null) {
+      console.warn(`Could not read latitude from '${fileName}', assuming the equator for cell size`)
+    }
+    const centerLatitude = (latitude ?? 0) + 0.5
+
+    return {
+      width: side,
+      height: side,
+      values,
+      cellSizeX: cellDegrees * METERS_PER_DEGREE * Math.cos(centerLatitude * Math.PI / 180),
+      cellSizeY: cellDegrees * METERS_PER_DEGREE,
+      source: 'srtm'
+    }
+  }
+
+  /**
+   * ESRI ASCII grid. Cell sizes below one unit with geographic corner
+   * coordinates are treated as degrees, otherwise as meters.
+   */
+  public static parseAsc(text: string): DemGrid {
+    const tokens = text.split(/\s+/).filter(token => token.length > 0)
+    const header: Record<string, number> = {}
+
+    let index = 0
+    while (index < tokens.length && /^[a-z_]+$/i.test(tokens[index])) {
+      header[tokens[index].toLowerCase()] = parseFloat(tokens[index + 1])
+      index += 2
+    }
+
+    const width = header.ncols
+    const height = header.nrows
+    const cellSize = header.cellsize
+    if (!width || !height || !cellSize) {
+      throw new Error('Invalid ESRI ASCII grid: ncols, nrows and cellsize are required')
+    }
+    if (tokens.length - index < width * height) {
+      throw new Error(`ESRI ASCII grid is truncated: expected ${width * height} values, got ${tokens.length - index}`)
+    }
+
+    const nodata = header.nodata_value
+    const values = new Float32Array(width * height)
+    for (let i = 0; i < values.length; i++) {
+      const value = parseFloat(tokens[index + i])
+      values[i] = Number.isNaN(value) || value === nodata ? NaN : value
+    }
+
+    let cellSizeX = cellSize
+    let cellSizeY = cellSize
+    const lowerLeftY = header.yllcorner ?? header.yllcenter
+    const lowerLeftX = header.xllcorner ?? header.xllcenter
+    const isGeographic = cellSize < 1 && Math.abs(lowerLeftX ?? 0) <= 180 && Math.abs(lowerLeftY ?? 0) <= 90
+    if (isGeographic) {
+      const centerLatitude = (lowerLeftY ?? 0) + height * cellSize * 0.5
+      cellSizeY = cellSize * METERS_PER_DEGREE
+      cellSizeX = cellSizeY * Math.cos(centerLatitude * Math.PI / 180)
+    }
+
+    return { width, height, values, cellSizeX, cellSizeY, source: 'esri-ascii' }
+  }
+
+  /**
+   * Convert a region given as fractions (0..1) of the grid into whole cells
+   */
+  public static regionFromFractions(grid: DemGrid, left: number, top: number, width: number, height: number): DemRegion {
+    const x = Math.max(0, Math.min(grid.width - 2, Math.round(left * (grid.width - 1))))
+    const y = Math.max(0, Math.min(grid.height - 2, Math.round(top * (grid.height - 1))))
+    return {
+      x,
+      y,
+      width: Math.max(2, Math.min(grid.width - x, Math.round(width * grid.width))),
+      height: Math.max(2, Math.min(grid.height - y, Math.round(height * grid.height)))
+    }
+  }
+
+  /**
+   * Crop, fill nodata and derive world size. The terrain is square, so a
+   * non-square region is stretched and the world size follows its width.
+   */
+  public static toHeightmap(grid: DemGrid, region?: DemRegion): DemImportResult {
+    const area = region ?? { x: 0, y: 0, width: grid.width, height: grid.height }
+    if (area.x < 0 || area.y < 0 || area.x + area.width > grid.width || area.y + area.height > grid.height || area.width < 2 || area.height < 2) {
+      throw new Error(`DEM region ${area.width}x${area.height}+${area.x}+${area.y} is outside the ${grid.width}x${grid.height} grid`)
+    }
+
+    const heights = new Float32Array(area.width * area.height)
+    for (let y = 0; y < area.height; y++) {
+      const sourceRow = (area.y + y) * grid.width + area.x
+      heights.set(grid.values.subarray(sourceRow, sourceRow + area.width), y * area.width)
+    }
+
+    const nodataCount = DemImporter.fillNodata(heights, area.width, area.height)
+    if (nodataCount === heights.length) {
+      throw new Error('Selected DEM region contains only nodata cells')
+    }
+    if (nodataCount > 0) {
+      console.log(`Filled ${nodataCount} nodata cells from their neighbors`)
+    }
+
+    const worldWidth = (area.width - 1) * grid.cellSizeX
+    const worldHeight = (area.height - 1) * grid.cellSizeY
+    if (Math.abs(worldWidth - worldHeight) / Math.max(worldWidth, worldHeight) > 0.01) {
+      console.warn(`DEM region is ${Math.round(worldWidth)}m x ${Math.round(worldHeight)}m - it will be stretched to a square terrain`)
+    }
+
+    let minHeight = Infinity
+    let maxHeight = -Infinity
+    for (let i = 0; i < heights.length; i++) {
+      if (heights[i] < minHeight) minHeight = heights[i]
+      if (heights[i] > maxHeight) maxHeight = heights[i]
+    }
+
+    return {
+      width: area.width,
+      height: area.height,
+      heights,
+      minHeight,
+      maxHeight,
+      worldSize: worldWidth,
+      cellSize: grid.cellSizeX,
+      nodataCount
+    }
+  }
+
+  /**
+   * Fill NaN cells ring by ring with the average of their already-known neighbors.
+   * Returns the number of cells that were filled.
+   */
+  private static fillNodata(values: Float32Array, width: number, height: number): number {
+    let frontier: number[] = []
+    let missing = 0
+
+    for (let i = 0; i < values.length; i++) {
+      if (Number.isNaN(values[i])) {
+        missing++
+        if (DemImporter.hasKnownNeighbor(values, width, height, i)) frontier.push(i)
+      }
+    }
+
+    const total = missing
+    const queued = new Uint8Array(values.length)
+    for (const index of frontier) queued[index] = 1
+
+    while (frontier.length > 0 && missing > 0) {
+      // Compute the whole ring before writing so fill order does not bias the result
+      const filled = frontier.map(index => DemImporter.neighborAverage(values, width, height, index))
+      frontier.forEach((index, i) => { values[index] = filled[i] })
+      missing -= frontier.length
+
+      const next: number[] = []
+      for (const index of frontier) {
+        const x = index % width
+        const y = Math.floor(index / width)
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx
+            const ny = y + dy
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+            const neighbor = ny * width + nx
+            if (Number.isNaN(values[neighbor]) && !queued[neighbor]) {
+              queued[neighbor] = 1
+              next.push(neighbor)
+            }
+          }
+        }
+      }
+      frontier = next
+    }
+
+    return total - missing
+  }
+
+  private static hasKnownNeighbor(values: Float32Array, width: number, height: number, index: number): boolean {
+    return !Number.isNaN(DemImporter.neighborAverage(values, width, height, index))
+  }
+
+  private static neighborAverage(values: Float32Array, width: number, height: number, index: number): number {
+    const x = index % width
+    const y = Math.floor(index / width)
+    let sum = 0
+    let count = 0
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue
+        const nx = x + dx
+        const ny = y + dy
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+        const value = values[ny * width + nx]
+        if (!Number.isNaN(value)) {
+          sum += value
+          count++
+        }
+      }
+    }
+    return count > 0 ? sum / count : NaN
+  }
+
+  private static parseHgtLatitude(fileName: string): number | null {
+    const match = /([NS])(\d{1,2})[EW]\d{1,3}/i.exec(fileName)
+    if (!match) return null
+    const latitude = parseInt(match[2], 10)
+    return match[1].toUpperCase() === 'S' ? -latitude : latitude
+  }
+}
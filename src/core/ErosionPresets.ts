@@ -0,0 +1,331 @@
+import { ErosionConfig, AdvancedErosionConfig } from './ErosionSystem'
+
+/**
+ * Named erosion settings shared by the editor's erosion buttons and the batch generator.
+ * Droplet presets feed ErosionSystem.updateConfig(), geological presets the stream-power
+ * model through updateAdvancedConfig().
+ */
+export class ErosionPresets {
+  private static dropletPresets: Map<string, Partial<ErosionConfig>> = new Map([
+    [
+      'gentle',
+      {
+        rainStrength: 0.01,
+        erosionStrength: 0.1,
+        iterations: 50,
+        thermalRate: 0.05
+      }
+    ],
+    [
+      'strong',
+      {
+        rainStrength: 0.04,
+        erosionStrength: 0.6,
+        sedimentCapacity: 8.0,
+        iterations: 80,
+        thermalRate: 0.08,
+        dropletLifetime: 50
+      }
+    ],
+    [
+      'dramatic',
+      {
+        rainStrength: 0.06,
+        erosionStrength: 0.8,
+        sedimentCapacity: 12.0,
+        iterations: 100,
+        thermalRate: 0.06,
+        dropletLifetime: 60,
+        gravity: 6.0
+      }
+    ],
+    [
+      'moderate',
+      {
+        rainStrength: 0.02,
+        erosionStrength: 0.3,
+        iterations: 100,
+        thermalRate: 0.1
+      }
+    ],
+    [
+      'intense',
+      {
+        rainStrength: 0.04,
+        erosionStrength: 0.5,
+        iterations: 200,
+        thermalRate: 0.2
+      }
+    ],
+    [
+      'desert',
+      {
+        rainStrength: 0.005,
+        erosionStrength: 0.1,
+        thermalRate: 0.3,
+        angleOfRepose: 45,
+        iterations: 150
+      }
+    ],
+    [
+      'tropical',
+      {
+        rainStrength: 0.06,
+        erosionStrength: 0.4,
+        vegetationProtection: true,
+        riverbedErosion: 2.0,
+        iterations: 120
+      }
+    ]
+  ])
+
+  // Realistic geological preset erosions
+  private static geologicalPresets: Map<string, Partial<AdvancedErosionConfig>> = new Map([
+    [
+      'mountain',
+      {
+        streamPowerLaw: {
+          incisionConstant: 2e-6,
+          areaExponent: 0.5,
+          slopeExponent: 1.0,
+          criticalDrainage: 500
+        },
+        tectonics: {
+          upliftRate: 0.5, // active mountain building
+          upliftPattern: 'dome',
+          faultLines: []
+        },
+        climate: {
+          precipitation: 1500,
+          temperature: 5, // alpine climate
+          vegetationCover: 0.3,
+          seasonality: 0.3
+        },
+        advanced: {
+          enableMeandering: false, // mountains don't have large meandering rivers
+          enableMassWasting: true,
+          enableGlacialErosion: false,
+          enableChemicalWeathering: true,
+          enableKnickpointMigration: true,
+          timeStep: 50,
+          totalTime: 50000 // 50,000 years of evolution
+        }
+      }
+    ],
+    [
+      'river_system',
+      {
+        streamPowerLaw: {
+          incisionConstant: 1e-6,
+          areaExponent: 0.5,
+          slopeExponent: 1.0,
+          criticalDrainage: 1000
+        },
+        tectonics: {
+          upliftRate: 0.1, // slow, stable region
+          upliftPattern: 'uniform',
+          faultLines: []
+        },
+        climate: {
+          precipitation: 1200,
+          temperature: 15,
+          vegetationCover: 0.7,
+          seasonality: 0.2
+        },
+        advanced: {
+          enableMeandering: true,
+          enableMassWasting: false,
+          enableGlacialErosion: false,
+          enableChemicalWeathering: true,
+          enableKnickpointMigration: true,
+          timeStep: 100,
+          totalTime: 100000 // 100,000 years - longer for river development
+        }
+      }
+    ],
+    [
+      'desert',
+      {
+        streamPowerLaw: {
+          incisionConstant: 0.5e-6, // limited water erosion
+          areaExponent: 0.4,
+          slopeExponent: 1.2,
+          criticalDrainage: 2000 // larger drainage required for channels
+        },
+        diffusion: {
+          soilDiffusivity: 0.005, // limited soil
+          thermalDiffusivity: 0.002, // more thermal erosion
+          criticalSlope: 45 * Math.PI / 180 // steeper stable slopes
+        },
+        tectonics: {
+          upliftRate: 0.05, // very slow
+          upliftPattern: 'uniform',
+          faultLines: []
+        },
+        climate: {
+          precipitation: 200, // arid
+          temperature: 25,
+          vegetationCover: 0.1,
+          seasonality: 0.4 // high seasonality in desert
+        },
+        advanced: {
+          enableMeandering: false,
+          enableMassWasting: true,
+          enableGlacialErosion: false,
+          enableChemicalWeathering: false, // limited chemical weathering
+          enableKnickpointMigration: false,
+          timeStep: 200,
+          totalTime: 200000 // long-term arid evolution
+        }
+      }
+    ],
+    [
+      'coastal',
+      {
+        streamPowerLaw: {
+          incisionConstant: 3e-6, // strong marine erosion
+          areaExponent: 0.6,
+          slopeExponent: 0.8,
+          criticalDrainage: 200
+        },
+        tectonics: {
+          upliftRate: 0.2,
+          upliftPattern: 'ridge', // coastal range
+          faultLines: []
+        },
+        climate: {
+          precipitation: 2000, // wet maritime climate
+          temperature: 12,
+          vegetationCover: 0.8,
+          seasonality: 0.1 // low seasonality in maritime climate
+        },
+        advanced: {
+          enableMeandering: true,
+          enableMassWasting: true,
+          enableGlacialErosion: false,
+          enableChemicalWeathering: true,
+          enableKnickpointMigration: true,
+          timeStep: 75,
+          totalTime: 75000
+        }
+      }
+    ],
+    [
+      'glacial_valley',
+      {
+        streamPowerLaw: {
+          incisionConstant: 5e-6, // enhanced by glacial processes
+          areaExponent: 0.3, // glacial flow is different
+          slopeExponent: 1.5,
+          criticalDrainage: 100
+        },
+        diffusion: {
+          soilDiffusivity: 0.02, // freeze-thaw enhanced
+          thermalDiffusivity: 0.005,
+          criticalSlope: 25 * Math.PI / 180 // glacial oversteepening
+        },
+        tectonics: {
+          upliftRate: 0.3,
+          upliftPattern: 'ridge',
+          faultLines: []
+        },
+        climate: {
+          precipitation: 1000,
+          temperature: -2, // below freezing
+          vegetationCover: 0.1,
+          seasonality: 0.5 // high seasonal variation
+        },
+        advanced: {
+          enableMeandering: false,
+          enableMassWasting: true,
+          enableGlacialErosion: true,
+          enableChemicalWeathering: false, // limited in cold
+          enableKnickpointMigration: false,
+          timeStep: 100,
+          totalTime: 100000
+        }
+      }
+    ]
+  ])
+
+  public static getDropletPresetNames(): string[] {
+    return Array.from(this.dropletPresets.keys())
+  }
+
+  public static getGeologicalPresetNames(): string[] {
+    return Array.from(this.geologicalPresets.keys())
+  }
+
+  /**
+   * Copy of a droplet preset, so callers may adjust it freely
+   */
+  public static getDropletPreset(name: string): Partial<ErosionConfig> {
+    const preset = this.dropletPresets.get(name)
+    if (!preset) {
+      throw new Error(`Unknown erosion preset: ${name}`)
+    }
+    return structuredClone(preset)
+  }
+
+  /**
+   * Copy of a geological (stream-power) preset
+   */
+  public static getGeologicalPreset(name: string): Partial<AdvancedErosionConfig> {
+    const preset = this.geologicalPresets.get(name)
+    if (!preset) {
+      throw new Error(`Unknown geological erosion preset: ${name}`)
+    }
+    return structuredClone(preset)
+  }
+
+  /**
+   * Strengthen droplet settings the user left open on high resolution terrains, where the
+   * defaults barely leave a visible mark
+   */
+  public static adaptToResolution(userConfig: Partial<ErosionConfig> | undefined, resolution: number): Partial<ErosionConfig> | undefined {
+    if (!userConfig && resolution < 512) {
+      // No optimization needed for lower resolution
+      return userConfig
+    }
+
+    const optimized: Partial<ErosionConfig> = { ...userConfig }
+    
+    // For high resolution terrains, make erosion more aggressive to get satisfying visual results
+    if (resolution >= 1024) {
+      // Increase erosion strength for high resolution (more dramatic results)
+      if (!userConfig?.erosionStrength) {
+        optimized.erosionStrength = Math.max(0.5, (userConfig?.erosionStrength || 0.3) * 1.5)
+      }
+      
+      // Increase rain strength for more aggressive erosion
+      if (!userConfig?.rainStrength) {
+        optimized.rainStrength = Math.max(0.03, (userConfig?.rainStrength || 0.02) * 1.2)
+      }
+      
+      // Increase sediment capacity for more carving
+      if (!userConfig?.sedimentCapacity) {
+        optimized.sedimentCapacity = Math.max(6.0, (userConfig?.sedimentCapacity || 4.0) * 1.5)
+      }
+      
+      // Reduce thermal rate slightly to preserve carved features
+      if (!userConfig?.thermalRate) {
+        optimized.thermalRate = Math.max(0.05, (userConfig?.thermalRate || 0.1) * 0.8)
+      }
+      
+      console.log(`⚡ High resolution detected - using aggressive erosion settings for dramatic results`)
+    } else if (resolution >= 512) {
+      // Medium boost for 512x512
+      if (!userConfig?.erosionStrength) {
+        optimized.erosionStrength = Math.max(0.4, (userConfig?.erosionStrength || 0.3) * 1.3)
+      }
+      
+      if (!userConfig?.rainStrength) {
+        optimized.rainStrength = Math.max(0.025, (userConfig?.rainStrength || 0.02) * 1.1)
+      }
+      
+      console.log(`⚡ Medium resolution detected - using enhanced erosion settings`)
+    }
+
+    return optimized
+  }
+}
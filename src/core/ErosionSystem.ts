@@ -1,3 +1,7 @@
+import { CancellationToken } from './CancellationToken'
+
+export const DEFAULT_EROSION_SEED = 1337
+
 export interface ErosionConfig {
   // Hydraulic erosion
   rainStrength: number
@@ -17,6 +21,7 @@ export interface ErosionConfig {
   gridSize: number
   dropletLifetime: number
   dropletSpeed: number
+  seed: number // Seeds droplet spawning and cell properties; same seed + terrain = same result
   
   // Advanced features
   vegetationProtection: boolean
@@ -25,6 +30,8 @@ export interface ErosionConfig {
 }
 
 export interface AdvancedErosionConfig {
+  seed: number                  // seeds random uplift and meander directions
+  
   // Hydraulic erosion - based on real geomorphology
   streamPowerLaw: {
     incisionConstant: number    // K in stream power law
@@ -114,6 +121,17 @@ interface DrainageCell {
   meanderAge: number
 }
 
+export interface ErosionResults {
+  elevation: Float32Array
+  drainageArea: Float32Array
+  streamPower: Float32Array
+  sedimentThickness: Float32Array
+  vegetationCover: Float32Array
+  timeEvolved: number
+  riverNetwork: Array<Array<{x: number, y: number}>>
+  knickpoints: Array<{x: number, y: number, elevation: number}>
+}
+
 interface GeomorphologyState {
   elevation: Float32Array
   drainageArea: Float32Array
@@ -146,6 +164,11 @@ export class ErosionSystem {
   private knickpoints: Array<{x: number, y: number, elevation: number}>
   private riverNetwork: Array<Array<{x: number, y: number}>>
   
+  // Seeded PRNG for every stochastic step, reset at the start of each run
+  private random: () => number
+  // Tileable terrain: neighbours wrap around, the last row/column mirror the first
+  private tileable: boolean = false
+  
   constructor(config?: Partial<ErosionConfig>) {
     this.config = {
       rainStrength: 0.02,
@@ -161,6 +184,7 @@ export class ErosionSystem {
       gridSize: 256,
       dropletLifetime: 30,
       dropletSpeed: 1.0,
+      seed: DEFAULT_EROSION_SEED,
       vegetationProtection: false,
       riverbedErosion: 1.5,
       coastalErosion: false,
@@ -169,6 +193,7 @@ export class ErosionSystem {
 
     // Initialize advanced config
     this.advancedConfig = {
+      seed: DEFAULT_EROSION_SEED,
       streamPowerLaw: {
         incisionConstant: 1e-6,
         areaExponent: 0.5,
@@ -238,6 +263,7 @@ export class ErosionSystem {
     }
     
     this.flowAccumulation = new Float32Array(0)
+    this.random = ErosionSystem.seededRandom(this.config.seed)
   }
   
   public setHeightData(heightData: Float32Array, resolution: number, realWorldSize?: number): void {
@@ -266,6 +292,7 @@ export class ErosionSystem {
       console.log(`ErosionSystem: Resized height data to ${expectedSize} elements`)
     }
     
+    this.random = ErosionSystem.seededRandom(this.config.seed)
     this.terrain = new Array(expectedSize)
     this.gradientX = new Float32Array(expectedSize)
     this.gradientY = new Float32Array(expectedSize)
@@ -276,8 +303,8 @@ export class ErosionSystem {
         height: this.heightData[i] || 0, // Fallback to 0 if undefined
         water: 0,
         sediment: 0,
-        vegetation: this.config.vegetationProtection ? Math.random() * 0.5 : 0,
-        hardness: 0.5 + Math.random() * 0.5 // Varying rock hardness
+        vegetation: this.config.vegetationProtection ? this.random() * 0.5 : 0,
+        hardness: 0.5 + this.random() * 0.5 // Varying rock hardness
       }
     }
     
@@ -324,7 +351,14 @@ export class ErosionSystem {
     }
   }
   
-  public applyErosion(): Float32Array {
+  public applyErosion(cancellationToken?: CancellationToken): Float32Array {
+    return ErosionSystem.runSteps(this.erosionSteps(cancellationToken))
+  }
+
+  /**
+   * applyErosion one iteration at a time: yields after each, returns the eroded heights
+   */
+  public *erosionSteps(cancellationToken?: CancellationToken): Generator<void, Float32Array> {
     if (this.progressCallback) {
       this.progressCallback(0, `Starting erosion simulation on ${this.resolution}x${this.resolution} terrain...`)
     }
@@ -335,6 +369,7 @@ export class ErosionSystem {
     }
     
     for (let iter = 0; iter < this.config.iterations; iter++) {
+      cancellationToken?.throwIfCancelled()
       this.hydraulicErosionStep()
       this.thermalErosionStep()
       
@@ -346,8 +381,15 @@ export class ErosionSystem {
           this.progressCallback(progress, `Erosion iteration ${iter}/${this.config.iterations} (${Math.round(progress)}%)`)
         }
       }
+      
+      yield
     }
     
+    // Seams were never simulated; mirror the opposite edges
+    this.forEachSeamCell((seamIndex, sourceIndex) => {
+      this.terrain[seamIndex].height = this.terrain[sourceIndex].height
+    })
+    
     // Copy eroded heights back to height data
     for (let i = 0; i < this.terrain.length; i++) {
       this.heightData[i] = this.terrain[i].height
@@ -369,8 +411,8 @@ export class ErosionSystem {
     
     for (let d = 0; d < dropletsPerStep; d++) {
       const droplet: Droplet = {
-        x: Math.random() * (this.resolution - 1),
-        y: Math.random() * (this.resolution - 1),
+        x: this.random() * (this.resolution - 1),
+        y: this.random() * (this.resolution - 1),
         dx: 0,
         dy: 0,
         speed: this.config.dropletSpeed,
@@ -402,11 +444,15 @@ export class ErosionSystem {
       }
       
       // Move droplet
-      const newX = droplet.x + droplet.dx
-      const newY = droplet.y + droplet.dy
-      
-      // Check bounds
-      if (newX < 1 || newX >= this.resolution - 1 || newY < 1 || newY >= this.resolution - 1) {
+      let newX = droplet.x + droplet.dx
+      let newY = droplet.y + droplet.dy
+      
+      // Check bounds - droplets on tileable terrain flow across the edges instead
+      if (this.tileable) {
+        const period = this.resolution - 1
+        newX = ((newX % period) + period) % period
+        newY = ((newY % period) + period) % period
+      } else if (newX < 1 || newX >= this.resolution - 1 || newY < 1 || newY >= this.resolution - 1) {
         break
       }
       
@@ -455,8 +501,9 @@ export class ErosionSystem {
       tempHeights[i] = this.terrain[i].height
     }
     
-    for (let y = 1; y < this.resolution - 1; y++) {
-      for (let x = 1; x < this.resolution - 1; x++) {
+    const start = this.tileable ? 0 : 1
+    for (let y = start; y < this.resolution - 1; y++) {
+      for (let x = start; x < this.resolution - 1; x++) {
         const index = y * this.resolution + x
         const currentHeight = this.terrain[index].height
         
@@ -468,7 +515,7 @@ export class ErosionSystem {
           for (let dx = -1; dx <= 1; dx++) {
             if (dx === 0 && dy === 0) continue
             
-            const neighborIndex = (y + dy) * this.resolution + (x + dx)
+            const neighborIndex = this.neighbourIndex(x, y, dx, dy)
             const neighborHeight = this.terrain[neighborIndex].height
             const heightDiff = currentHeight - neighborHeight
             const distance = dx === 0 || dy === 0 ? 1 : Math.sqrt(2)
@@ -495,15 +542,16 @@ export class ErosionSystem {
   }
   
   private calculateGradients(): void {
-    for (let y = 1; y < this.resolution - 1; y++) {
-      for (let x = 1; x < this.resolution - 1; x++) {
+    const start = this.tileable ? 0 : 1
+    for (let y = start; y < this.resolution - 1; y++) {
+      for (let x = start; x < this.resolution - 1; x++) {
         const index = y * this.resolution + x
         
         // Sobel operator for gradient calculation
-        const heightLeft = this.terrain[y * this.resolution + (x - 1)].height
-        const heightRight = this.terrain[y * this.resolution + (x + 1)].height
-        const heightUp = this.terrain[(y - 1) * this.resolution + x].height
-        const heightDown = this.terrain[(y + 1) * this.resolution + x].height
+        const heightLeft = this.terrain[this.neighbourIndex(x, y, -1, 0)].height
+        const heightRight = this.terrain[this.neighbourIndex(x, y, 1, 0)].height
+        const heightUp = this.terrain[this.neighbourIndex(x, y, 0, -1)].height
+        const heightDown = this.terrain[this.neighbourIndex(x, y, 0, 1)].height
         
         this.gradientX[index] = (heightRight - heightLeft) * 0.5
         this.gradientY[index] = (heightDown - heightUp) * 0.5
@@ -511,18 +559,86 @@ export class ErosionSystem {
     }
   }
   
-  private sampleHeight(x: number, y: number): number {
+  /**
+   * Grid cells around a fractional position and the bilinear weights between them.
+   * Positions are clamped to the grid, or wrapped on tileable terrain.
+   */
+  private cellCorners(x: number, y: number): { x0: number; y0: number; x1: number; y1: number; fx: number; fy: number } {
+    if (this.tileable) {
+      const floorX = Math.floor(x)
+      const floorY = Math.floor(y)
+      return {
+        x0: this.wrap(floorX),
+        y0: this.wrap(floorY),
+        x1: this.wrap(floorX + 1),
+        y1: this.wrap(floorY + 1),
+        fx: x - floorX,
+        fy: y - floorY
+      }
+    }
+    
     // Clamp coordinates to valid range
     x = Math.max(0, Math.min(x, this.resolution - 1))
     y = Math.max(0, Math.min(y, this.resolution - 1))
     
     const x0 = Math.floor(x)
     const y0 = Math.floor(y)
-    const x1 = Math.min(x0 + 1, this.resolution - 1)
-    const y1 = Math.min(y0 + 1, this.resolution - 1)
+    return {
+      x0,
+      y0,
+      x1: Math.min(x0 + 1, this.resolution - 1),
+      y1: Math.min(y0 + 1, this.resolution - 1),
+      fx: x - x0,
+      fy: y - y0
+    }
+  }
+  
+  /**
+   * Tileable terrain repeats every resolution - 1 cells; wrap an index into [0, resolution - 1)
+   */
+  private wrap(index: number): number {
+    const period = this.resolution - 1
+    return ((index % period) + period) % period
+  }
+  
+  /**
+   * Index of the cell at (x + dx, y + dy), or -1 outside the grid. Tileable terrain wraps
+   * around; its last row and column repeat the first, so wrapped indices skip them.
+   */
+  private neighbourIndex(x: number, y: number, dx: number, dy: number): number {
+    if (this.tileable) {
+      return this.wrap(y + dy) * this.resolution + this.wrap(x + dx)
+    }
     
-    const fx = x - x0
-    const fy = y - y0
+    const nx = x + dx
+    const ny = y + dy
+    if (nx < 0 || nx >= this.resolution || ny < 0 || ny >= this.resolution) return -1
+    return ny * this.resolution + nx
+  }
+  
+  /**
+   * Whether a cell is a tileable seam copy (last row or column) rather than a simulated cell
+   */
+  private isSeamCell(index: number): boolean {
+    if (!this.tileable) return false
+    const last = this.resolution - 1
+    return index % this.resolution === last || Math.floor(index / this.resolution) === last
+  }
+  
+  /**
+   * Call back with each seam cell and the first-row/column cell it mirrors
+   */
+  private forEachSeamCell(callback: (seamIndex: number, sourceIndex: number) => void): void {
+    if (!this.tileable) return
+    const last = this.resolution - 1
+    for (let i = 0; i < this.resolution; i++) {
+      callback(i * this.resolution + last, this.wrap(i) * this.resolution)
+      callback(last * this.resolution + i, this.wrap(i))
+    }
+  }
+  
+  private sampleHeight(x: number, y: number): number {
+    const { x0, y0, x1, y1, fx, fy } = this.cellCorners(x, y)
     
     // Get indices with bounds checking
     const idx00 = y0 * this.resolution + x0
@@ -544,17 +660,7 @@ export class ErosionSystem {
   }
   
   private sampleGradient(x: number, y: number): { x: number, y: number } {
-    // Clamp coordinates to valid range
-    x = Math.max(0, Math.min(x, this.resolution - 1))
-    y = Math.max(0, Math.min(y, this.resolution - 1))
-    
-    const x0 = Math.floor(x)
-    const y0 = Math.floor(y)
-    const x1 = Math.min(x0 + 1, this.resolution - 1)
-    const y1 = Math.min(y0 + 1, this.resolution - 1)
-    
-    const fx = x - x0
-    const fy = y - y0
+    const { x0, y0, x1, y1, fx, fy } = this.cellCorners(x, y)
     
     // Get indices with bounds checking
     const idx00 = y0 * this.resolution + x0
@@ -582,17 +688,7 @@ export class ErosionSystem {
   private erodeTerrain(x: number, y: number, amount: number): void {
     if (amount <= 0) return
     
-    // Clamp coordinates to valid range
-    x = Math.max(0, Math.min(x, this.resolution - 1))
-    y = Math.max(0, Math.min(y, this.resolution - 1))
-    
-    const x0 = Math.floor(x)
-    const y0 = Math.floor(y)
-    const x1 = Math.min(x0 + 1, this.resolution - 1)
-    const y1 = Math.min(y0 + 1, this.resolution - 1)
-    
-    const fx = x - x0
-    const fy = y - y0
+    const { x0, y0, x1, y1, fx, fy } = this.cellCorners(x, y)
     
     // Distribute erosion across 4 nearest cells
     const weights = [
@@ -626,17 +722,7 @@ export class ErosionSystem {
   private depositSediment(x: number, y: number, amount: number): void {
     if (amount <= 0) return
     
-    // Clamp coordinates to valid range
-    x = Math.max(0, Math.min(x, this.resolution - 1))
-    y = Math.max(0, Math.min(y, this.resolution - 1))
-    
-    const x0 = Math.floor(x)
-    const y0 = Math.floor(y)
-    const x1 = Math.min(x0 + 1, this.resolution - 1)
-    const y1 = Math.min(y0 + 1, this.resolution - 1)
-    
-    const fx = x - x0
-    const fy = y - y0
+    const { x0, y0, x1, y1, fx, fy } = this.cellCorners(x, y)
     
     // Distribute deposition across 4 nearest cells
     const weights = [
@@ -661,6 +747,10 @@ export class ErosionSystem {
     }
   }
   
+  public setTileable(tileable: boolean): void {
+    this.tileable = tileable
+  }
+  
   public updateConfig(newConfig: Partial<ErosionConfig>): void {
     this.config = { ...this.config, ...newConfig }
   }
@@ -757,14 +847,24 @@ export class ErosionSystem {
     }
   }
 
-  public applyAdvancedErosion(): Float32Array {
+  public applyAdvancedErosion(cancellationToken?: CancellationToken): Float32Array {
+    return ErosionSystem.runSteps(this.advancedErosionSteps(cancellationToken))
+  }
+
+  /**
+   * applyAdvancedErosion one time step at a time: yields after each, returns the evolved elevation
+   */
+  public *advancedErosionSteps(cancellationToken?: CancellationToken): Generator<void, Float32Array> {
     if (this.progressCallback) {
       this.progressCallback(0, 'Starting advanced geomorphological simulation...')
     }
     
     const iterations = Math.floor(this.advancedConfig.advanced.totalTime / this.advancedConfig.advanced.timeStep)
+    this.random = ErosionSystem.seededRandom(this.advancedConfig.seed)
     
     for (let iter = 0; iter < iterations; iter++) {
+      cancellationToken?.throwIfCancelled()
+
       // Apply tectonic uplift first
       this.applyTectonicUplift()
       
@@ -801,6 +901,11 @@ export class ErosionSystem {
       // Sediment transport and deposition
       this.simulateSedimentTransport()
       
+      // Keep tileable seams identical to the edges they repeat
+      this.forEachSeamCell((seamIndex, sourceIndex) => {
+        this.state.elevation[seamIndex] = this.state.elevation[sourceIndex]
+      })
+      
       this.state.timeEvolved += this.advancedConfig.advanced.timeStep
       
       if (iter % 10 === 0) {
@@ -810,6 +915,8 @@ export class ErosionSystem {
           this.progressCallback(progress, `Geomorphological evolution: ${Math.round(progress)}% (${this.state.timeEvolved} years)`)
         }
       }
+      
+      yield
     }
     
     if (this.progressCallback) {
@@ -841,6 +948,7 @@ export class ErosionSystem {
     // Process cells from highest to lowest
     for (const cell of cellsWithElevation) {
       const idx = cell.index
+      if (this.isSeamCell(idx)) continue
       const y = Math.floor(idx / this.resolution)
       const x = idx % this.resolution
       
@@ -849,11 +957,9 @@ export class ErosionSystem {
       
       // Find steepest downhill direction
       for (let d = 0; d < dirs.length; d++) {
-        const nx = x + dirs[d][0]
-        const ny = y + dirs[d][1]
+        const nIdx = this.neighbourIndex(x, y, dirs[d][0], dirs[d][1])
         
-        if (nx >= 0 && nx < this.resolution && ny >= 0 && ny < this.resolution) {
-          const nIdx = ny * this.resolution + nx
+        if (nIdx >= 0) {
           const slope = (this.state.elevation[idx] - this.state.elevation[nIdx]) / 
                        (this.cellSize * Math.sqrt(dirs[d][0]*dirs[d][0] + dirs[d][1]*dirs[d][1]))
           
@@ -866,9 +972,7 @@ export class ErosionSystem {
       
       // Route flow to steepest neighbor
       if (steepestDir >= 0) {
-        const nx = x + dirs[steepestDir][0]
-        const ny = y + dirs[steepestDir][1]
-        const nIdx = ny * this.resolution + nx
+        const nIdx = this.neighbourIndex(x, y, dirs[steepestDir][0], dirs[steepestDir][1])
         
         this.flowAccumulation[nIdx] += this.flowAccumulation[idx]
         this.state.drainageArea[nIdx] += this.state.drainageArea[idx]
@@ -925,9 +1029,10 @@ export class ErosionSystem {
   
   private applyHillslopeDiffusion(): void {
     const newElevation = this.state.elevation.slice()
+    const start = this.tileable ? 0 : 1
     
-    for (let y = 1; y < this.resolution - 1; y++) {
-      for (let x = 1; x < this.resolution - 1; x++) {
+    for (let y = start; y < this.resolution - 1; y++) {
+      for (let x = start; x < this.resolution - 1; x++) {
         const idx = y * this.resolution + x
         const slope = this.calculateLocalSlope(idx)
         
@@ -950,10 +1055,10 @@ export class ErosionSystem {
         
         // Apply diffusion using finite difference
         const neighbors = [
-          this.state.elevation[idx - this.resolution], // up
-          this.state.elevation[idx + this.resolution], // down  
-          this.state.elevation[idx - 1],               // left
-          this.state.elevation[idx + 1]                // right
+          this.state.elevation[this.neighbourIndex(x, y, 0, -1)], // up
+          this.state.elevation[this.neighbourIndex(x, y, 0, 1)],  // down
+          this.state.elevation[this.neighbourIndex(x, y, -1, 0)], // left
+          this.state.elevation[this.neighbourIndex(x, y, 1, 0)]   // right
         ]
         
         const laplacian = neighbors.reduce((sum, h) => sum + h, 0) - 4 * this.state.elevation[idx]
@@ -1001,11 +1106,9 @@ export class ErosionSystem {
         
         // Find steepest downhill direction
         const flowDir = this.drainage[i].flowDirection
-        const targetX = x + flowDir.x
-        const targetY = y + flowDir.y
+        const targetIdx = this.neighbourIndex(x, y, flowDir.x, flowDir.y)
         
-        if (targetX >= 0 && targetX < this.resolution && targetY >= 0 && targetY < this.resolution) {
-          const targetIdx = targetY * this.resolution + targetX
+        if (targetIdx >= 0) {
           
           // Calculate landslide volume based on slope excess
           const slopeExcess = slope - criticalSlope
@@ -1046,7 +1149,7 @@ export class ErosionSystem {
           break
           
         case 'random':
-          uplift *= (0.5 + Math.random())
+          uplift *= (0.5 + this.random())
           break
       }
       
@@ -1098,15 +1201,13 @@ export class ErosionSystem {
         const x = i % this.resolution
         
         // Random walk for simplicity (real meandering follows complex hydrodynamics)
-        const lateralDir = Math.random() > 0.5 ? 1 : -1
+        const lateralDir = this.random() > 0.5 ? 1 : -1
         const perpX = -this.drainage[i].flowDirection.y * lateralDir
         const perpY = this.drainage[i].flowDirection.x * lateralDir
         
-        const targetX = x + perpX
-        const targetY = y + perpY
+        const targetIdx = this.neighbourIndex(x, y, perpX, perpY)
         
-        if (targetX >= 0 && targetX < this.resolution && targetY >= 0 && targetY < this.resolution) {
-          const targetIdx = targetY * this.resolution + targetX
+        if (targetIdx >= 0) {
           const erosionAmount = discharge * 1e-8 * this.advancedConfig.advanced.timeStep
           
           this.state.elevation[targetIdx] -= erosionAmount
@@ -1142,9 +1243,7 @@ export class ErosionSystem {
           ]
           
           if (flowDir >= 0 && flowDir < dirs.length) {
-            const targetX = x + dirs[flowDir][0]
-            const targetY = y + dirs[flowDir][1]
-            const targetIdx = targetY * this.resolution + targetX
+            const targetIdx = this.neighbourIndex(x, y, dirs[flowDir][0], dirs[flowDir][1])
             
             if (targetIdx === i) {
               this.state.elevation[j] -= migrationRate
@@ -1197,12 +1296,13 @@ export class ErosionSystem {
     const y = Math.floor(index / this.resolution)
     const x = index % this.resolution
     
-    if (x === 0 || x === this.resolution - 1 || y === 0 || y === this.resolution - 1) {
+    if (!this.tileable && (x === 0 || x === this.resolution - 1 || y === 0 || y === this.resolution - 1)) {
       return 0
     }
     
-    const dzdx = (this.state.elevation[index + 1] - this.state.elevation[index - 1]) / (2 * this.cellSize)
-    const dzdy = (this.state.elevation[index + this.resolution] - this.state.elevation[index - this.resolution]) / (2 * this.cellSize)
+    const elevation = this.state.elevation
+    const dzdx = (elevation[this.neighbourIndex(x, y, 1, 0)] - elevation[this.neighbourIndex(x, y, -1, 0)]) / (2 * this.cellSize)
+    const dzdy = (elevation[this.neighbourIndex(x, y, 0, 1)] - elevation[this.neighbourIndex(x, y, 0, -1)]) / (2 * this.cellSize)
     
     return Math.sqrt(dzdx * dzdx + dzdy * dzdy)
   }
@@ -1222,6 +1322,28 @@ export class ErosionSystem {
     return (value + 1) / 2 // normalize to [0,1]
   }
 
+  /**
+   * Linear congruential generator in [0, 1) - same constants as the noise system's permutation shuffle
+   */
+  private static seededRandom(seed: number): () => number {
+    let state = (Math.floor(seed) >>> 0)
+    return () => {
+      state = (state * 1664525 + 1013904223) % 4294967296
+      return state / 4294967296
+    }
+  }
+
+  /**
+   * Run erosion steps to completion without pausing
+   */
+  public static runSteps<T>(steps: Generator<void, T>): T {
+    let step = steps.next()
+    while (!step.done) {
+      step = steps.next()
+    }
+    return step.value
+  }
+
   // Advanced configuration methods
   public updateAdvancedConfig(newConfig: Partial<AdvancedErosionConfig>): void {
     this.advancedConfig = { ...this.advancedConfig, ...newConfig }
@@ -1231,7 +1353,7 @@ export class ErosionSystem {
     return { ...this.advancedConfig }
   }
   
-  public getErosionResults() {
+  public getErosionResults(): ErosionResults {
     return {
       elevation: this.state.elevation,
       drainageArea: this.state.drainageArea,
@@ -1243,6 +1365,20 @@ export class ErosionSystem {
       knickpoints: this.knickpoints
     }
   }
+
+  /**
+   * Restore simulation results, e.g. when loading a saved project
+   */
+  public setErosionResults(results: ErosionResults): void {
+    this.state.elevation = results.elevation
+    this.state.drainageArea = results.drainageArea
+    this.state.streamPower = results.streamPower
+    this.state.sedimentThickness = results.sedimentThickness
+    this.state.vegetationCover = results.vegetationCover
+    this.state.timeEvolved = results.timeEvolved
+    this.riverNetwork = results.riverNetwork
+    this.knickpoints = results.knickpoints
+  }
   
   // Specialized erosion patterns
   public simulateGlacialErosion(): void {
@@ -1283,12 +1419,10 @@ export class ErosionSystem {
         [-1,  1], [0,  1], [1,  1]
       ]
       
-      const nextX = x + dirs[flowDir][0]
-      const nextY = y + dirs[flowDir][1]
-      
-      if (nextX < 0 || nextX >= this.resolution || nextY < 0 || nextY >= this.resolution) break
+      const nextIndex = this.neighbourIndex(x, y, dirs[flowDir][0], dirs[flowDir][1])
+      if (nextIndex < 0) break
       
-      currentIndex = nextY * this.resolution + nextX
+      currentIndex = nextIndex
       
       if (path.length > 1000) break // prevent infinite loops
     }
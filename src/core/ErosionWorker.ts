@@ -0,0 +1,144 @@
+import { ErosionSystem, ErosionConfig, AdvancedErosionConfig, ErosionResults } from './ErosionSystem'
+import { CancellationToken } from './CancellationToken'
+
+export type ErosionModel = 'droplet' | 'streamPower'
+
+// Main-thread work between yields, about one frame
+const FRAME_BUDGET_MS = 16
+
+export interface ErosionWorkerMessage {
+  type: 'erode'
+  data: {
+    jobId: string
+    model: ErosionModel
+    heightData: Float32Array // transferred, the sender's copy becomes unusable
+    resolution: number
+    worldSize: number // meters, used by the stream-power model
+    tileable?: boolean // wrap neighbours across the edges of tileable terrain
+    config?: Partial<ErosionConfig>
+    advancedConfig?: Partial<AdvancedErosionConfig>
+  }
+}
+
+export interface ErosionWorkerResponse {
+  type: 'progress' | 'complete' | 'error'
+  data: {
+    jobId: string
+    progress?: number // 0-100
+    description?: string
+    heightData?: Float32Array
+    erosionResults?: ErosionResults // stream-power model only
+    error?: string
+  }
+}
+
+/**
+ * Run one erosion job to completion; used by the worker and synchronous callers
+ */
+export function runErosionJob(
+  message: ErosionWorkerMessage,
+  onProgress?: (progress: number, description: string) => void,
+  cancellationToken?: CancellationToken
+): ErosionWorkerResponse {
+  return ErosionSystem.runSteps(erosionJobSteps(message, onProgress, cancellationToken))
+}
+
+/**
+ * Run one erosion job on the main thread, awaiting `yieldControl` between iterations once
+ * a frame's worth of work is done, so the page repaints and a cancel can take effect
+ */
+export async function runErosionJobYielding(
+  message: ErosionWorkerMessage,
+  yieldControl: () => Promise<void>,
+  onProgress?: (progress: number, description: string) => void,
+  cancellationToken?: CancellationToken
+): Promise<ErosionWorkerResponse> {
+  const steps = erosionJobSteps(message, onProgress, cancellationToken)
+  let lastYield = performance.now()
+  let step = steps.next()
+  while (!step.done) {
+    if (performance.now() - lastYield > FRAME_BUDGET_MS) {
+      await yieldControl()
+      lastYield = performance.now()
+    }
+    step = steps.next()
+  }
+  return step.value
+}
+
+function* erosionJobSteps(
+  message: ErosionWorkerMessage,
+  onProgress?: (progress: number, description: string) => void,
+  cancellationToken?: CancellationToken
+): Generator<void, ErosionWorkerResponse> {
+  const { jobId, model, heightData, resolution, worldSize, tileable, config, advancedConfig } = message.data
+  const erosionSystem = new ErosionSystem(config)
+  erosionSystem.setTileable(!!tileable)
+
+  if (advancedConfig) {
+    erosionSystem.updateAdvancedConfig(advancedConfig)
+  }
+  if (onProgress) {
+    erosionSystem.setProgressCallback(onProgress)
+  }
+
+  if (model === 'streamPower') {
+    erosionSystem.setHeightData(heightData, resolution, worldSize)
+    const erodedHeightData = yield* erosionSystem.advancedErosionSteps(cancellationToken)
+    return {
+      type: 'complete',
+      data: { jobId, heightData: erodedHeightData, erosionResults: erosionSystem.getErosionResults() }
+    }
+  }
+
+  erosionSystem.setHeightData(heightData, resolution)
+  return {
+    type: 'complete',
+    data: { jobId, heightData: yield* erosionSystem.erosionSteps(cancellationToken) }
+  }
+}
+
+/**
+ * Buffers of a response that can be transferred instead of copied
+ */
+export function getErosionTransferables(response: ErosionWorkerResponse): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>()
+  const { heightData, erosionResults } = response.data
+
+  if (heightData) buffers.add(heightData.buffer as ArrayBuffer)
+  if (erosionResults) {
+    for (const raster of [
+      erosionResults.elevation,
+      erosionResults.drainageArea,
+      erosionResults.streamPower,
+      erosionResults.sedimentThickness,
+      erosionResults.vegetationCover
+    ]) {
+      buffers.add(raster.buffer as ArrayBuffer)
+    }
+  }
+
+  return Array.from(buffers)
+}
+
+// Only install the message handler when running as a worker
+if (typeof window === 'undefined' && typeof self !== 'undefined') {
+  self.onmessage = (event: MessageEvent<ErosionWorkerMessage>) => {
+    const { jobId } = event.data.data
+
+    try {
+      const response = runErosionJob(event.data, (progress, description) => {
+        self.postMessage({ type: 'progress', data: { jobId, progress, description } } as ErosionWorkerResponse)
+      })
+      self.postMessage(response, { transfer: getErosionTransferables(response) })
+    } catch (error) {
+      self.postMessage({
+        type: 'error',
+        data: {
+          jobId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      } as ErosionWorkerResponse)
+    }
+  }
+}
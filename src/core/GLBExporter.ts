@@ -0,0 +1,267 @@
+/**
+ * Binary glTF 2.0 (.glb) export of the terrain mesh
+ *
+ * Works from height data alone (no renderer or DOM), so it can run headless.
+ * Each tile becomes its own mesh and node under a root 'Terrain' node; tile
+ * nodes are translated to their center so engines can cull them individually.
+ */
+
+import { HeightfieldMesh, HeightfieldMeshOptions, HeightfieldMeshTile } from './HeightfieldMesh'
+
+export interface GLBExportOptions extends HeightfieldMeshOptions {
+  // Include COLOR_0 with the height-based terrain colors
+  vertexColors?: boolean
+}
+
+export interface GLBExportResult {
+  data: Uint8Array
+  triangleCount: number
+  tileCount: number
+}
+
+const GLB_MAGIC = 0x46546c67 // 'glTF'
+const GLB_VERSION = 2
+const CHUNK_JSON = 0x4e4f534a // 'JSON'
+const CHUNK_BIN = 0x004e4942 // 'BIN\0'
+
+const ARRAY_BUFFER = 34962
+const ELEMENT_ARRAY_BUFFER = 34963
+const FLOAT = 5126
+const UNSIGNED_SHORT = 5123
+const UNSIGNED_INT = 5125
+
+// The subset of the glTF 2.0 schema this exporter writes
+
+interface GltfNode {
+  name: string
+  mesh?: number
+  children?: number[]
+  translation?: [number, number, number]
+  extras?: Record<string, unknown>
+}
+
+interface GltfAccessor {
+  bufferView: number
+  componentType: number
+  count: number
+  type: 'SCALAR' | 'VEC2' | 'VEC3'
+  min?: number[] // required for POSITION
+  max?: number[]
+}
+
+interface GltfMesh {
+  name: string
+  primitives: Array<{ attributes: Record<string, number>; indices: number; material: number }>
+}
+
+interface GltfDocument {
+  asset: { version: string; generator: string }
+  scene?: number
+  scenes?: Array<{ name: string; nodes: number[] }>
+  buffers: Array<{ byteLength: number }>
+  bufferViews: Array<{ buffer: number; byteOffset: number; byteLength: number; target: number }>
+  accessors: GltfAccessor[]
+  materials: Array<{
+    name: string
+    pbrMetallicRoughness: { baseColorFactor: number[]; metallicFactor: number; roughnessFactor: number }
+  }>
+  meshes: GltfMesh[]
+  nodes: GltfNode[]
+}
+
+export class GLBExporter {
+  /**
+   * Build a GLB file from a square height grid (worldSize in meters)
+   */
+  public static export(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    options: GLBExportOptions = {}
+  ): GLBExportResult {
+    const mesh = HeightfieldMesh.build(heightData, resolution, worldSize, options)
+    const writer = new GLBWriter()
+    const includeColors = options.vertexColors ?? true
+
+    const material = writer.addMaterial()
+    const tileNodes = mesh.tiles.map(tile => writer.addTile(tile, material, includeColors))
+    const root = writer.addNode({ name: 'Terrain', children: tileNodes })
+    writer.json.scenes = [{ name: 'Scene', nodes: [root] }]
+    writer.json.scene = 0
+
+    return {
+      data: writer.finish(),
+      triangleCount: mesh.triangleCount,
+      tileCount: mesh.tiles.length
+    }
+  }
+}
+
+/**
+ * Accumulates glTF JSON and the single binary buffer
+ */
+class GLBWriter {
+  public json: GltfDocument = {
+    asset: { version: '2.0', generator: 'Weltenbauer' },
+    buffers: [],
+    bufferViews: [],
+    accessors: [],
+    materials: [],
+    meshes: [],
+    nodes: []
+  }
+
+  private chunks: Uint8Array[] = []
+  private byteLength = 0
+
+  public addMaterial(): number {
+    this.json.materials.push({
+      name: 'Terrain',
+      pbrMetallicRoughness: { baseColorFactor: [1, 1, 1, 1], metallicFactor: 0, roughnessFactor: 1 }
+    })
+    return this.json.materials.length - 1
+  }
+
+  public addNode(node: GltfNode): number {
+    this.json.nodes.push(node)
+    return this.json.nodes.length - 1
+  }
+
+  public addTile(tile: HeightfieldMeshTile, material: number, includeColors: boolean): number {
+    // Positions relative to the tile center keep float precision on large terrains
+    const center = GLBWriter.tileCenter(tile.positions)
+    const positions = new Float32Array(tile.positions.length)
+    for (let i = 0; i < positions.length; i += 3) {
+      positions[i] = tile.positions[i] - center[0]
+      positions[i + 1] = tile.positions[i + 1]
+      positions[i + 2] = tile.positions[i + 2] - center[2]
+    }
+
+    const attributes: Record<string, number> = {
+      POSITION: this.addAccessor(positions, 'VEC3', ARRAY_BUFFER, true),
+      NORMAL: this.addAccessor(tile.normals, 'VEC3', ARRAY_BUFFER),
+      TEXCOORD_0: this.addAccessor(tile.uvs, 'VEC2', ARRAY_BUFFER)
+    }
+    if (includeColors) {
+      attributes.COLOR_0 = this.addAccessor(tile.colors, 'VEC3', ARRAY_BUFFER)
+    }
+
+    const indices = tile.vertexCount <= 65536 ? Uint16Array.from(tile.indices) : tile.indices
+    this.json.meshes.push({
+      name: tile.name,
+      primitives: [{ attributes, indices: this.addAccessor(indices, 'SCALAR', ELEMENT_ARRAY_BUFFER), material }]
+    })
+
+    return this.addNode({
+      name: tile.name,
+      mesh: this.json.meshes.length - 1,
+      translation: [center[0], 0, center[2]],
+      extras: { tileX: tile.tileX, tileZ: tile.tileZ }
+    })
+  }
+
+  public finish(): Uint8Array {
+    this.json.buffers.push({ byteLength: this.byteLength })
+
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(this.json))
+    const jsonLength = align4(jsonBytes.length)
+    const binLength = this.byteLength
+    const totalLength = 12 + 8 + jsonLength + 8 + binLength
+
+    const output = new Uint8Array(totalLength)
+    const view = new DataView(output.buffer)
+    view.setUint32(0, GLB_MAGIC, true)
+    view.setUint32(4, GLB_VERSION, true)
+    view.setUint32(8, totalLength, true)
+
+    // JSON chunk, padded with spaces
+    view.setUint32(12, jsonLength, true)
+    view.setUint32(16, CHUNK_JSON, true)
+    output.set(jsonBytes, 20)
+    output.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength)
+
+    // Binary chunk, padded with zeros (views are already 4-byte aligned)
+    let offset = 20 + jsonLength
+    view.setUint32(offset, binLength, true)
+    view.setUint32(offset + 4, CHUNK_BIN, true)
+    offset += 8
+    for (const chunk of this.chunks) {
+      output.set(chunk, offset)
+      offset += chunk.length
+    }
+
+    return output
+  }
+
+  private addAccessor(
+    values: Float32Array | Uint16Array | Uint32Array,
+    type: 'SCALAR' | 'VEC2' | 'VEC3',
+    target: number,
+    withBounds: boolean = false
+  ): number {
+    const bytes = toLittleEndianBytes(values)
+    this.json.bufferViews.push({ buffer: 0, byteOffset: this.byteLength, byteLength: bytes.length, target })
+    this.chunks.push(bytes)
+    this.byteLength += bytes.length
+
+    const padding = align4(bytes.length) - bytes.length
+    if (padding > 0) {
+      this.chunks.push(new Uint8Array(padding))
+      this.byteLength += padding
+    }
+
+    const components = type === 'SCALAR' ? 1 : type === 'VEC2' ? 2 : 3
+    const accessor: GltfAccessor = {
+      bufferView: this.json.bufferViews.length - 1,
+      componentType: values instanceof Float32Array ? FLOAT : values instanceof Uint16Array ? UNSIGNED_SHORT : UNSIGNED_INT,
+      count: values.length / components,
+      type
+    }
+    if (withBounds) {
+      const { min, max } = componentBounds(values, components)
+      accessor.min = min
+      accessor.max = max
+    }
+
+    this.json.accessors.push(accessor)
+    return this.json.accessors.length - 1
+  }
+
+  private static tileCenter(positions: Float32Array): [number, number, number] {
+    const { min, max } = componentBounds(positions, 3)
+    return [(min[0] + max[0]) * 0.5, 0, (min[2] + max[2]) * 0.5]
+  }
+}
+
+const isLittleEndianHost = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+function align4(length: number): number {
+  return (length + 3) & ~3
+}
+
+function componentBounds(values: ArrayLike<number>, components: number): { min: number[]; max: number[] } {
+  const min = new Array(components).fill(Infinity)
+  const max = new Array(components).fill(-Infinity)
+  for (let i = 0; i < values.length; i += components) {
+    for (let c = 0; c < components; c++) {
+      const value = values[i + c]
+      if (value < min[c]) min[c] = value
+      if (value > max[c]) max[c] = value
+    }
+  }
+  return { min, max }
+}
+
+function toLittleEndianBytes(values: Float32Array | Uint16Array | Uint32Array): Uint8Array {
+  if (isLittleEndianHost) {
+    return new Uint8Array(values.buffer, values.byteOffset, values.byteLength)
+  }
+  const bytes = new Uint8Array(values.byteLength)
+  const view = new DataView(bytes.buffer)
+  for (let i = 0; i < values.length; i++) {
+    if (values instanceof Float32Array) view.setFloat32(i * 4, values[i], true)
+    else if (values instanceof Uint16Array) view.setUint16(i * 2, values[i], true)
+    else view.setUint32(i * 4, values[i], true)
+  }
+  return bytes
+}
@@ -0,0 +1,282 @@
+/**
+ * Brush kernels on raw height arrays, without three.js or the DOM
+ *
+ * The interactive BrushSystem raycasts the mouse onto the terrain and hands the sample it
+ * hit to HeightBrush.apply(); headless code calls it directly with grid coordinates.
+ */
+
+import { HeightRegion } from './TerrainHistory'
+
+export type BrushMode = 'raise' | 'lower' | 'smooth' | 'flatten' | 'mountain'
+
+export interface MountainPreset {
+  name: string
+  size: number
+  strength: number
+  octaves: number
+  persistence: number
+  frequency: number
+  ridgeSharpness: number
+  type: 'alpine' | 'desert'
+}
+
+export interface BrushSettings {
+  size: number
+  strength: number
+  mode: BrushMode
+  mountainPreset?: MountainPreset
+}
+
+// Mountain presets for different mountain types
+export const MOUNTAIN_PRESETS: { [key: string]: MountainPreset } = {
+  alaskan: {
+    name: 'Alaskan/Everest',
+    size: 250,
+    strength: 0.8,
+    octaves: 8,
+    persistence: 0.6,
+    frequency: 0.004,
+    ridgeSharpness: 2.4,
+    type: 'alpine'
+  },
+  desert: {
+    name: 'Nevada/New Mexico',
+    size: 200,
+    strength: 0.6,
+    octaves: 6,
+    persistence: 0.5,
+    frequency: 0.006,
+    ridgeSharpness: 1.8,
+    type: 'desert'
+  }
+}
+
+// Heightmap a brush edits in place
+export interface HeightBrushTarget {
+  heightData: Float32Array
+  resolution: number
+  worldSize: number // meters, brush sizes are in meters too
+  tileable?: boolean // strokes wrap around, the last row/column mirror the first
+}
+
+export class HeightBrush {
+  /**
+   * Apply one dab centred on grid sample (centerX, centerZ). Flatten pulls heights towards
+   * `flattenHeight`. Returns the modified region, null when the dab missed the grid.
+   */
+  public static apply(
+    target: HeightBrushTarget,
+    centerX: number,
+    centerZ: number,
+    settings: BrushSettings,
+    flattenHeight: number = 0
+  ): HeightRegion | null {
+    const { heightData, resolution, worldSize } = target
+    const tileable = !!target.tileable
+
+    const brushRadius = (settings.size / worldSize) * resolution
+    const baseStrength = settings.strength * 1.5 // Base strength multiplier
+
+    // On tileable terrain a footprint touching an edge continues on the opposite side
+    const radius = Math.ceil(brushRadius)
+    const wrapsX = tileable && (centerX - radius <= 0 || centerX + radius >= resolution - 1)
+    const wrapsZ = tileable && (centerZ - radius <= 0 || centerZ + radius >= resolution - 1)
+
+    const minX = wrapsX ? 0 : Math.max(0, centerX - radius)
+    const maxX = wrapsX ? resolution - 1 : Math.min(resolution - 1, centerX + radius)
+    const minZ = wrapsZ ? 0 : Math.max(0, centerZ - radius)
+    const maxZ = wrapsZ ? resolution - 1 : Math.min(resolution - 1, centerZ + radius)
+
+    if (minX > maxX || minZ > maxZ) return null
+
+    const fromX = wrapsX ? centerX - radius : minX
+    const toX = wrapsX ? centerX + radius : maxX
+    const fromZ = wrapsZ ? centerZ - radius : minZ
+    const toZ = wrapsZ ? centerZ + radius : maxZ
+
+    for (let footprintZ = fromZ; footprintZ <= toZ; footprintZ++) {
+      for (let footprintX = fromX; footprintX <= toX; footprintX++) {
+
+        const distance = Math.sqrt((footprintX - centerX) ** 2 + (footprintZ - centerZ) ** 2)
+        if (distance > brushRadius) continue
+
+        const x = HeightBrush.wrapIndex(footprintX, target)
+        const z = HeightBrush.wrapIndex(footprintZ, target)
+
+        // Improved falloff with smoother curve
+        const normalizedDistance = distance / brushRadius
+        const falloff = Math.pow(1 - normalizedDistance, 2.2) // Smooth, more natural falloff
+        const effectiveStrength = baseStrength * falloff
+
+        const index = z * resolution + x
+        const currentHeight = heightData[index]
+
+        switch (settings.mode) {
+          case 'raise':
+            heightData[index] = currentHeight + effectiveStrength
+            break
+
+          case 'lower':
+            heightData[index] = currentHeight - effectiveStrength
+            break
+
+          case 'smooth':
+            const smoothedHeight = HeightBrush.smoothedHeight(target, x, z)
+            heightData[index] = HeightBrush.lerp(currentHeight, smoothedHeight, effectiveStrength * 0.3)
+            break
+
+          case 'flatten':
+            // Move towards the flatten height with improved interpolation
+            const heightDiff = flattenHeight - currentHeight
+            heightData[index] = currentHeight + heightDiff * effectiveStrength * 0.4
+            break
+
+          case 'mountain':
+            if (settings.mountainPreset) {
+              const mountainHeight = HeightBrush.mountainHeight(settings.mountainPreset, x, z, resolution, distance, brushRadius)
+              // Gentle mountain building with proper scaling
+              if (mountainHeight > 0.1) { // Only apply if meaningful height
+                const blendFactor = effectiveStrength * 0.4 // Reduced blend factor
+                const newHeight = currentHeight + mountainHeight * blendFactor
+                // Smooth blending - allow small decreases for natural terrain flow
+                const heightDifference = newHeight - currentHeight
+                if (heightDifference > -2) { // Prevent major lowering, allow minor adjustments
+                  heightData[index] = newHeight
+                } else {
+                  heightData[index] = currentHeight // Keep original if too much lowering
+                }
+              }
+            }
+            break
+        }
+
+        // Clamp height values to reasonable bounds - greatly increased range
+        heightData[index] = Math.max(-2000, Math.min(5000, heightData[index]))
+
+        if (tileable) {
+          HeightBrush.mirrorSeam(target, x, z)
+        }
+      }
+    }
+
+    return { minX, maxX, minZ, maxZ }
+  }
+
+  /**
+   * Grid sample under a world position (meters, terrain centred on the origin)
+   */
+  public static worldToGrid(target: HeightBrushTarget, worldX: number, worldZ: number): { x: number; z: number } {
+    const halfSize = target.worldSize / 2
+    return {
+      x: Math.floor(((worldX + halfSize) / target.worldSize) * target.resolution),
+      z: Math.floor(((worldZ + halfSize) / target.worldSize) * target.resolution)
+    }
+  }
+
+  /**
+   * Height at a grid sample clamped to the grid, the target height of a flatten stroke started there
+   */
+  public static heightAt(target: HeightBrushTarget, x: number, z: number): number {
+    const clampedX = Math.max(0, Math.min(target.resolution - 1, x))
+    const clampedZ = Math.max(0, Math.min(target.resolution - 1, z))
+    return target.heightData[clampedZ * target.resolution + clampedX]
+  }
+
+  /**
+   * Tileable terrain repeats every resolution - 1 samples; wrap an index into [0, resolution - 1)
+   */
+  private static wrapIndex(index: number, target: HeightBrushTarget): number {
+    if (!target.tileable) return index
+    const period = target.resolution - 1
+    return ((index % period) + period) % period
+  }
+
+  /**
+   * Copy an edited first-row/column sample onto the matching last row/column
+   */
+  private static mirrorSeam(target: HeightBrushTarget, x: number, z: number): void {
+    if (x !== 0 && z !== 0) return
+
+    const { heightData, resolution } = target
+    const last = resolution - 1
+    const value = heightData[z * resolution + x]
+    if (x === 0) heightData[z * resolution + last] = value
+    if (z === 0) heightData[last * resolution + x] = value
+    if (x === 0 && z === 0) heightData[last * resolution + last] = value
+  }
+
+  private static mountainHeight(
+    preset: MountainPreset,
+    x: number,
+    z: number,
+    resolution: number,
+    distance: number,
+    brushRadius: number
+  ): number {
+    const normalizedDistance = distance / brushRadius
+
+    // Convert to world coordinates for consistent noise
+    const worldX = (x / resolution) * 2.0 - 1.0
+    const worldZ = (z / resolution) * 2.0 - 1.0
+
+    // Base mountain height using multiple noise layers
+    let mountainHeight = 0
+    let amplitude = preset.strength * 60
+    let frequency = preset.frequency
+
+    for (let i = 0; i < preset.octaves; i++) {
+      // Use proper sine/cosine noise for mountain generation
+      const nx = worldX * frequency * 10
+      const nz = worldZ * frequency * 10
+
+      let noise = 0
+      if (preset.type === 'alpine') {
+        // Sharp alpine ridges
+        const ridge1 = Math.abs(Math.sin(nx) * Math.cos(nz * 0.7))
+        const ridge2 = Math.abs(Math.cos(nx * 1.3) * Math.sin(nz * 1.1))
+        noise = Math.pow(1.0 - (ridge1 + ridge2) * 0.5, preset.ridgeSharpness)
+      } else {
+        // Desert mesa formations
+        const base = Math.sin(nx) * Math.cos(nz) + Math.cos(nx * 0.7) * Math.sin(nz * 1.2)
+        noise = Math.abs(base)
+      }
+
+      mountainHeight += noise * amplitude
+      amplitude *= preset.persistence
+      frequency *= 2.0
+    }
+
+    // Apply smooth distance falloff
+    const falloff = Math.pow(1.0 - Math.min(1.0, normalizedDistance), 2.0)
+
+    return mountainHeight * falloff
+  }
+
+  private static smoothedHeight(target: HeightBrushTarget, x: number, z: number): number {
+    const { heightData, resolution } = target
+    let totalHeight = 0
+    let totalWeight = 0
+
+    // Sample a 5x5 neighborhood with gaussian-like weighting
+    for (let dz = -2; dz <= 2; dz++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        const nx = HeightBrush.wrapIndex(x + dx, target)
+        const nz = HeightBrush.wrapIndex(z + dz, target)
+
+        if (nx >= 0 && nx < resolution && nz >= 0 && nz < resolution) {
+          const distance = Math.sqrt(dx * dx + dz * dz)
+          const weight = Math.exp(-distance * distance * 0.3) // Gaussian-like weight
+
+          totalHeight += heightData[nz * resolution + nx] * weight
+          totalWeight += weight
+        }
+      }
+    }
+
+    return totalWeight > 0 ? totalHeight / totalWeight : heightData[z * resolution + x]
+  }
+
+  private static lerp(a: number, b: number, t: number): number {
+    return a + (b - a) * Math.max(0, Math.min(1, t))
+  }
+}
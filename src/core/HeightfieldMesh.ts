@@ -0,0 +1,187 @@
+/**
+ * Triangle mesh generation from a square height grid, independent of three.js
+ *
+ * Vertices use the scene layout: x and z centered on the origin with row 0 at
+ * -z, y is the height in meters. Decimation keeps a regular grid (every n-th
+ * sample plus the last row/column) so tiles still line up edge to edge.
+ */
+
+import { calculateTerrainColors } from './TerrainColors'
+
+export interface HeightfieldMeshOptions {
+  // Upper bound for the triangle count of the whole terrain, full resolution when omitted
+  targetTriangles?: number
+  // Split into tiles × tiles pieces that share their edge vertices
+  tiles?: number
+}
+
+export interface HeightfieldMeshTile {
+  name: string
+  tileX: number
+  tileZ: number
+  vertexCount: number
+  positions: Float32Array // xyz, world space
+  normals: Float32Array // xyz
+  uvs: Float32Array // uv over the whole terrain, v = 0 at row 0
+  colors: Float32Array // rgb
+  indices: Uint32Array // counter-clockwise seen from +y
+}
+
+export interface HeightfieldMeshResult {
+  tiles: HeightfieldMeshTile[]
+  step: number
+  triangleCount: number
+}
+
+export class HeightfieldMesh {
+  /**
+   * Build the mesh (optionally decimated and tiled) from height data alone
+   */
+  public static build(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    options: HeightfieldMeshOptions = {}
+  ): HeightfieldMeshResult {
+    if (heightData.length !== resolution * resolution) {
+      throw new Error(`Height data size mismatch. Expected ${resolution * resolution}, got ${heightData.length}`)
+    }
+
+    const step = HeightfieldMesh.decimationStep(resolution, options.targetTriangles)
+    const samples = HeightfieldMesh.sampleIndices(resolution, step)
+    const cells = samples.length - 1
+    const tileCount = Math.max(1, Math.min(cells, Math.floor(options.tiles ?? 1)))
+
+    let minHeight = Infinity
+    let maxHeight = -Infinity
+    for (let i = 0; i < heightData.length; i++) {
+      if (heightData[i] < minHeight) minHeight = heightData[i]
+      if (heightData[i] > maxHeight) maxHeight = heightData[i]
+    }
+
+    const tiles: HeightfieldMeshTile[] = []
+    let triangleCount = 0
+
+    for (let tileZ = 0; tileZ < tileCount; tileZ++) {
+      for (let tileX = 0; tileX < tileCount; tileX++) {
+        const xs = samples.slice(Math.floor(tileX * cells / tileCount), Math.floor((tileX + 1) * cells / tileCount) + 1)
+        const zs = samples.slice(Math.floor(tileZ * cells / tileCount), Math.floor((tileZ + 1) * cells / tileCount) + 1)
+        const tile = HeightfieldMesh.buildTile(heightData, resolution, worldSize, xs, zs, step, minHeight, maxHeight)
+        tile.name = tileCount > 1 ? `tile_${tileX}_${tileZ}` : 'terrain'
+        tile.tileX = tileX
+        tile.tileZ = tileZ
+        triangleCount += tile.indices.length / 3
+        tiles.push(tile)
+      }
+    }
+
+    return { tiles, step, triangleCount }
+  }
+
+  /**
+   * Smallest sample step whose regular grid stays within the triangle budget
+   */
+  public static decimationStep(resolution: number, targetTriangles?: number): number {
+    if (!targetTriangles || targetTriangles <= 0) return 1
+
+    let step = 1
+    while (step < resolution - 1) {
+      const cells = Math.ceil((resolution - 1) / step)
+      if (cells * cells * 2 <= targetTriangles) break
+      step++
+    }
+    return step
+  }
+
+  /**
+   * Grid indices kept for a step, always including the last row/column
+   */
+  public static sampleIndices(resolution: number, step: number): number[] {
+    const indices: number[] = []
+    for (let i = 0; i < resolution - 1; i += step) {
+      indices.push(i)
+    }
+    indices.push(resolution - 1)
+    return indices
+  }
+
+  private static buildTile(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    xs: number[],
+    zs: number[],
+    step: number,
+    minHeight: number,
+    maxHeight: number
+  ): HeightfieldMeshTile {
+    const columns = xs.length
+    const rows = zs.length
+    const vertexCount = columns * rows
+    const cellSize = worldSize / (resolution - 1)
+    const halfSize = worldSize * 0.5
+
+    const positions = new Float32Array(vertexCount * 3)
+    const normals = new Float32Array(vertexCount * 3)
+    const uvs = new Float32Array(vertexCount * 2)
+    const heights = new Float32Array(vertexCount)
+
+    for (let row = 0; row < rows; row++) {
+      const z = zs[row]
+      for (let column = 0; column < columns; column++) {
+        const x = xs[column]
+        const vertex = row * columns + column
+        const height = heightData[z * resolution + x]
+        heights[vertex] = height
+
+        positions[vertex * 3] = -halfSize + x * cellSize
+        positions[vertex * 3 + 1] = height
+        positions[vertex * 3 + 2] = -halfSize + z * cellSize
+
+        uvs[vertex * 2] = x / (resolution - 1)
+        uvs[vertex * 2 + 1] = z / (resolution - 1)
+
+        // Central differences over the decimated spacing, so coarse meshes shade smoothly
+        const x0 = Math.max(0, x - step)
+        const x1 = Math.min(resolution - 1, x + step)
+        const z0 = Math.max(0, z - step)
+        const z1 = Math.min(resolution - 1, z + step)
+        const dx = (heightData[z * resolution + x1] - heightData[z * resolution + x0]) / ((x1 - x0) * cellSize)
+        const dz = (heightData[z1 * resolution + x] - heightData[z0 * resolution + x]) / ((z1 - z0) * cellSize)
+        const length = Math.sqrt(dx * dx + 1 + dz * dz)
+        normals[vertex * 3] = -dx / length
+        normals[vertex * 3 + 1] = 1 / length
+        normals[vertex * 3 + 2] = -dz / length
+      }
+    }
+
+    const indices = new Uint32Array((columns - 1) * (rows - 1) * 6)
+    let offset = 0
+    for (let row = 0; row < rows - 1; row++) {
+      for (let column = 0; column < columns - 1; column++) {
+        const a = row * columns + column
+        const b = a + 1
+        const c = a + columns
+        const d = c + 1
+        indices[offset++] = a
+        indices[offset++] = c
+        indices[offset++] = b
+        indices[offset++] = b
+        indices[offset++] = c
+        indices[offset++] = d
+      }
+    }
+
+    return {
+      name: '',
+      tileX: 0,
+      tileZ: 0,
+      vertexCount,
+      positions,
+      normals,
+      uvs,
+      colors: calculateTerrainColors(heights, minHeight, maxHeight),
+      indices
+    }
+  }
+}
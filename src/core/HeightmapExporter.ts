@@ -0,0 +1,163 @@
+/**
+ * Heightmap export in engine-friendly formats
+ *
+ * - png8:  8-bit grayscale PNG (preview quality)
+ * - png16: 16-bit grayscale PNG, heights normalized to the min/max range
+ * - r16:   headerless little-endian uint16 (Unity/Unreal RAW), normalized
+ * - r32:   headerless little-endian float32 heights in meters
+ *
+ * Min/max height and world size are stored as a tEXt chunk for PNGs and/or in
+ * a JSON sidecar, so the real elevations can be rebuilt on import.
+ */
+
+import { PNGCodec } from './PNGCodec'
+
+export type HeightmapFormat = 'png8' | 'png16' | 'r16' | 'r32'
+
+// 'embed' only applies to PNG - RAW files have no room for metadata and fall back to a sidecar
+export type HeightmapMetadataMode = 'embed' | 'sidecar' | 'both' | 'none'
+
+export const HEIGHTMAP_METADATA_KEYWORD = 'weltenbauer.heightmap'
+
+export interface HeightmapMetadata {
+  generator: 'weltenbauer'
+  format: HeightmapFormat
+  width: number
+  height: number
+  minHeight: number // meters
+  maxHeight: number // meters
+  worldSize: number // meters along each side
+  encoding: 'normalized' | 'float32'
+  byteOrder?: 'little-endian'
+}
+
+export interface HeightmapExportOptions {
+  format: HeightmapFormat
+  metadata?: HeightmapMetadataMode
+}
+
+export interface HeightmapExportResult {
+  data: Uint8Array
+  extension: string
+  mimeType: string
+  metadata: HeightmapMetadata
+  // JSON sidecar contents when requested
+  sidecar?: string
+}
+
+export class HeightmapExporter {
+  /**
+   * Encode a square heightmap in the requested format
+   */
+  public static async export(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    options: HeightmapExportOptions
+  ): Promise<HeightmapExportResult> {
+    if (heightData.length !== resolution * resolution) {
+      throw new Error(`Height data size mismatch. Expected ${resolution * resolution}, got ${heightData.length}`)
+    }
+
+    const { format } = options
+    const metadataMode = options.metadata ?? 'sidecar'
+    const { minHeight, maxHeight } = HeightmapExporter.getHeightRange(heightData)
+
+    const metadata: HeightmapMetadata = {
+      generator: 'weltenbauer',
+      format,
+      width: resolution,
+      height: resolution,
+      minHeight,
+      maxHeight,
+      worldSize,
+      encoding: format === 'r32' ? 'float32' : 'normalized'
+    }
+    if (format === 'r16' || format === 'r32') {
+      metadata.byteOrder = 'little-endian'
+    }
+
+    const isPNG = format === 'png8' || format === 'png16'
+    const embed = isPNG && (metadataMode === 'embed' || metadataMode === 'both')
+    const sidecar = metadataMode === 'sidecar' || metadataMode === 'both' || (!isPNG && metadataMode === 'embed')
+
+    let data: Uint8Array
+    switch (format) {
+      case 'png8':
+      case 'png16': {
+        const bitDepth = format === 'png16' ? 16 : 8
+        data = await PNGCodec.encode({
+          width: resolution,
+          height: resolution,
+          bitDepth,
+          channels: 1,
+          data: bitDepth === 16
+            ? HeightmapExporter.normalize(heightData, minHeight, maxHeight, 65535, Uint16Array)
+            : HeightmapExporter.normalize(heightData, minHeight, maxHeight, 255, Uint8Array),
+          text: embed ? { [HEIGHTMAP_METADATA_KEYWORD]: JSON.stringify(metadata) } : undefined
+        })
+        break
+      }
+
+      case 'r16': {
+        const values = HeightmapExporter.normalize(heightData, minHeight, maxHeight, 65535, Uint16Array)
+        data = new Uint8Array(values.length * 2)
+        const view = new DataView(data.buffer)
+        for (let i = 0; i < values.length; i++) {
+          view.setUint16(i * 2, values[i], true)
+        }
+        break
+      }
+
+      case 'r32': {
+        data = new Uint8Array(heightData.length * 4)
+        const view = new DataView(data.buffer)
+        for (let i = 0; i < heightData.length; i++) {
+          view.setFloat32(i * 4, heightData[i], true)
+        }
+        break
+      }
+
+      default:
+        throw new Error(`Unknown heightmap format: ${format}`)
+    }
+
+    return {
+      data,
+      extension: isPNG ? 'png' : format,
+      mimeType: isPNG ? 'image/png' : 'application/octet-stream',
+      metadata,
+      sidecar: sidecar ? JSON.stringify(metadata, null, 2) : undefined
+    }
+  }
+
+  /**
+   * Min/max without spread (safe for 4096² arrays)
+   */
+  public static getHeightRange(heightData: Float32Array): { minHeight: number; maxHeight: number } {
+    let minHeight = Infinity
+    let maxHeight = -Infinity
+    for (let i = 0; i < heightData.length; i++) {
+      const height = heightData[i]
+      if (height < minHeight) minHeight = height
+      if (height > maxHeight) maxHeight = height
+    }
+    return heightData.length > 0 ? { minHeight, maxHeight } : { minHeight: 0, maxHeight: 0 }
+  }
+
+  private static normalize<T extends Uint8Array | Uint16Array>(
+    heightData: Float32Array,
+    minHeight: number,
+    maxHeight: number,
+    maxValue: number,
+    ArrayType: { new (length: number): T }
+  ): T {
+    const range = maxHeight - minHeight
+    const values = new ArrayType(heightData.length)
+    for (let i = 0; i < heightData.length; i++) {
+      const normalized = range > 0 ? (heightData[i] - minHeight) / range : 0
+      values[i] = Math.round(normalized * maxValue)
+    }
+    return values
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Heightmap import from grayscale PNG (8/16-bit), RAW R16/R32 and float arrays
+ *
+ * Normalized sources (PNG, R16) are mapped to meters using the min/max height
+ * from embedded or sidecar metadata written by HeightmapExporter, or from the
+ * caller-provided range when no metadata is available.
+ */
+
+import { PNGCodec } from './PNGCodec'
+import { Resampler } from './Resampler'
+import { HEIGHTMAP_METADATA_KEYWORD, HeightmapMetadata } from './HeightmapExporter'
+
+export type HeightmapSourceFormat = 'png' | 'r16' | 'r32'
+
+export interface ImportedHeightmap {
+  width: number
+  height: number
+  heights: Float32Array // meters
+  minHeight: number
+  maxHeight: number
+  // World size in meters when the source carried it
+  worldSize?: number
+}
+
+export interface HeightmapImportOptions {
+  // Height range for normalized sources without metadata
+  minHeight?: number
+  maxHeight?: number
+  // RAW dimensions; inferred as square from the byte length when omitted
+  width?: number
+  height?: number
+  // RAW byte order (Unity/Unreal use little-endian)
+  littleEndian?: boolean
+  // Sidecar JSON from HeightmapExporter, takes precedence over embedded metadata
+  metadata?: Partial<HeightmapMetadata>
+}
+
+const DEFAULT_MIN_HEIGHT = 0
+const DEFAULT_MAX_HEIGHT = 500
+
+export class HeightmapImporter {
+  /**
+   * Detect the format from a file name
+   */
+  public static detectFormat(fileName: string): HeightmapSourceFormat {
+    const extension = fileName.toLowerCase().split('.').pop()
+    switch (extension) {
+      case 'png':
+        return 'png'
+      case 'r16':
+      case 'raw':
+        return 'r16'
+      case 'r32':
+      case 'f32':
+        return 'r32'
+      default:
+        throw new Error(`Unsupported heightmap file type: .${extension}`)
+    }
+  }
+
+  /**
+   * Import a heightmap file, detecting the format from its name
+   */
+  public static async fromFile(fileName: string, bytes: Uint8Array, options: HeightmapImportOptions = {}): Promise<ImportedHeightmap> {
+    const format = HeightmapImporter.detectFormat(fileName)
+    return format === 'png'
+      ? HeightmapImporter.fromPNG(bytes, options)
+      : HeightmapImporter.fromRaw(bytes, format, options)
+  }
+
+  /**
+   * Grayscale (or RGB, using the first channel) PNG at 8 or 16 bits
+   */
+  public static async fromPNG(bytes: Uint8Array, options: HeightmapImportOptions = {}): Promise<ImportedHeightmap> {
+    const image = await PNGCodec.decode(bytes)
+    const maxValue = image.bitDepth === 16 ? 65535 : 255
+
+    const normalized = new Float32Array(image.width * image.height)
+    for (let i = 0; i < normalized.length; i++) {
+      normalized[i] = image.data[i * image.channels] / maxValue
+    }
+
+    let metadata = options.metadata
+    if (!metadata && image.text[HEIGHTMAP_METADATA_KEYWORD]) {
+      try {
+        metadata = JSON.parse(image.text[HEIGHTMAP_METADATA_KEYWORD])
+      } catch (error) {
+        console.warn('Ignoring malformed heightmap metadata:', error)
+      }
+    }
+
+    return HeightmapImporter.denormalize(normalized, image.width, image.height, { ...options, metadata })
+  }
+
+  /**
+   * Headerless RAW data: uint16 (normalized) or float32 (meters)
+   */
+  public static fromRaw(bytes: Uint8Array, format: 'r16' | 'r32', options: HeightmapImportOptions = {}): ImportedHeightmap {
+    const bytesPerSample = format === 'r16' ? 2 : 4
+    const sampleCount = Math.floor(bytes.length / bytesPerSample)
+    const { width, height } = HeightmapImporter.resolveRawSize(sampleCount, options)
+    const littleEndian = options.littleEndian ?? true
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const values = new Float32Array(width * height)
+
+    if (format === 'r16') {
+      for (let i = 0; i < values.length; i++) {
+        values[i] = view.getUint16(i * 2, littleEndian) / 65535
+      }
+      return HeightmapImporter.denormalize(values, width, height, options)
+    }
+
+    for (let i = 0; i < values.length; i++) {
+      values[i] = view.getFloat32(i * 4, littleEndian)
+    }
+    return HeightmapImporter.fromFloatArray(values, width, height, options.metadata?.worldSize)
+  }
+
+  /**
+   * Heights already in meters
+   */
+  public static fromFloatArray(values: ArrayLike<number>, width: number, height: number, worldSize?: number): ImportedHeightmap {
+    if (values.length !== width * height) {
+      throw new Error(`Height data size mismatch. Expected ${width * height}, got ${values.length}`)
+    }
+
+    const heights = Float32Array.from(values)
+    let minHeight = Infinity
+    let maxHeight = -Infinity
+    for (let i = 0; i < heights.length; i++) {
+      if (heights[i] < minHeight) minHeight = heights[i]
+      if (heights[i] > maxHeight) maxHeight = heights[i]
+    }
+
+    return { width, height, heights, minHeight, maxHeight, worldSize }
+  }
+
+  /**
+   * Resample an imported heightmap to a square terrain resolution
+   */
+  public static toResolution(heightmap: ImportedHeightmap, resolution: number): Float32Array {
+    if (heightmap.width === resolution && heightmap.height === resolution) {
+      return heightmap.heights.slice()
+    }
+    return Resampler.bilinear(heightmap.heights, heightmap.width, heightmap.height, resolution, resolution)
+  }
+
+  private static denormalize(
+    normalized: Float32Array,
+    width: number,
+    height: number,
+    options: HeightmapImportOptions
+  ): ImportedHeightmap {
+    const minHeight = options.metadata?.minHeight ?? options.minHeight ?? DEFAULT_MIN_HEIGHT
+    const maxHeight = options.metadata?.maxHeight ?? options.maxHeight ?? DEFAULT_MAX_HEIGHT
+    const range = maxHeight - minHeight
+
+    const heights = new Float32Array(normalized.length)
+    for (let i = 0; i < heights.length; i++) {
+      heights[i] = minHeight + normalized[i] * range
+    }
+
+    return { width, height, heights, minHeight, maxHeight, worldSize: options.metadata?.worldSize }
+  }
+
+  private static resolveRawSize(sampleCount: number, options: HeightmapImportOptions): { width: number; height: number } {
+    const width = options.width ?? options.metadata?.width
+    const height = options.height ?? options.metadata?.height
+
+    if (width && height) {
+      if (width * height > sampleCount) {
+        throw new Error(`RAW file too small for ${width}x${height} (${sampleCount} samples)`)
+      }
+      return { width, height }
+    }
+
+    const side = Math.round(Math.sqrt(sampleCount))
+    if (side * side !== sampleCount) {
+      throw new Error(`Cannot infer RAW dimensions from ${sampleCount} samples - please specify width and height`)
+    }
+    return { width: side, height: side }
+  }
+}
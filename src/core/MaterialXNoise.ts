@@ -0,0 +1,56 @@
+/**
+ * CPU port of the MaterialX 2D Perlin noise used by TSL's mx_noise_float,
+ * bit-compatible hash (Jenkins lookup3 final mix) so CPU bakes line up with the shader
+ */
+
+/**
+ * Same result as mx_noise_float(vec2(x, y)) with default amplitude and pivot
+ */
+export function mxNoiseFloat(x: number, y: number): number {
+  const X = Math.floor(x)
+  const Y = Math.floor(y)
+  const fx = x - X
+  const fy = y - Y
+  const u = fade(fx)
+  const v = fade(fy)
+
+  const v0 = gradient(hashInt(X, Y), fx, fy)
+  const v1 = gradient(hashInt(X + 1, Y), fx - 1, fy)
+  const v2 = gradient(hashInt(X, Y + 1), fx, fy - 1)
+  const v3 = gradient(hashInt(X + 1, Y + 1), fx - 1, fy - 1)
+
+  const s1 = 1 - u
+  const result = (1 - v) * (v0 * s1 + v1 * u) + v * (v2 * s1 + v3 * u)
+  return 0.6616 * result
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10)
+}
+
+function gradient(hash: number, x: number, y: number): number {
+  const h = hash & 7
+  const u = h < 4 ? x : y
+  const v = 2 * (h < 4 ? y : x)
+  return ((h & 1) ? -u : u) + ((h & 2) ? -v : v)
+}
+
+function rotl32(x: number, k: number): number {
+  return ((x << k) | (x >>> (32 - k))) >>> 0
+}
+
+function hashInt(x: number, y: number): number {
+  const seed = (0xdeadbeef + (2 << 2) + 13) >>> 0
+  let a = (seed + x) >>> 0
+  let b = (seed + y) >>> 0
+  let c = seed
+
+  c = ((c ^ b) - rotl32(b, 14)) >>> 0
+  a = ((a ^ c) - rotl32(c, 11)) >>> 0
+  b = ((b ^ a) - rotl32(a, 25)) >>> 0
+  c = ((c ^ b) - rotl32(b, 16)) >>> 0
+  a = ((a ^ c) - rotl32(c, 4)) >>> 0
+  b = ((b ^ a) - rotl32(a, 14)) >>> 0
+  c = ((c ^ b) - rotl32(b, 24)) >>> 0
+  return c
+}
@@ -0,0 +1,157 @@
+/**
+ * Wavefront OBJ + MTL export of the terrain mesh
+ *
+ * The OBJ carries per-vertex colors as the common 'v x y z r g b' extension and
+ * one group per tile. The MTL references a color texture baked from the same
+ * terrain colors and the 16-bit heightmap (as displacement map), both exported
+ * next to it. Like GLBExporter it only needs height data.
+ */
+
+import { HeightfieldMesh, HeightfieldMeshOptions } from './HeightfieldMesh'
+import { HeightmapExporter } from './HeightmapExporter'
+import { PNGCodec } from './PNGCodec'
+import { calculateTerrainColors } from './TerrainColors'
+
+export interface OBJExportOptions extends HeightfieldMeshOptions {
+  // File name stem for the .obj/.mtl/.png set
+  baseName?: string
+}
+
+export interface ExportedFile {
+  name: string
+  data: Uint8Array
+  mimeType: string
+}
+
+export interface OBJExportResult {
+  files: ExportedFile[]
+  triangleCount: number
+}
+
+// Lines are encoded in batches so huge meshes never build one giant string
+const LINES_PER_BATCH = 65536
+
+export class OBJExporter {
+  /**
+   * Build the OBJ, MTL, color texture and heightmap for a square height grid (worldSize in meters)
+   */
+  public static async export(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    options: OBJExportOptions = {}
+  ): Promise<OBJExportResult> {
+    const baseName = options.baseName ?? 'terrain'
+    const mesh = HeightfieldMesh.build(heightData, resolution, worldSize, options)
+    const { minHeight, maxHeight } = HeightmapExporter.getHeightRange(heightData)
+
+    const colorTexture = `${baseName}_color.png`
+    const heightTexture = `${baseName}_height.png`
+
+    const writer = new LineWriter()
+    writer.line('# Weltenbauer terrain')
+    writer.line(`# World size: ${worldSize} m, heights ${minHeight.toFixed(3)} to ${maxHeight.toFixed(3)} m`)
+    writer.line(`mtllib ${baseName}.mtl`)
+
+    // OBJ indices are global and 1-based
+    let vertexOffset = 1
+    for (const tile of mesh.tiles) {
+      writer.line(`o ${tile.name}`)
+      for (let i = 0; i < tile.vertexCount; i++) {
+        const p = i * 3
+        writer.line(`v ${num(tile.positions[p])} ${num(tile.positions[p + 1])} ${num(tile.positions[p + 2])} ${num(tile.colors[p])} ${num(tile.colors[p + 1])} ${num(tile.colors[p + 2])}`)
+      }
+      for (let i = 0; i < tile.vertexCount; i++) {
+        // OBJ texture space has v = 0 at the bottom
+        writer.line(`vt ${num(tile.uvs[i * 2])} ${num(1 - tile.uvs[i * 2 + 1])}`)
+      }
+      for (let i = 0; i < tile.vertexCount; i++) {
+        const p = i * 3
+        writer.line(`vn ${num(tile.normals[p])} ${num(tile.normals[p + 1])} ${num(tile.normals[p + 2])}`)
+      }
+      writer.line('usemtl terrain')
+      writer.line('s 1')
+      for (let i = 0; i < tile.indices.length; i += 3) {
+        const a = tile.indices[i] + vertexOffset
+        const b = tile.indices[i + 1] + vertexOffset
+        const c = tile.indices[i + 2] + vertexOffset
+        writer.line(`f ${a}/${a}/${a} ${b}/${b}/${b} ${c}/${c}/${c}`)
+      }
+      vertexOffset += tile.vertexCount
+    }
+
+    const mtl = [
+      '# Weltenbauer terrain material',
+      'newmtl terrain',
+      'Ka 1.000 1.000 1.000',
+      'Kd 1.000 1.000 1.000',
+      'Ks 0.000 0.000 0.000',
+      'illum 1',
+      `map_Kd ${colorTexture}`,
+      // Displacement in texture units: 0..1 spans the height range below
+      `disp -mm ${num(minHeight)} ${num(maxHeight - minHeight)} ${heightTexture}`,
+      ''
+    ].join('\n')
+
+    const heightmap = await HeightmapExporter.export(heightData, resolution, worldSize, { format: 'png16', metadata: 'embed' })
+
+    return {
+      files: [
+        { name: `${baseName}.obj`, data: writer.finish(), mimeType: 'model/obj' },
+        { name: `${baseName}.mtl`, data: new TextEncoder().encode(mtl), mimeType: 'model/mtl' },
+        { name: colorTexture, data: await OBJExporter.encodeColorTexture(heightData, resolution, minHeight, maxHeight), mimeType: 'image/png' },
+        { name: heightTexture, data: heightmap.data, mimeType: heightmap.mimeType }
+      ],
+      triangleCount: mesh.triangleCount
+    }
+  }
+
+  /**
+   * Full resolution RGB texture with the vertex color ramp
+   */
+  public static async encodeColorTexture(
+    heightData: Float32Array,
+    resolution: number,
+    minHeight: number,
+    maxHeight: number
+  ): Promise<Uint8Array> {
+    const colors = calculateTerrainColors(heightData, minHeight, maxHeight)
+    const pixels = new Uint8Array(colors.length)
+    for (let i = 0; i < colors.length; i++) {
+      pixels[i] = Math.round(colors[i] * 255)
+    }
+    return PNGCodec.encode({ width: resolution, height: resolution, bitDepth: 8, channels: 3, data: pixels })
+  }
+}
+
+class LineWriter {
+  private batches: Uint8Array[] = []
+  private lines: string[] = []
+  private encoder = new TextEncoder()
+
+  public line(text: string): void {
+    this.lines.push(text)
+    if (this.lines.length >= LINES_PER_BATCH) this.flush()
+  }
+
+  public finish(): Uint8Array {
+    this.flush()
+    const output = new Uint8Array(this.batches.reduce((sum, batch) => sum + batch.length, 0))
+    let offset = 0
+    for (const batch of this.batches) {
+      output.set(batch, offset)
+      offset += batch.length
+    }
+    return output
+  }
+
+  private flush(): void {
+    if (this.lines.length === 0) return
+    this.batches.push(this.encoder.encode(this.lines.join('\n') + '\n'))
+    this.lines = []
+  }
+}
+
+function num(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(4).replace(/\.?0+$/, '')
+}
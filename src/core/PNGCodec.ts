@@ -0,0 +1,306 @@
+/**
+ * Minimal PNG codec supporting 8/16-bit grayscale, RGB and RGBA images.
+ * Unlike canvas.toDataURL/getImageData it keeps full 16-bit precision and runs without a DOM.
+ */
+
+import { compressBytes, decompressBytes, isCompressionSupported } from './Compression'
+
+export type PNGChannels = 1 | 3 | 4
+
+export interface PNGImage {
+  width: number
+  height: number
+  bitDepth: 8 | 16
+  channels: PNGChannels
+  // Row-major samples, channels interleaved. Uint16Array for 16-bit images.
+  data: Uint8Array | Uint16Array
+  // Optional tEXt chunks (keyword -> text)
+  text?: Record<string, string>
+}
+
+export interface DecodedPNG {
+  width: number
+  height: number
+  bitDepth: 8 | 16
+  // 1 gray, 2 gray+alpha, 3 RGB, 4 RGBA
+  channels: number
+  data: Uint8Array | Uint16Array
+  text: Record<string, string>
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10]
+
+// PNG color types indexed by channel count
+const COLOR_TYPES: Record<PNGChannels, number> = { 1: 0, 3: 2, 4: 6 }
+
+// Channel counts per PNG color type (gray, RGB, gray+alpha, RGBA)
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 }
+
+let crcTable: Uint32Array | null = null
+
+export class PNGCodec {
+  /**
+   * Encode an image as PNG bytes
+   */
+  public static async encode(image: PNGImage): Promise<Uint8Array> {
+    const { width, height, bitDepth, channels, data } = image
+    const bytesPerPixel = channels * (bitDepth / 8)
+    const stride = width * bytesPerPixel
+
+    if (data.length !== width * height * channels) {
+      throw new Error(`PNG data size mismatch. Expected ${width * height * channels} samples, got ${data.length}`)
+    }
+    if ((bitDepth === 16) !== (data instanceof Uint16Array)) {
+      throw new Error(`PNG ${bitDepth}-bit images require ${bitDepth === 16 ? 'Uint16Array' : 'Uint8Array'} data`)
+    }
+
+    // Serialize samples to big-endian scanlines
+    const raw = new Uint8Array(stride * height)
+    if (bitDepth === 16) {
+      for (let i = 0; i < data.length; i++) {
+        raw[i * 2] = data[i] >> 8
+        raw[i * 2 + 1] = data[i] & 0xff
+      }
+    } else {
+      raw.set(data)
+    }
+
+    // Paeth filter every scanline - works well on smooth terrain data
+    const filtered = new Uint8Array((stride + 1) * height)
+    for (let y = 0; y < height; y++) {
+      const rowStart = y * stride
+      const outStart = y * (stride + 1)
+      filtered[outStart] = 4
+      for (let x = 0; x < stride; x++) {
+        const left = x >= bytesPerPixel ? raw[rowStart + x - bytesPerPixel] : 0
+        const up = y > 0 ? raw[rowStart - stride + x] : 0
+        const upLeft = y > 0 && x >= bytesPerPixel ? raw[rowStart - stride + x - bytesPerPixel] : 0
+        filtered[outStart + 1 + x] = (raw[rowStart + x] - paeth(left, up, upLeft)) & 0xff
+      }
+    }
+
+    const idat = isCompressionSupported() ? await compressBytes(filtered, 'deflate') : zlibStored(filtered)
+
+    const ihdr = new Uint8Array(13)
+    const ihdrView = new DataView(ihdr.buffer)
+    ihdrView.setUint32(0, width)
+    ihdrView.setUint32(4, height)
+    ihdr[8] = bitDepth
+    ihdr[9] = COLOR_TYPES[channels]
+    ihdr[10] = 0 // deflate
+    ihdr[11] = 0 // adaptive filtering
+    ihdr[12] = 0 // no interlace
+
+    const chunks: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE), createChunk('IHDR', ihdr)]
+    for (const [keyword, text] of Object.entries(image.text ?? {})) {
+      chunks.push(createChunk('tEXt', encodeLatin1(`${keyword}\0${text}`)))
+    }
+    chunks.push(createChunk('IDAT', idat))
+    chunks.push(createChunk('IEND', new Uint8Array(0)))
+
+    return concatBytes(chunks)
+  }
+
+  /**
+   * Decode PNG bytes. Palette, sub-byte and interlaced images are not supported.
+   */
+  public static async decode(bytes: Uint8Array): Promise<DecodedPNG> {
+    for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+      if (bytes[i] !== PNG_SIGNATURE[i]) {
+        throw new Error('Not a PNG file')
+      }
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const idatParts: Uint8Array[] = []
+    const text: Record<string, string> = {}
+    let width = 0, height = 0, bitDepth = 0, colorType = -1, interlace = 0
+
+    let offset = PNG_SIGNATURE.length
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset)
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+      const payload = bytes.subarray(offset + 8, offset + 8 + length)
+      if (payload.length !== length) {
+        throw new Error(`PNG chunk '${type}' is truncated`)
+      }
+
+      if (type === 'IHDR') {
+        const ihdr = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
+        width = ihdr.getUint32(0)
+        height = ihdr.getUint32(4)
+        bitDepth = payload[8]
+        colorType = payload[9]
+        interlace = payload[12]
+      } else if (type === 'IDAT') {
+        idatParts.push(payload)
+      } else if (type === 'tEXt') {
+        const separator = payload.indexOf(0)
+        if (separator > 0) {
+          text[decodeLatin1(payload.subarray(0, separator))] = decodeLatin1(payload.subarray(separator + 1))
+        }
+      } else if (type === 'IEND') {
+        break
+      }
+
+      offset += 12 + length
+    }
+
+    const channels = CHANNELS_BY_COLOR_TYPE[colorType]
+    if (!channels) {
+      throw new Error(`Unsupported PNG color type ${colorType} (palette images are not supported)`)
+    }
+    if (bitDepth !== 8 && bitDepth !== 16) {
+      throw new Error(`Unsupported PNG bit depth ${bitDepth} (only 8 and 16 bits are supported)`)
+    }
+    if (interlace !== 0) {
+      throw new Error('Interlaced PNG files are not supported')
+    }
+
+    const bytesPerPixel = channels * (bitDepth / 8)
+    const stride = width * bytesPerPixel
+    const filtered = await decompressBytes(concatBytes(idatParts), 'deflate')
+    if (filtered.length < (stride + 1) * height) {
+      throw new Error('PNG image data is truncated')
+    }
+
+    // Undo scanline filters
+    const raw = new Uint8Array(stride * height)
+    for (let y = 0; y < height; y++) {
+      const filter = filtered[y * (stride + 1)]
+      const inStart = y * (stride + 1) + 1
+      const rowStart = y * stride
+      for (let x = 0; x < stride; x++) {
+        const left = x >= bytesPerPixel ? raw[rowStart + x - bytesPerPixel] : 0
+        const up = y > 0 ? raw[rowStart - stride + x] : 0
+        const upLeft = y > 0 && x >= bytesPerPixel ? raw[rowStart - stride + x - bytesPerPixel] : 0
+        let predictor: number
+        switch (filter) {
+          case 0: predictor = 0; break
+          case 1: predictor = left; break
+          case 2: predictor = up; break
+          case 3: predictor = (left + up) >> 1; break
+          case 4: predictor = paeth(left, up, upLeft); break
+          default:
+            throw new Error(`Invalid PNG filter type ${filter} in row ${y}`)
+        }
+        raw[rowStart + x] = (filtered[inStart + x] + predictor) & 0xff
+      }
+    }
+
+    let data: Uint8Array | Uint16Array = raw
+    if (bitDepth === 16) {
+      data = new Uint16Array(raw.length / 2)
+      for (let i = 0; i < data.length; i++) {
+        data[i] = (raw[i * 2] << 8) | raw[i * 2 + 1]
+      }
+    }
+
+    return { width, height, bitDepth: bitDepth as 8 | 16, channels, data, text }
+  }
+}
+
+/**
+ * Paeth predictor from the PNG specification
+ */
+export function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  if (pa <= pb && pa <= pc) return a
+  if (pb <= pc) return b
+  return c
+}
+
+export function crc32(bytes: Uint8Array, crc: number = 0xffffffff): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return crc
+}
+
+function createChunk(type: string, payload: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + payload.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, payload.length)
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i)
+  }
+  chunk.set(payload, 8)
+  view.setUint32(8 + payload.length, (crc32(chunk.subarray(4, 8 + payload.length)) ^ 0xffffffff) >>> 0)
+  return chunk
+}
+
+/**
+ * zlib stream made of uncompressed blocks, used when CompressionStream is unavailable
+ */
+function zlibStored(data: Uint8Array): Uint8Array {
+  const maxBlock = 65535
+  const blockCount = Math.max(1, Math.ceil(data.length / maxBlock))
+  const out = new Uint8Array(2 + data.length + blockCount * 5 + 4)
+  out[0] = 0x78
+  out[1] = 0x01
+
+  let offset = 2
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * maxBlock
+    const length = Math.min(maxBlock, data.length - start)
+    out[offset++] = block === blockCount - 1 ? 1 : 0
+    out[offset++] = length & 0xff
+    out[offset++] = length >> 8
+    out[offset++] = ~length & 0xff
+    out[offset++] = (~length >> 8) & 0xff
+    out.set(data.subarray(start, start + length), offset)
+    offset += length
+  }
+
+  // Adler-32 checksum
+  let a = 1, b = 0
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521
+    b = (b + a) % 65521
+  }
+  new DataView(out.buffer).setUint32(offset, ((b << 16) | a) >>> 0)
+
+  return out
+}
+
+function encodeLatin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    bytes[i] = code < 256 ? code : 63 // '?'
+  }
+  return bytes
+}
+
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = ''
+  for (let i = 0; i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i])
+  }
+  return text
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0)
+  const out = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
@@ -0,0 +1,101 @@
+import { AdvancedTerrainConfig, MorphGradient, TerrainMorph } from './AdvancedTerrainGenerator'
+import { TerrainPreset } from './TerrainPresets'
+
+// Geological feature groups that fade in and out through their weight instead of switching
+const FEATURE_GROUPS = ['continentalShelf', 'mountainRanges', 'valleys', 'plateaus', 'coastalFeatures'] as const
+
+// Fields that identify the grid and noise rather than shape it, taken from the nearer preset
+const DISCRETE_KEYS = new Set(['name', 'description', 'size', 'resolution', 'seed', 'tileable', 'layers'])
+
+// Numeric fields that only make sense as whole numbers
+const INTEGER_KEYS = new Set(['count', 'octaves'])
+
+type FeatureGroup = typeof FEATURE_GROUPS[number]
+
+/**
+ * Blends between two terrain presets, uniformly (interpolate) or across the map (createMorph)
+ */
+export class PresetMorph {
+  /**
+   * Preset `t` of the way from `a` (0) to `b` (1). Numbers interpolate, feature toggles
+   * cross-fade through their weights, everything else comes from the nearer preset.
+   */
+  public static interpolate(a: TerrainPreset, b: TerrainPreset, t: number): TerrainPreset {
+    const amount = Math.max(0, Math.min(1, t))
+    const morphed = PresetMorph.blendObject(a, b, amount) as TerrainPreset
+
+    for (const group of FEATURE_GROUPS) {
+      PresetMorph.setFeature(morphed, group, PresetMorph.blendFeature(a[group], b[group], amount))
+    }
+
+    morphed.name = amount === 0 ? a.name : amount === 1 ? b.name : `${a.name} → ${b.name} (${Math.round(amount * 100)}%)`
+    morphed.description = amount === 0 ? a.description : amount === 1 ? b.description : `Blend of ${a.name} and ${b.name}`
+    return morphed
+  }
+
+  /**
+   * Spatial morph into `target` along `gradient`, for TerrainLayerStack.morph
+   */
+  public static createMorph(target: AdvancedTerrainConfig, gradient: MorphGradient): TerrainMorph {
+    const { name: _name, description: _description, ...config } = target as TerrainPreset
+    return { target: structuredClone(config), gradient: { ...gradient } }
+  }
+
+  /**
+   * A feature present on one side only keeps that side's parameters and fades its weight,
+   * so the strength ramps linearly instead of shrinking twice
+   */
+  private static blendFeature<K extends FeatureGroup>(a: AdvancedTerrainConfig[K], b: AdvancedTerrainConfig[K], t: number): AdvancedTerrainConfig[K] {
+    const weightA = a.enabled ? a.weight ?? 1 : 0
+    const weightB = b.enabled ? b.weight ?? 1 : 0
+    const weight = weightA + (weightB - weightA) * t
+
+    let blended: AdvancedTerrainConfig[K]
+    if (a.enabled && b.enabled) {
+      blended = PresetMorph.blendObject(a, b, t) as AdvancedTerrainConfig[K]
+    } else if (a.enabled || b.enabled) {
+      blended = structuredClone(a.enabled ? a : b)
+    } else {
+      blended = structuredClone(t < 0.5 ? a : b)
+    }
+
+    blended.enabled = weight > 0
+    if (weight > 0 && weight < 1) {
+      blended.weight = weight
+    } else {
+      delete blended.weight
+    }
+    return blended
+  }
+
+  /**
+   * Assign one feature group; a generic key lets TypeScript check the group's type
+   */
+  private static setFeature<K extends FeatureGroup>(config: AdvancedTerrainConfig, group: K, feature: AdvancedTerrainConfig[K]): void {
+    config[group] = feature
+  }
+
+  private static blendObject(a: Record<string, any>, b: Record<string, any>, t: number): Record<string, any> {
+    const result: Record<string, any> = {}
+
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const valueA = a[key]
+      const valueB = b[key]
+
+      if (valueA === undefined || valueB === undefined) {
+        result[key] = structuredClone(valueA ?? valueB)
+      } else if (DISCRETE_KEYS.has(key) || typeof valueA !== typeof valueB || Array.isArray(valueA)) {
+        result[key] = structuredClone(t < 0.5 ? valueA : valueB)
+      } else if (typeof valueA === 'number') {
+        const value = valueA + (valueB - valueA) * t
+        result[key] = INTEGER_KEYS.has(key) ? Math.round(value) : value
+      } else if (typeof valueA === 'object' && valueA !== null && valueB !== null) {
+        result[key] = PresetMorph.blendObject(valueA, valueB, t)
+      } else {
+        result[key] = structuredClone(t < 0.5 ? valueA : valueB)
+      }
+    }
+
+    return result
+  }
+}
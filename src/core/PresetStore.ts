@@ -0,0 +1,69 @@
+import { TerrainPreset, TerrainPresets } from './TerrainPresets'
+
+const DATABASE_NAME = 'weltenbauer'
+const DATABASE_VERSION = 1
+const PRESET_STORE = 'presets'
+
+/**
+ * User terrain presets persisted in IndexedDB, keyed like TerrainPresets (TerrainPresets.keyFor)
+ */
+export class PresetStore {
+  private database: Promise<IDBDatabase> | null = null
+
+  public static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  public async getAll(): Promise<TerrainPreset[]> {
+    const store = await this.transaction('readonly')
+    return PresetStore.request(store.getAll() as IDBRequest<TerrainPreset[]>)
+  }
+
+  /**
+   * Insert or replace the preset with the same name
+   */
+  public async put(preset: TerrainPreset): Promise<void> {
+    const store = await this.transaction('readwrite')
+    await PresetStore.request(store.put(preset, TerrainPresets.keyFor(preset.name)))
+  }
+
+  public async delete(name: string): Promise<void> {
+    const store = await this.transaction('readwrite')
+    await PresetStore.request(store.delete(TerrainPresets.keyFor(name)))
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open()
+    return database.transaction(PRESET_STORE, mode).objectStore(PRESET_STORE)
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        if (!PresetStore.isAvailable()) {
+          reject(new Error('IndexedDB is not available'))
+          return
+        }
+
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(PRESET_STORE)) {
+            request.result.createObjectStore(PRESET_STORE)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error ?? new Error('Failed to open preset database'))
+      })
+      // Allow a later retry if opening failed
+      this.database.catch(() => { this.database = null })
+    }
+    return this.database
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Preset database request failed'))
+    })
+  }
+}
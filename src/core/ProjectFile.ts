@@ -0,0 +1,289 @@
+/**
+ * Binary project container (.welt)
+ *
+ * Layout, all integers little-endian:
+ *   [0..4)   magic 'WELT'
+ *   [4..6)   u16 format version
+ *   [6..8)   u16 flags (bit 0: body is deflate-compressed)
+ *   [8..12)  u32 byte length of the JSON header inside the body
+ *   [12..)   body = UTF-8 JSON header, zero padding to 4 bytes, Float32 rasters
+ *
+ * The header lists the rasters in payload order, so new rasters can be added
+ * without breaking older readers. Imported heightmap layers store their data
+ * as rasters too; the header layer then references it by name.
+ */
+
+import { TerrainConfig } from './TerrainCore'
+import { ErosionResults, ErosionConfig, AdvancedErosionConfig } from './ErosionSystem'
+import { TerrainGraph, TerrainGraphData } from './TerrainGraph'
+import { AdvancedTerrainConfig, TerrainMorph } from './AdvancedTerrainGenerator'
+import { compressBytes, decompressBytes, isCompressionSupported } from './Compression'
+
+export const PROJECT_FILE_MAGIC = 'WELT'
+export const PROJECT_FILE_VERSION = 1
+
+const PREFIX_SIZE = 12
+const FLAG_COMPRESSED = 1
+
+const EROSION_RASTERS = ['elevation', 'drainageArea', 'streamPower', 'sedimentThickness', 'vegetationCover'] as const
+
+export interface ProjectFileData {
+  config: TerrainConfig
+  seed: number
+  timestamp: number
+  customLayers: any[]
+  baseLayerWeightOverrides: Map<number, number>
+  heightData: Float32Array
+  erosionResults?: ErosionResults
+  // Settings (including the seeds) that reproduce the last erosion runs
+  erosionConfig?: ErosionConfig
+  advancedErosionConfig?: AdvancedErosionConfig
+  terrainGraph?: TerrainGraphData | null
+  generatorConfig?: AdvancedTerrainConfig // includes the feature groups of an applied preset
+  terrainMorph?: TerrainMorph | null
+}
+
+export interface ProjectFileOptions {
+  compress?: boolean
+}
+
+interface ProjectFileHeader {
+  config: TerrainConfig
+  seed: number
+  timestamp: number
+  customLayers: any[]
+  baseLayerWeightOverrides: Array<[number, number]>
+  erosion?: {
+    timeEvolved: number
+    riverNetwork: ErosionResults['riverNetwork']
+    knickpoints: ErosionResults['knickpoints']
+  }
+  erosionSettings?: {
+    config?: ErosionConfig
+    advancedConfig?: AdvancedErosionConfig
+  }
+  graph?: TerrainGraphData // node graph composing the terrain, if enabled
+  morph?: TerrainMorph // preset blended in across the map, if any
+  generator?: AdvancedTerrainConfig // generator settings, preset features included
+  rasters: Array<{ name: string; length: number }>
+}
+
+export class ProjectFile {
+  /**
+   * Check whether a buffer starts with the binary project magic
+   */
+  public static isProjectFile(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < PREFIX_SIZE) return false
+    const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 4))
+    return magic === PROJECT_FILE_MAGIC
+  }
+
+  /**
+   * Serialize a project into the binary container
+   */
+  public static async encode(data: ProjectFileData, options: ProjectFileOptions = {}): Promise<ArrayBuffer> {
+    const { resolution } = data.config
+    if (data.heightData.length !== resolution * resolution) {
+      throw new Error(`Height data size mismatch. Expected ${resolution * resolution}, got ${data.heightData.length}`)
+    }
+
+    const rasters: Array<{ name: string; values: Float32Array }> = [{ name: 'height', values: data.heightData }]
+
+    // Move heightmap layer data out of the JSON header
+    const customLayers = data.customLayers.map((layer, index) => {
+      if (!layer.heightmap) return layer
+      const name = `layer.${index}.heightmap`
+      rasters.push({ name, values: layer.heightmap.data })
+      return { ...layer, heightmap: { width: layer.heightmap.width, height: layer.heightmap.height, raster: name } }
+    })
+
+    const header: ProjectFileHeader = {
+      config: data.config,
+      seed: data.seed,
+      timestamp: data.timestamp,
+      customLayers,
+      baseLayerWeightOverrides: Array.from(data.baseLayerWeightOverrides.entries()),
+      rasters: []
+    }
+
+    if (data.erosionConfig || data.advancedErosionConfig) {
+      header.erosionSettings = {
+        config: data.erosionConfig,
+        advancedConfig: data.advancedErosionConfig
+      }
+    }
+
+    if (data.terrainGraph) {
+      header.graph = data.terrainGraph
+    }
+
+    if (data.terrainMorph) {
+      header.morph = data.terrainMorph
+    }
+
+    if (data.generatorConfig) {
+      header.generator = data.generatorConfig
+    }
+
+    // Erosion rasters only exist once the geomorphology simulation has been initialized
+    const erosion = data.erosionResults
+    if (erosion && erosion.elevation.length === resolution * resolution) {
+      header.erosion = {
+        timeEvolved: erosion.timeEvolved,
+        riverNetwork: erosion.riverNetwork,
+        knickpoints: erosion.knickpoints
+      }
+      for (const name of EROSION_RASTERS) {
+        if (erosion[name].length === resolution * resolution) {
+          rasters.push({ name: `erosion.${name}`, values: erosion[name] })
+        }
+      }
+    }
+    header.rasters = rasters.map(raster => ({ name: raster.name, length: raster.values.length }))
+
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+    const headerPadded = align4(headerBytes.length)
+    const rasterBytes = rasters.reduce((sum, raster) => sum + raster.values.length * 4, 0)
+
+    let body: Uint8Array = new Uint8Array(headerPadded + rasterBytes)
+    body.set(headerBytes, 0)
+    let offset = headerPadded
+    for (const raster of rasters) {
+      writeFloat32LE(body, offset, raster.values)
+      offset += raster.values.length * 4
+    }
+
+    const compress = (options.compress ?? true) && isCompressionSupported()
+    if (compress) {
+      body = await compressBytes(body)
+    }
+
+    const output = new Uint8Array(PREFIX_SIZE + body.length)
+    const view = new DataView(output.buffer)
+    output.set(new TextEncoder().encode(PROJECT_FILE_MAGIC), 0)
+    view.setUint16(4, PROJECT_FILE_VERSION, true)
+    view.setUint16(6, compress ? FLAG_COMPRESSED : 0, true)
+    view.setUint32(8, headerBytes.length, true)
+    output.set(body, PREFIX_SIZE)
+
+    return output.buffer
+  }
+
+  /**
+   * Parse a binary project container
+   */
+  public static async decode(buffer: ArrayBuffer): Promise<ProjectFileData> {
+    if (!ProjectFile.isProjectFile(buffer)) {
+      throw new Error('Not a binary project file')
+    }
+
+    const view = new DataView(buffer)
+    const version = view.getUint16(4, true)
+    const flags = view.getUint16(6, true)
+    const headerLength = view.getUint32(8, true)
+
+    if (version > PROJECT_FILE_VERSION) {
+      throw new Error(`Unsupported project file version: ${version} (expected ${PROJECT_FILE_VERSION} or lower)`)
+    }
+
+    let body = new Uint8Array(buffer, PREFIX_SIZE)
+    if (flags & FLAG_COMPRESSED) {
+      if (!isCompressionSupported()) {
+        throw new Error('Project file is compressed but this environment cannot decompress it')
+      }
+      body = await decompressBytes(body)
+    }
+
+    if (headerLength > body.length) {
+      throw new Error('Project file is truncated')
+    }
+
+    const header = JSON.parse(new TextDecoder().decode(body.subarray(0, headerLength))) as ProjectFileHeader
+    const rasters = new Map<string, Float32Array>()
+    let offset = align4(headerLength)
+    for (const raster of header.rasters) {
+      const byteLength = raster.length * 4
+      if (offset + byteLength > body.length) {
+        throw new Error(`Project file is truncated in raster '${raster.name}'`)
+      }
+      rasters.set(raster.name, readFloat32LE(body, offset, raster.length))
+      offset += byteLength
+    }
+
+    const { resolution } = header.config
+    const heightData = rasters.get('height')
+    if (!heightData || heightData.length !== resolution * resolution) {
+      throw new Error('Project file is missing height data for its resolution')
+    }
+
+    const customLayers = (header.customLayers ?? []).map(layer => {
+      if (!layer.heightmap) return layer
+      const values = rasters.get(layer.heightmap.raster)
+      if (!values) {
+        throw new Error(`Project file is missing raster '${layer.heightmap.raster}'`)
+      }
+      return { ...layer, heightmap: { width: layer.heightmap.width, height: layer.heightmap.height, data: values } }
+    })
+
+    const data: ProjectFileData = {
+      config: header.config,
+      seed: header.seed,
+      timestamp: header.timestamp,
+      customLayers,
+      baseLayerWeightOverrides: new Map(header.baseLayerWeightOverrides ?? []),
+      heightData,
+      erosionConfig: header.erosionSettings?.config,
+      advancedErosionConfig: header.erosionSettings?.advancedConfig,
+      terrainGraph: header.graph ? TerrainGraph.parse(header.graph) : null,
+      terrainMorph: header.morph ?? null,
+      generatorConfig: header.generator
+    }
+
+    if (header.erosion) {
+      const empty = new Float32Array(0)
+      data.erosionResults = {
+        elevation: rasters.get('erosion.elevation') ?? empty,
+        drainageArea: rasters.get('erosion.drainageArea') ?? empty,
+        streamPower: rasters.get('erosion.streamPower') ?? empty,
+        sedimentThickness: rasters.get('erosion.sedimentThickness') ?? empty,
+        vegetationCover: rasters.get('erosion.vegetationCover') ?? empty,
+        timeEvolved: header.erosion.timeEvolved,
+        riverNetwork: header.erosion.riverNetwork,
+        knickpoints: header.erosion.knickpoints
+      }
+    }
+
+    return data
+  }
+}
+
+const isLittleEndianHost = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+function align4(length: number): number {
+  return (length + 3) & ~3
+}
+
+function writeFloat32LE(target: Uint8Array, byteOffset: number, values: Float32Array): void {
+  if (isLittleEndianHost) {
+    target.set(new Uint8Array(values.buffer, values.byteOffset, values.byteLength), byteOffset)
+    return
+  }
+  const view = new DataView(target.buffer, target.byteOffset + byteOffset, values.byteLength)
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat32(i * 4, values[i], true)
+  }
+}
+
+function readFloat32LE(source: Uint8Array, byteOffset: number, length: number): Float32Array {
+  const start = source.byteOffset + byteOffset
+  if (isLittleEndianHost) {
+    // Copy so the result owns an aligned buffer independent of the file
+    return new Float32Array(source.buffer.slice(start, start + length * 4))
+  }
+  const view = new DataView(source.buffer, start, length * 4)
+  const values = new Float32Array(length)
+  for (let i = 0; i < length; i++) {
+    values[i] = view.getFloat32(i * 4, true)
+  }
+  return values
+}
@@ -0,0 +1,172 @@
+/**
+ * Resampling helpers for row-major height grids
+ */
+
+export class Resampler {
+  /**
+   * Resample a grid to a new size with bilinear interpolation (corners map to corners)
+   */
+  public static bilinear(
+    source: Float32Array,
+    sourceWidth: number,
+    sourceHeight: number,
+    targetWidth: number,
+    targetHeight: number
+  ): Float32Array {
+    const target = new Float32Array(targetWidth * targetHeight)
+    const scaleX = targetWidth > 1 ? (sourceWidth - 1) / (targetWidth - 1) : 0
+    const scaleY = targetHeight > 1 ? (sourceHeight - 1) / (targetHeight - 1) : 0
+
+    for (let y = 0; y < targetHeight; y++) {
+      for (let x = 0; x < targetWidth; x++) {
+        target[y * targetWidth + x] = Resampler.sampleBilinear(source, sourceWidth, sourceHeight, x * scaleX, y * scaleY)
+      }
+    }
+
+    return target
+  }
+
+  /**
+   * Resample a height field for a resolution change: bicubic along enlarged axes, area
+   * average along shrunk ones, so sculpted detail neither softens nor aliases
+   */
+  public static resample(
+    source: Float32Array,
+    sourceWidth: number,
+    sourceHeight: number,
+    targetWidth: number,
+    targetHeight: number
+  ): Float32Array {
+    return Resampler.separable(source, sourceWidth, sourceHeight, targetWidth, targetHeight, (line, target) =>
+      target > line.length ? Resampler.bicubicLine(line, target) : Resampler.areaLine(line, target))
+  }
+
+  /**
+   * Resample a grid with Catmull-Rom bicubic interpolation (corners map to corners)
+   */
+  public static bicubic(
+    source: Float32Array,
+    sourceWidth: number,
+    sourceHeight: number,
+    targetWidth: number,
+    targetHeight: number
+  ): Float32Array {
+    return Resampler.separable(source, sourceWidth, sourceHeight, targetWidth, targetHeight, Resampler.bicubicLine)
+  }
+
+  /**
+   * Shrink a grid by averaging the source area each target sample covers (corners map to corners)
+   */
+  public static areaAverage(
+    source: Float32Array,
+    sourceWidth: number,
+    sourceHeight: number,
+    targetWidth: number,
+    targetHeight: number
+  ): Float32Array {
+    return Resampler.separable(source, sourceWidth, sourceHeight, targetWidth, targetHeight, Resampler.areaLine)
+  }
+
+  /**
+   * Resample every row, then every column of the result, with a 1D filter
+   */
+  private static separable(
+    source: Float32Array,
+    sourceWidth: number,
+    sourceHeight: number,
+    targetWidth: number,
+    targetHeight: number,
+    filter: (line: Float32Array, target: number) => Float32Array
+  ): Float32Array {
+    const rows = new Float32Array(targetWidth * sourceHeight)
+    for (let y = 0; y < sourceHeight; y++) {
+      rows.set(filter(source.subarray(y * sourceWidth, (y + 1) * sourceWidth), targetWidth), y * targetWidth)
+    }
+
+    const target = new Float32Array(targetWidth * targetHeight)
+    const column = new Float32Array(sourceHeight)
+    for (let x = 0; x < targetWidth; x++) {
+      for (let y = 0; y < sourceHeight; y++) {
+        column[y] = rows[y * targetWidth + x]
+      }
+      const resampled = filter(column, targetHeight)
+      for (let y = 0; y < targetHeight; y++) {
+        target[y * targetWidth + x] = resampled[y]
+      }
+    }
+
+    return target
+  }
+
+  /**
+   * Catmull-Rom through the samples, the end samples repeated beyond the edges
+   */
+  private static bicubicLine(line: Float32Array, target: number): Float32Array {
+    const length = line.length
+    const result = new Float32Array(target)
+    const scale = target > 1 ? (length - 1) / (target - 1) : 0
+    const at = (index: number) => line[Math.max(0, Math.min(length - 1, index))]
+
+    for (let i = 0; i < target; i++) {
+      const position = i * scale
+      const index = Math.min(length - 1, Math.floor(position))
+      const t = position - index
+      const p0 = at(index - 1)
+      const p1 = at(index)
+      const p2 = at(index + 1)
+      const p3 = at(index + 2)
+      result[i] = p1 + 0.5 * t * (p2 - p0 + t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)))
+    }
+
+    return result
+  }
+
+  /**
+   * Box filter: each target sample averages the source cells its footprint overlaps, weighted
+   * by the overlap. Footprints shrink symmetrically at the edges, so the end samples stay put.
+   */
+  private static areaLine(line: Float32Array, target: number): Float32Array {
+    const length = line.length
+    const result = new Float32Array(target)
+    const scale = target > 1 ? (length - 1) / (target - 1) : 0
+    const radius = Math.max(scale, 1) / 2
+
+    for (let i = 0; i < target; i++) {
+      const center = i * scale
+      const extent = Math.min(radius, center + 0.5, length - 0.5 - center)
+      const start = center - extent
+      const end = center + extent
+      let sum = 0
+      let weight = 0
+
+      for (let index = Math.round(start); index <= Math.round(end) && index < length; index++) {
+        const overlap = Math.min(end, index + 0.5) - Math.max(start, index - 0.5)
+        if (overlap <= 0) continue
+        sum += line[index] * overlap
+        weight += overlap
+      }
+
+      result[i] = weight > 0 ? sum / weight : line[Math.round(center)]
+    }
+
+    return result
+  }
+
+  /**
+   * Bilinear sample at fractional grid coordinates, clamped to the grid edges
+   */
+  public static sampleBilinear(source: Float32Array, width: number, height: number, x: number, y: number): number {
+    const cx = Math.max(0, Math.min(width - 1, x))
+    const cy = Math.max(0, Math.min(height - 1, y))
+    const x0 = Math.floor(cx)
+    const y0 = Math.floor(cy)
+    const x1 = Math.min(width - 1, x0 + 1)
+    const y1 = Math.min(height - 1, y0 + 1)
+    const fx = cx - x0
+    const fy = cy - y0
+
+    const top = source[y0 * width + x0] * (1 - fx) + source[y0 * width + x1] * fx
+    const bottom = source[y1 * width + x0] * (1 - fx) + source[y1 * width + x1] * fx
+    return top * (1 - fy) + bottom * fy
+  }
+}
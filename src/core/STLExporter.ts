@@ -0,0 +1,160 @@
+/**
+ * Watertight binary STL export for 3D printing table models
+ *
+ * Coordinates are in millimeters with Z up: the terrain is scaled to the print
+ * size along X/Y, heights are scaled by the same factor times the vertical
+ * exaggeration, and the lowest point sits `baseThickness` above the bed.
+ * Side skirts and a flat bottom close the surface, so every edge is shared by
+ * exactly two triangles.
+ */
+
+import { HeightfieldMesh } from './HeightfieldMesh'
+import { HeightmapExporter } from './HeightmapExporter'
+
+export interface STLExportOptions {
+  // Physical edge length of the model in millimeters
+  printSize?: number
+  // Base plate thickness below the lowest terrain point in millimeters
+  baseThickness?: number
+  verticalExaggeration?: number
+  // Upper bound for the top surface triangle count, full resolution when omitted
+  targetTriangles?: number
+}
+
+export interface STLExportResult {
+  data: Uint8Array
+  triangleCount: number
+  // Model height including the base plate, in millimeters
+  modelHeight: number
+}
+
+const HEADER_SIZE = 80
+const TRIANGLE_SIZE = 50
+
+export class STLExporter {
+  /**
+   * Build a closed print-ready solid from a square height grid (worldSize in meters)
+   */
+  public static export(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    options: STLExportOptions = {}
+  ): STLExportResult {
+    if (heightData.length !== resolution * resolution) {
+      throw new Error(`Height data size mismatch. Expected ${resolution * resolution}, got ${heightData.length}`)
+    }
+
+    const printSize = options.printSize ?? 200
+    const baseThickness = Math.max(0, options.baseThickness ?? 5)
+    const exaggeration = options.verticalExaggeration ?? 1
+    if (printSize <= 0 || worldSize <= 0) {
+      throw new Error('Print size and world size must be positive')
+    }
+
+    const step = HeightfieldMesh.decimationStep(resolution, options.targetTriangles)
+    const samples = HeightfieldMesh.sampleIndices(resolution, step)
+    const count = samples.length
+    const { minHeight, maxHeight } = HeightmapExporter.getHeightRange(heightData)
+
+    const horizontalScale = printSize / worldSize
+    const verticalScale = horizontalScale * exaggeration
+    const cellSize = printSize / (resolution - 1)
+
+    // Scene row 0 is the far (-z) edge; in print space it becomes the back (+y) edge
+    const px = (column: number) => samples[column] * cellSize
+    const py = (row: number) => printSize - samples[row] * cellSize
+    const pz = (row: number, column: number) =>
+      baseThickness + (heightData[samples[row] * resolution + samples[column]] - minHeight) * verticalScale
+
+    const boundarySegments = (count - 1) * 4
+    const triangleCount = (count - 1) * (count - 1) * 2 + boundarySegments * 2 + boundarySegments
+    const writer = new STLWriter(triangleCount)
+
+    // Top surface, counter-clockwise seen from above
+    for (let row = 0; row < count - 1; row++) {
+      for (let column = 0; column < count - 1; column++) {
+        const a: Vec3 = [px(column), py(row), pz(row, column)]
+        const b: Vec3 = [px(column + 1), py(row), pz(row, column + 1)]
+        const c: Vec3 = [px(column), py(row + 1), pz(row + 1, column)]
+        const d: Vec3 = [px(column + 1), py(row + 1), pz(row + 1, column + 1)]
+        writer.triangle(a, c, b)
+        writer.triangle(b, c, d)
+      }
+    }
+
+    // Boundary loop counter-clockwise seen from above: front, right, back, left edges
+    const boundary: Array<[number, number]> = []
+    for (let column = 0; column < count - 1; column++) boundary.push([count - 1, column])
+    for (let row = count - 1; row > 0; row--) boundary.push([row, count - 1])
+    for (let column = count - 1; column > 0; column--) boundary.push([0, column])
+    for (let row = 0; row < count - 1; row++) boundary.push([row, 0])
+
+    // Side skirts down to the bed
+    for (let i = 0; i < boundary.length; i++) {
+      const [row0, column0] = boundary[i]
+      const [row1, column1] = boundary[(i + 1) % boundary.length]
+      const top0: Vec3 = [px(column0), py(row0), pz(row0, column0)]
+      const top1: Vec3 = [px(column1), py(row1), pz(row1, column1)]
+      const bottom0: Vec3 = [top0[0], top0[1], 0]
+      const bottom1: Vec3 = [top1[0], top1[1], 0]
+      writer.triangle(bottom0, bottom1, top1)
+      writer.triangle(bottom0, top1, top0)
+    }
+
+    // Bottom plate as a fan around the center, facing down
+    const center: Vec3 = [printSize * 0.5, printSize * 0.5, 0]
+    for (let i = 0; i < boundary.length; i++) {
+      const [row0, column0] = boundary[i]
+      const [row1, column1] = boundary[(i + 1) % boundary.length]
+      writer.triangle(center, [px(column1), py(row1), 0], [px(column0), py(row0), 0])
+    }
+
+    return {
+      data: writer.finish(),
+      triangleCount,
+      modelHeight: baseThickness + (maxHeight - minHeight) * verticalScale
+    }
+  }
+}
+
+type Vec3 = [number, number, number]
+
+class STLWriter {
+  private data: Uint8Array
+  private view: DataView
+  private offset = HEADER_SIZE + 4
+
+  constructor(triangleCount: number) {
+    this.data = new Uint8Array(HEADER_SIZE + 4 + triangleCount * TRIANGLE_SIZE)
+    this.view = new DataView(this.data.buffer)
+    this.data.set(new TextEncoder().encode('Weltenbauer terrain (mm)'), 0)
+    this.view.setUint32(HEADER_SIZE, triangleCount, true)
+  }
+
+  public triangle(a: Vec3, b: Vec3, c: Vec3): void {
+    const ux = b[0] - a[0], uy = b[1] - a[1], uz = b[2] - a[2]
+    const vx = c[0] - a[0], vy = c[1] - a[1], vz = c[2] - a[2]
+    let nx = uy * vz - uz * vy
+    let ny = uz * vx - ux * vz
+    let nz = ux * vy - uy * vx
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1
+    nx /= length
+    ny /= length
+    nz /= length
+
+    const values = [nx, ny, nz, a[0], a[1], a[2], b[0], b[1], b[2], c[0], c[1], c[2]]
+    for (let i = 0; i < values.length; i++) {
+      this.view.setFloat32(this.offset + i * 4, values[i], true)
+    }
+    // Attribute byte count stays zero
+    this.offset += TRIANGLE_SIZE
+  }
+
+  public finish(): Uint8Array {
+    if (this.offset !== this.data.length) {
+      throw new Error(`STL triangle count mismatch: wrote ${(this.offset - HEADER_SIZE - 4) / TRIANGLE_SIZE} triangles`)
+    }
+    return this.data
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Seed exploration: candidate seeds and config mutations, and thumbnail rendering for
+ * the gallery. Generation itself runs through the terrain builder's worker pool.
+ */
+
+import { AdvancedTerrainConfig } from './AdvancedTerrainGenerator'
+import { calculateTerrainColor } from './TerrainColors'
+
+export type ThumbnailStyle = 'heightmap' | 'relief'
+
+export interface GalleryVariant {
+  label: string
+  config: Partial<AdvancedTerrainConfig> // always includes the seed
+}
+
+// Shaping controls mutated within the ranges the terrain panel offers
+const SHAPING_RANGES = {
+  geologicalComplexity: [0, 2],
+  domainWarping: [0, 1],
+  reliefAmplitude: [0.2, 4],
+  featureScale: [0.1, 3]
+} as const
+
+// Feature groups whose numbers are scaled by mutations
+const MUTATED_FEATURES = ['mountainRanges', 'valleys', 'plateaus'] as const
+
+// Hillshade light from the north-west, 45 degrees up, as an (east, north, up) vector
+const LIGHT = { east: -0.5, north: 0.5, up: Math.SQRT1_2 }
+
+export class SeedGallery {
+  /**
+   * `count` random seeds with the current settings
+   */
+  public static seedVariants(count: number, random: () => number = Math.random): GalleryVariant[] {
+    return Array.from({ length: count }, () => {
+      const seed = Math.floor(random() * 1000000)
+      return { label: `Seed ${seed}`, config: { seed } }
+    })
+  }
+
+  /**
+   * `count` variations of `config` with the same seed. `strength` (0-1) is the largest change
+   * as a fraction of each control's range, and as a relative change of feature values.
+   */
+  public static mutateVariants(
+    config: AdvancedTerrainConfig,
+    count: number,
+    strength: number,
+    random: () => number = Math.random
+  ): GalleryVariant[] {
+    const jitter = () => (random() * 2 - 1) * strength
+
+    return Array.from({ length: count }, (_, index) => {
+      const mutated: Partial<AdvancedTerrainConfig> = { seed: config.seed }
+
+      for (const [key, [min, max]] of Object.entries(SHAPING_RANGES) as Array<[keyof typeof SHAPING_RANGES, readonly [number, number]]>) {
+        const value = config[key] ?? (min + max) / 2
+        mutated[key] = Math.max(min, Math.min(max, value + jitter() * (max - min)))
+      }
+
+      for (const group of MUTATED_FEATURES) {
+        SeedGallery.mutateFeature(mutated, config, group, jitter)
+      }
+
+      return { label: `Variation ${index + 1}`, config: mutated }
+    })
+  }
+
+  /**
+   * RGBA pixels of a square height grid: grayscale heights, or hillshaded elevation colors
+   * (worldSize in meters sets the slope scale)
+   */
+  public static renderThumbnail(heightData: Float32Array, resolution: number, worldSize: number, style: ThumbnailStyle): Uint8ClampedArray {
+    const pixels = new Uint8ClampedArray(resolution * resolution * 4)
+
+    let min = Infinity
+    let max = -Infinity
+    for (let i = 0; i < heightData.length; i++) {
+      if (heightData[i] < min) min = heightData[i]
+      if (heightData[i] > max) max = heightData[i]
+    }
+    const range = max - min
+
+    const cellSize = worldSize / (resolution - 1)
+    const heightAt = (x: number, y: number) =>
+      heightData[Math.max(0, Math.min(resolution - 1, y)) * resolution + Math.max(0, Math.min(resolution - 1, x))]
+
+    for (let y = 0; y < resolution; y++) {
+      for (let x = 0; x < resolution; x++) {
+        const index = y * resolution + x
+        const normalized = range > 0 ? (heightData[index] - min) / range : 0.5
+        const pixel = index * 4
+        pixels[pixel + 3] = 255
+
+        if (style === 'heightmap') {
+          pixels[pixel] = pixels[pixel + 1] = pixels[pixel + 2] = normalized * 255
+          continue
+        }
+
+        // Surface normal (-dz/dx, -dz/dy, 1) in east/north/up; row 0 is the north edge
+        const dzdEast = (heightAt(x + 1, y) - heightAt(x - 1, y)) / (2 * cellSize)
+        const dzdNorth = (heightAt(x, y - 1) - heightAt(x, y + 1)) / (2 * cellSize)
+        const shade = Math.max(0, (LIGHT.up - dzdEast * LIGHT.east - dzdNorth * LIGHT.north) /
+          Math.sqrt(dzdEast * dzdEast + dzdNorth * dzdNorth + 1))
+
+        const color = calculateTerrainColor(normalized)
+        const light = 0.35 + shade * 0.65
+        pixels[pixel] = color.r * light * 255
+        pixels[pixel + 1] = color.g * light * 255
+        pixels[pixel + 2] = color.b * light * 255
+      }
+    }
+
+    return pixels
+  }
+
+  /**
+   * Copy feature `group` of `config` into `mutated` with each number scaled by `1 + jitter()`
+   */
+  private static mutateFeature<K extends typeof MUTATED_FEATURES[number]>(
+    mutated: Partial<AdvancedTerrainConfig>,
+    config: AdvancedTerrainConfig,
+    group: K,
+    jitter: () => number
+  ): void {
+    const feature: AdvancedTerrainConfig[K] = { ...config[group] }
+    const scaled: Record<string, number> = {}
+    for (const [key, value] of Object.entries(feature)) {
+      if (typeof value !== 'number' || key === 'weight') continue
+      const mutatedValue = Math.max(0, value * (1 + jitter()))
+      scaled[key] = key === 'count' ? Math.round(mutatedValue) : mutatedValue
+    }
+    mutated[group] = Object.assign(feature, scaled)
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * CPU port of the TerrainMaterial blend rules, producing RGBA splatmaps
+ *
+ * Channels: R = soil (dirt), G = grass, B = rock, A = snow. Weights follow the
+ * shader step by step - dirt/grass patches from the simplex texture, rock from
+ * height and slope, then snow/rock patches above the high elevation threshold -
+ * and always sum to one, so an engine can reproduce the preview by mixing its
+ * four layers with these weights.
+ *
+ * The shader works in world space, where the mesh is shifted down by half its
+ * average height; the same offset is applied here unless overridden.
+ */
+
+import { PNGCodec } from './PNGCodec'
+import { HeightmapExporter } from './HeightmapExporter'
+import { mxNoiseFloat } from './MaterialXNoise'
+
+export interface TerrainBlendParameters {
+  grassDirtHeight: number
+  rockHeight: number
+  snowHeight: number
+  slopeThreshold: number
+  simplexScale: number
+  highElevationThreshold: number
+}
+
+// Grayscale noise in 0..1, sampled with repeat wrapping and bilinear filtering
+export interface SplatNoiseTexture {
+  width: number
+  height: number
+  values: Float32Array
+  source: string
+}
+
+export interface SplatmapOptions {
+  // Defaults to TerrainMaterial.updateHeightRange() applied to the data
+  parameters?: TerrainBlendParameters
+  // Texture behind the dirt/grass patches (noise/simplex.png), procedural fallback when omitted
+  noiseTexture?: SplatNoiseTexture
+  // World-space height offset of the mesh, defaults to -average height / 2
+  heightOffset?: number
+}
+
+export interface SplatmapResult {
+  width: number
+  height: number
+  weights: Uint8Array // RGBA, row-major, row 0 at -z like the heightmap
+  coverage: { soil: number; grass: number; rock: number; snow: number }
+  parameters: TerrainBlendParameters
+  heightOffset: number
+  noiseSource: string
+}
+
+export interface SplatmapExportResult {
+  png: Uint8Array
+  manifest: string
+}
+
+export const SPLATMAP_CHANNELS = { r: 'soil', g: 'grass', b: 'rock', a: 'snow' } as const
+
+const FALLBACK_NOISE_SIZE = 512
+
+export class SplatmapGenerator {
+  /**
+   * Blend parameters TerrainMaterial uses for a given height range
+   */
+  public static defaultParameters(minHeight: number, maxHeight: number): TerrainBlendParameters {
+    const heightRange = maxHeight - minHeight
+    return {
+      grassDirtHeight: minHeight + heightRange * 0.3,
+      rockHeight: minHeight + heightRange * 0.25,
+      snowHeight: minHeight + heightRange * 0.85,
+      slopeThreshold: 0.6,
+      simplexScale: 0.002,
+      highElevationThreshold: 80.0
+    }
+  }
+
+  /**
+   * Evaluate the material weights for every height sample (worldSize in meters)
+   */
+  public static generate(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    options: SplatmapOptions = {}
+  ): SplatmapResult {
+    if (heightData.length !== resolution * resolution) {
+      throw new Error(`Height data size mismatch. Expected ${resolution * resolution}, got ${heightData.length}`)
+    }
+
+    const { minHeight, maxHeight } = HeightmapExporter.getHeightRange(heightData)
+    const parameters = options.parameters ?? SplatmapGenerator.defaultParameters(minHeight, maxHeight)
+    const noiseTexture = options.noiseTexture ?? SplatmapGenerator.createFallbackNoise()
+    const heightOffset = options.heightOffset ?? -SplatmapGenerator.averageHeight(heightData) * 0.5
+
+    const cellSize = worldSize / (resolution - 1)
+    const halfSize = worldSize * 0.5
+    const weights = new Uint8Array(resolution * resolution * 4)
+    const totals = [0, 0, 0, 0]
+
+    for (let z = 0; z < resolution; z++) {
+      for (let x = 0; x < resolution; x++) {
+        const index = z * resolution + x
+        const worldX = -halfSize + x * cellSize
+        const worldZ = -halfSize + z * cellSize
+        const height = heightData[index] + heightOffset
+
+        // Slope factor from the surface normal (0 = flat, 1 = vertical)
+        const x0 = Math.max(0, x - 1)
+        const x1 = Math.min(resolution - 1, x + 1)
+        const z0 = Math.max(0, z - 1)
+        const z1 = Math.min(resolution - 1, z + 1)
+        const dx = (heightData[z * resolution + x1] - heightData[z * resolution + x0]) / ((x1 - x0) * cellSize)
+        const dz = (heightData[z1 * resolution + x] - heightData[z0 * resolution + x]) / ((z1 - z0) * cellSize)
+        const slopeFactor = 1 - 1 / Math.sqrt(dx * dx + 1 + dz * dz)
+
+        const sample = SplatmapGenerator.evaluate(worldX, worldZ, height, slopeFactor, parameters, noiseTexture)
+        for (let channel = 0; channel < 4; channel++) {
+          weights[index * 4 + channel] = Math.round(sample[channel] * 255)
+          totals[channel] += sample[channel]
+        }
+      }
+    }
+
+    const count = resolution * resolution
+    return {
+      width: resolution,
+      height: resolution,
+      weights,
+      coverage: {
+        soil: totals[0] / count,
+        grass: totals[1] / count,
+        rock: totals[2] / count,
+        snow: totals[3] / count
+      },
+      parameters,
+      heightOffset,
+      noiseSource: noiseTexture.source
+    }
+  }
+
+  /**
+   * Weights [soil, grass, rock, snow] at one world-space point, mirroring the TSL color node
+   */
+  public static evaluate(
+    worldX: number,
+    worldZ: number,
+    height: number,
+    slopeFactor: number,
+    parameters: TerrainBlendParameters,
+    noiseTexture: SplatNoiseTexture
+  ): [number, number, number, number] {
+    // Dirt/grass patches, shifted to favor grass
+    const simplex = SplatmapGenerator.sampleNoise(noiseTexture, worldX * parameters.simplexScale, worldZ * parameters.simplexScale)
+    const dirtPatchWeight = smoothstep(-0.6, 0.4, simplex * 2 - 1 - 0.4)
+
+    let soil = dirtPatchWeight
+    let grass = 1 - dirtPatchWeight
+    let rock = 0
+    let snow = 0
+
+    // Boundary noise
+    const heightNoise = mxNoiseFloat(worldX * 0.05, worldZ * 0.05) * 3
+    const slopeNoise = mxNoiseFloat(worldX * 0.1, worldZ * 0.1) * 0.1
+    const snowNoise = mxNoiseFloat(worldX * 0.02, worldZ * 0.02) * 5
+
+    // Rock from height, strengthened on slopes
+    const adjustedRockHeight = parameters.rockHeight + heightNoise
+    const rockHeightWeight = smoothstep(adjustedRockHeight - 3, adjustedRockHeight + 8, height)
+    const adjustedSlopeThreshold = parameters.slopeThreshold + slopeNoise
+    const slopeRockWeight = smoothstep(adjustedSlopeThreshold - 0.1, adjustedSlopeThreshold + 0.1, slopeFactor)
+    const rockWeight = mix(rockHeightWeight * 0.8, rockHeightWeight, slopeRockWeight)
+
+    soil *= 1 - rockWeight
+    grass *= 1 - rockWeight
+    rock += rockWeight
+
+    // Snow/rock patches at high elevation, less snow on very steep slopes
+    const highElevationWeight = smoothstep(parameters.highElevationThreshold - 5, parameters.highElevationThreshold + 5, height)
+    const snowRockNoise = mxNoiseFloat(worldX * 0.008, worldZ * 0.008) + snowNoise * 0.1
+    const snowPatchWeight = smoothstep(-0.2, 0.6, snowRockNoise) *
+      smoothstep(parameters.slopeThreshold + 0.4, parameters.slopeThreshold, slopeFactor)
+
+    soil *= 1 - highElevationWeight
+    grass *= 1 - highElevationWeight
+    rock = rock * (1 - highElevationWeight) + highElevationWeight * (1 - snowPatchWeight)
+    snow = highElevationWeight * snowPatchWeight
+
+    return [soil, grass, rock, snow]
+  }
+
+  /**
+   * Encode the splatmap as an RGBA PNG plus a JSON manifest describing channels and rules
+   */
+  public static async export(result: SplatmapResult, worldSize: number, fileName: string = 'splatmap.png'): Promise<SplatmapExportResult> {
+    const png = await PNGCodec.encode({
+      width: result.width,
+      height: result.height,
+      bitDepth: 8,
+      channels: 4,
+      data: result.weights
+    })
+
+    const manifest = {
+      generator: 'weltenbauer',
+      image: fileName,
+      width: result.width,
+      height: result.height,
+      worldSize,
+      channels: SPLATMAP_CHANNELS,
+      // Weights sum to 255 (up to rounding); row 0 is the -z edge, like the heightmap export
+      normalized: true,
+      coverage: result.coverage,
+      parameters: result.parameters,
+      heightOffset: result.heightOffset,
+      noise: {
+        dirtGrass: `${result.noiseSource} sampled at worldXZ * simplexScale (repeat, bilinear, flipY)`,
+        boundaries: 'MaterialX 2D Perlin noise (mx_noise_float)'
+      },
+      rules: [
+        'height = elevation + heightOffset',
+        'dirt = smoothstep(-0.6, 0.4, simplex * 2 - 1 - 0.4); soil = dirt, grass = 1 - dirt',
+        'rockHeight = smoothstep(rockHeight + n(xz*0.05)*3 - 3, rockHeight + n(xz*0.05)*3 + 8, height)',
+        'rockSlope = smoothstep(slopeThreshold + n(xz*0.1)*0.1 - 0.1, slopeThreshold + n(xz*0.1)*0.1 + 0.1, 1 - normal.y)',
+        'rock = mix(rockHeight * 0.8, rockHeight, rockSlope), layered over soil/grass',
+        'high = smoothstep(highElevationThreshold - 5, highElevationThreshold + 5, height)',
+        'snowPatch = smoothstep(-0.2, 0.6, n(xz*0.008) + n(xz*0.02)*0.5) * smoothstep(slopeThreshold + 0.4, slopeThreshold, 1 - normal.y)',
+        'snow/rock = mix(rock, snow, snowPatch), layered over everything with weight high'
+      ]
+    }
+
+    return { png, manifest: JSON.stringify(manifest, null, 2) }
+  }
+
+  /**
+   * Decode a grayscale noise texture such as noise/simplex.png
+   */
+  public static async decodeNoiseTexture(bytes: Uint8Array, source: string): Promise<SplatNoiseTexture> {
+    const image = await PNGCodec.decode(bytes)
+    const maxValue = image.bitDepth === 16 ? 65535 : 255
+    const values = new Float32Array(image.width * image.height)
+    for (let i = 0; i < values.length; i++) {
+      values[i] = image.data[i * image.channels] / maxValue
+    }
+    return { width: image.width, height: image.height, values, source }
+  }
+
+  /**
+   * Same procedural noise TerrainMaterial falls back to when the noise textures fail to load
+   */
+  public static createFallbackNoise(): SplatNoiseTexture {
+    const size = FALLBACK_NOISE_SIZE
+    const values = new Float32Array(size * size)
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        let noise = 0
+        let amplitude = 1
+        let frequency = 0.01
+
+        for (let octave = 0; octave < 4; octave++) {
+          const a = Math.sin(x * frequency * 12.9898 + y * frequency * 78.233) * 43758.5453
+          noise += (2 * (a - Math.floor(a)) - 1) * amplitude
+          amplitude *= 0.5
+          frequency *= 2
+        }
+
+        noise = Math.max(0, Math.min(1, (noise + 1) * 0.5))
+        values[y * size + x] = Math.floor(noise * 255) / 255
+      }
+    }
+
+    return { width: size, height: size, values, source: 'procedural' }
+  }
+
+  /**
+   * Bilinear texture lookup with repeat wrapping; images are uploaded with flipY
+   */
+  private static sampleNoise(noise: SplatNoiseTexture, u: number, v: number): number {
+    const tx = u * noise.width - 0.5
+    const ty = (1 - v) * noise.height - 0.5
+    const x0 = Math.floor(tx)
+    const y0 = Math.floor(ty)
+    const fx = tx - x0
+    const fy = ty - y0
+
+    const wrap = (value: number, size: number) => ((value % size) + size) % size
+    const ax = wrap(x0, noise.width)
+    const bx = wrap(x0 + 1, noise.width)
+    const ay = wrap(y0, noise.height)
+    const by = wrap(y0 + 1, noise.height)
+
+    const top = noise.values[ay * noise.width + ax] * (1 - fx) + noise.values[ay * noise.width + bx] * fx
+    const bottom = noise.values[by * noise.width + ax] * (1 - fx) + noise.values[by * noise.width + bx] * fx
+    return top * (1 - fy) + bottom * fy
+  }
+
+  private static averageHeight(heightData: Float32Array): number {
+    let sum = 0
+    for (let i = 0; i < heightData.length; i++) {
+      sum += heightData[i]
+    }
+    return heightData.length > 0 ? sum / heightData.length : 0
+  }
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)))
+  return t * t * (3 - 2 * t)
+}
+
+function mix(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
@@ -0,0 +1,376 @@
+/**
+ * Terrain map baking: normal maps, slope, aspect, curvature and ambient occlusion
+ *
+ * All maps are computed from the height grid at real world scale (cell size =
+ * worldSize / (resolution - 1)) with row 0 as the north (-z) edge, matching the
+ * heightmap export. Values are stored normalized to 0..1 together with the
+ * range they map to, and encode as 16-bit PNGs with that range embedded.
+ */
+
+import { PNGCodec } from './PNGCodec'
+import { Resampler } from './Resampler'
+
+export type BakeMapType =
+  | 'normal-tangent'
+  | 'normal-object'
+  | 'slope'
+  | 'aspect'
+  | 'curvature-plan'
+  | 'curvature-profile'
+  | 'ao'
+
+export const BAKE_MAP_TYPES: BakeMapType[] = [
+  'normal-tangent',
+  'normal-object',
+  'slope',
+  'aspect',
+  'curvature-plan',
+  'curvature-profile',
+  'ao'
+]
+
+export const BAKE_METADATA_KEYWORD = 'weltenbauer.bake'
+
+export interface BakeOptions {
+  // Green channel direction for tangent-space normals (OpenGL = +Y up, DirectX = +Y down)
+  normalConvention?: 'opengl' | 'directx'
+  // Horizon search for ambient occlusion
+  aoDirections?: number
+  aoSteps?: number
+  aoRadius?: number // meters, defaults to 5% of the world size
+  // Reported between 0 and 1 while baking
+  onProgress?: (progress: number) => void
+}
+
+export interface BakedMapEncoding {
+  unit: string
+  // Values 0..1 in the image map linearly to min..max
+  min: number
+  max: number
+  description: string
+}
+
+export interface BakedMap {
+  type: BakeMapType
+  width: number
+  height: number
+  channels: 1 | 3
+  values: Float32Array // normalized 0..1, interleaved for 3 channels
+  encoding: BakedMapEncoding
+  worldSize: number
+}
+
+// Rows processed between progress reports / yields during AO
+const AO_ROWS_PER_YIELD = 16
+
+export class TerrainBaker {
+  /**
+   * Bake one map type from a square height grid (worldSize in meters)
+   */
+  public static async bake(
+    heightData: Float32Array,
+    resolution: number,
+    worldSize: number,
+    type: BakeMapType,
+    options: BakeOptions = {}
+  ): Promise<BakedMap> {
+    if (heightData.length !== resolution * resolution) {
+      throw new Error(`Height data size mismatch. Expected ${resolution * resolution}, got ${heightData.length}`)
+    }
+
+    const cellSize = worldSize / (resolution - 1)
+    let map: Omit<BakedMap, 'type' | 'width' | 'height' | 'worldSize'>
+
+    switch (type) {
+      case 'normal-tangent':
+      case 'normal-object':
+        map = TerrainBaker.bakeNormals(heightData, resolution, cellSize, type === 'normal-tangent', options.normalConvention ?? 'opengl')
+        break
+      case 'slope':
+        map = TerrainBaker.bakeSlope(heightData, resolution, cellSize)
+        break
+      case 'aspect':
+        map = TerrainBaker.bakeAspect(heightData, resolution, cellSize)
+        break
+      case 'curvature-plan':
+      case 'curvature-profile':
+        map = TerrainBaker.bakeCurvature(heightData, resolution, cellSize, type === 'curvature-plan')
+        break
+      case 'ao':
+        map = await TerrainBaker.bakeAmbientOcclusion(heightData, resolution, cellSize, worldSize, options)
+        break
+      default:
+        throw new Error(`Unknown bake map type: ${type}`)
+    }
+
+    options.onProgress?.(1)
+    return { type, width: resolution, height: resolution, worldSize, ...map }
+  }
+
+  /**
+   * Encode a baked map as a 16-bit grayscale or RGB PNG with its value range embedded
+   */
+  public static async encodePNG(map: BakedMap): Promise<Uint8Array> {
+    const data = new Uint16Array(map.values.length)
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.round(Math.max(0, Math.min(1, map.values[i])) * 65535)
+    }
+
+    const metadata = {
+      generator: 'weltenbauer',
+      type: map.type,
+      width: map.width,
+      height: map.height,
+      worldSize: map.worldSize,
+      ...map.encoding
+    }
+
+    return PNGCodec.encode({
+      width: map.width,
+      height: map.height,
+      bitDepth: 16,
+      channels: map.channels,
+      data,
+      text: { [BAKE_METADATA_KEYWORD]: JSON.stringify(metadata) }
+    })
+  }
+
+  /**
+   * Normals from central differences. Object space is the scene's Y-up frame;
+   * tangent space uses +x as tangent and north (-z, image up) as bitangent.
+   */
+  private static bakeNormals(
+    heightData: Float32Array,
+    resolution: number,
+    cellSize: number,
+    tangentSpace: boolean,
+    convention: 'opengl' | 'directx'
+  ): Omit<BakedMap, 'type' | 'width' | 'height' | 'worldSize'> {
+    const values = new Float32Array(resolution * resolution * 3)
+    const greenSign = convention === 'directx' ? -1 : 1
+
+    for (let z = 0; z < resolution; z++) {
+      for (let x = 0; x < resolution; x++) {
+        const { dx, dz } = TerrainBaker.gradient(heightData, resolution, cellSize, x, z)
+        const length = Math.sqrt(dx * dx + 1 + dz * dz)
+        const index = (z * resolution + x) * 3
+
+        if (tangentSpace) {
+          values[index] = -dx / length * 0.5 + 0.5
+          values[index + 1] = greenSign * dz / length * 0.5 + 0.5
+          values[index + 2] = 1 / length * 0.5 + 0.5
+        } else {
+          values[index] = -dx / length * 0.5 + 0.5
+          values[index + 1] = 1 / length * 0.5 + 0.5
+          values[index + 2] = -dz / length * 0.5 + 0.5
+        }
+      }
+    }
+
+    return {
+      channels: 3,
+      values,
+      encoding: {
+        unit: 'unit vector',
+        min: -1,
+        max: 1,
+        description: tangentSpace
+          ? `Tangent-space normal (${convention === 'directx' ? 'DirectX, green down' : 'OpenGL, green up'}), tangent +X, bitangent north`
+          : 'Object-space normal, Y up, RGB = XYZ'
+      }
+    }
+  }
+
+  /**
+   * Slope angle from horizontal
+   */
+  private static bakeSlope(heightData: Float32Array, resolution: number, cellSize: number): Omit<BakedMap, 'type' | 'width' | 'height' | 'worldSize'> {
+    const values = new Float32Array(resolution * resolution)
+    for (let z = 0; z < resolution; z++) {
+      for (let x = 0; x < resolution; x++) {
+        const { dx, dz } = TerrainBaker.gradient(heightData, resolution, cellSize, x, z)
+        values[z * resolution + x] = Math.atan(Math.sqrt(dx * dx + dz * dz)) / (Math.PI * 0.5)
+      }
+    }
+
+    return {
+      channels: 1,
+      values,
+      encoding: { unit: 'degrees', min: 0, max: 90, description: 'Slope angle, 0 = flat, 90 = vertical' }
+    }
+  }
+
+  /**
+   * Compass direction the slope faces (downhill), clockwise from north; flat cells are 0
+   */
+  private static bakeAspect(heightData: Float32Array, resolution: number, cellSize: number): Omit<BakedMap, 'type' | 'width' | 'height' | 'worldSize'> {
+    const values = new Float32Array(resolution * resolution)
+    for (let z = 0; z < resolution; z++) {
+      for (let x = 0; x < resolution; x++) {
+        const { dx, dz } = TerrainBaker.gradient(heightData, resolution, cellSize, x, z)
+        if (dx === 0 && dz === 0) continue
+
+        // Downhill vector in (east, north); north is -z
+        const angle = Math.atan2(-dx, dz) * 180 / Math.PI
+        values[z * resolution + x] = ((angle + 360) % 360) / 360
+      }
+    }
+
+    return {
+      channels: 1,
+      values,
+      encoding: { unit: 'degrees', min: 0, max: 360, description: 'Aspect clockwise from north (-z), flat = 0' }
+    }
+  }
+
+  /**
+   * Plan (contour) or profile (downslope) curvature in 1/m, positive = convex.
+   * The encoded range is symmetric around zero and clips the top 1% of magnitudes.
+   */
+  private static bakeCurvature(
+    heightData: Float32Array,
+    resolution: number,
+    cellSize: number,
+    plan: boolean
+  ): Omit<BakedMap, 'type' | 'width' | 'height' | 'worldSize'> {
+    const curvature = new Float32Array(resolution * resolution)
+    const area = cellSize * cellSize
+    const at = (x: number, z: number) =>
+      heightData[Math.max(0, Math.min(resolution - 1, z)) * resolution + Math.max(0, Math.min(resolution - 1, x))]
+
+    for (let z = 0; z < resolution; z++) {
+      for (let x = 0; x < resolution; x++) {
+        const center = at(x, z)
+        const p = (at(x + 1, z) - at(x - 1, z)) / (2 * cellSize)
+        const q = (at(x, z + 1) - at(x, z - 1)) / (2 * cellSize)
+        const r = (at(x + 1, z) - 2 * center + at(x - 1, z)) / area
+        const t = (at(x, z + 1) - 2 * center + at(x, z - 1)) / area
+        const s = (at(x + 1, z + 1) - at(x - 1, z + 1) - at(x + 1, z - 1) + at(x - 1, z - 1)) / (4 * area)
+
+        const gradientSquared = p * p + q * q
+        if (gradientSquared < 1e-12) continue
+
+        curvature[z * resolution + x] = plan
+          ? -(q * q * r - 2 * p * q * s + p * p * t) / Math.pow(gradientSquared, 1.5)
+          : -(p * p * r + 2 * p * q * s + q * q * t) / (gradientSquared * Math.pow(1 + gradientSquared, 1.5))
+      }
+    }
+
+    const range = TerrainBaker.robustMagnitude(curvature, 0.99) || 1
+    const values = new Float32Array(curvature.length)
+    for (let i = 0; i < values.length; i++) {
+      values[i] = Math.max(0, Math.min(1, curvature[i] / range * 0.5 + 0.5))
+    }
+
+    return {
+      channels: 1,
+      values,
+      encoding: {
+        unit: '1/m',
+        min: -range,
+        max: range,
+        description: `${plan ? 'Plan (contour)' : 'Profile (downslope)'} curvature, positive = convex, 0.5 = straight`
+      }
+    }
+  }
+
+  /**
+   * Horizon-based ambient occlusion: average sine of the horizon angle over
+   * evenly spaced directions, with samples spaced quadratically up to the radius
+   */
+  private static async bakeAmbientOcclusion(
+    heightData: Float32Array,
+    resolution: number,
+    cellSize: number,
+    worldSize: number,
+    options: BakeOptions
+  ): Promise<Omit<BakedMap, 'type' | 'width' | 'height' | 'worldSize'>> {
+    const directions = Math.max(4, Math.floor(options.aoDirections ?? 16))
+    const steps = Math.max(2, Math.floor(options.aoSteps ?? 24))
+    const radius = Math.max(cellSize, options.aoRadius ?? worldSize * 0.05)
+
+    const dirX = new Float32Array(directions)
+    const dirZ = new Float32Array(directions)
+    for (let d = 0; d < directions; d++) {
+      const angle = (d + 0.5) / directions * Math.PI * 2
+      dirX[d] = Math.cos(angle)
+      dirZ[d] = Math.sin(angle)
+    }
+
+    // Sample distances in meters and in cells, at least one cell apart from the origin
+    const distances = new Float32Array(steps)
+    for (let i = 0; i < steps; i++) {
+      const t = (i + 1) / steps
+      distances[i] = Math.max(cellSize, radius * t * t)
+    }
+
+    const values = new Float32Array(resolution * resolution)
+    for (let z = 0; z < resolution; z++) {
+      for (let x = 0; x < resolution; x++) {
+        const origin = heightData[z * resolution + x]
+        let occlusion = 0
+
+        for (let d = 0; d < directions; d++) {
+          let maxTangent = 0
+          for (let i = 0; i < steps; i++) {
+            const cells = distances[i] / cellSize
+            const sx = x + dirX[d] * cells
+            const sz = z + dirZ[d] * cells
+            if (sx < 0 || sz < 0 || sx > resolution - 1 || sz > resolution - 1) break
+
+            const tangent = (Resampler.sampleBilinear(heightData, resolution, resolution, sx, sz) - origin) / distances[i]
+            if (tangent > maxTangent) maxTangent = tangent
+          }
+          occlusion += maxTangent / Math.sqrt(1 + maxTangent * maxTangent)
+        }
+
+        values[z * resolution + x] = 1 - occlusion / directions
+      }
+
+      if (z % AO_ROWS_PER_YIELD === AO_ROWS_PER_YIELD - 1) {
+        options.onProgress?.((z + 1) / resolution)
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+
+    return {
+      channels: 1,
+      values,
+      encoding: {
+        unit: 'visibility',
+        min: 0,
+        max: 1,
+        description: `Horizon-based ambient occlusion, 1 = unoccluded (${directions} directions, ${radius.toFixed(1)}m radius)`
+      }
+    }
+  }
+
+  /**
+   * Height derivatives in meters per meter along +x and +z
+   */
+  private static gradient(heightData: Float32Array, resolution: number, cellSize: number, x: number, z: number): { dx: number; dz: number } {
+    const x0 = Math.max(0, x - 1)
+    const x1 = Math.min(resolution - 1, x + 1)
+    const z0 = Math.max(0, z - 1)
+    const z1 = Math.min(resolution - 1, z + 1)
+    return {
+      dx: (heightData[z * resolution + x1] - heightData[z * resolution + x0]) / ((x1 - x0) * cellSize),
+      dz: (heightData[z1 * resolution + x] - heightData[z0 * resolution + x]) / ((z1 - z0) * cellSize)
+    }
+  }
+
+  /**
+   * Magnitude below which the given fraction of non-zero values falls (subsampled for large maps)
+   */
+  private static robustMagnitude(values: Float32Array, fraction: number): number {
+    const stride = Math.max(1, Math.floor(values.length / 262144))
+    const magnitudes: number[] = []
+    for (let i = 0; i < values.length; i += stride) {
+      if (values[i] !== 0) magnitudes.push(Math.abs(values[i]))
+    }
+    if (magnitudes.length === 0) return 0
+
+    magnitudes.sort((a, b) => a - b)
+    return magnitudes[Math.min(magnitudes.length - 1, Math.floor(magnitudes.length * fraction))]
+  }
+}
@@ -1,27 +1,34 @@
 import * as THREE from 'three/webgpu'
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
-import { AdvancedTerrainGenerator, TerrainType } from './AdvancedTerrainGenerator'
+import { AdvancedTerrainGenerator, AdvancedTerrainConfig, TerrainType, BlendMode, TerrainLayer, TerrainLayerStack, TerrainMorph } from './AdvancedTerrainGenerator'
 import { BrushSystem } from './BrushSystem'
 import { ErosionSystem, ErosionConfig, AdvancedErosionConfig } from './ErosionSystem'
 import { TerrainMaterial } from './TerrainMaterial'
 import { TerrainWorkerMessage, TerrainWorkerResponse } from './TerrainWorker'
-
-export interface TerrainConfig {
-  size: number // Size in kilometers
-  resolution: number // Vertices per side
-  seed: number
-  // Redesigned advanced terrain controls
-  geologicalComplexity: number // 0.0-2.0: Controls multi-scale noise layering intensity
-  domainWarping: number // 0.0-1.0: Controls natural terrain flow and organic appearance
-  reliefAmplitude: number // 0.2-4.0: Master height scaling with geological context
-  featureScale: number // 0.1-3.0: Controls size/frequency of geological features
-  terrainType: TerrainType
-  // Advanced mode settings
-  advancedMode: boolean
-}
+import { ErosionWorkerMessage, ErosionWorkerResponse, ErosionModel, runErosionJobYielding } from './ErosionWorker'
+import { ProjectFileOptions } from './ProjectFile'
+import { TerrainHistory, HistoryEntry, TerrainHistoryState } from './TerrainHistory'
+import { HeightmapExportOptions, HeightmapExportResult } from './HeightmapExporter'
+import { HeightmapImporter, ImportedHeightmap } from './HeightmapImporter'
+import { GLBExportOptions, GLBExportResult } from './GLBExporter'
+import { OBJExportOptions, OBJExportResult } from './OBJExporter'
+import { STLExportOptions, STLExportResult } from './STLExporter'
+import { SplatmapGenerator, SplatmapExportResult, SplatNoiseTexture } from './SplatmapGenerator'
+import { BakeMapType, BakeOptions, BakedMap } from './TerrainBaker'
+import { CancellationToken, CancelledError, isCancelledError } from './CancellationToken'
+import { TerrainGraph, TerrainGraphData } from './TerrainGraph'
+import { TerrainGraphEvaluator } from './TerrainGraphEvaluator'
+import { WorldStreamer, WorldStreamOptions } from './WorldStreamer'
+import { TerrainCore, TerrainConfig, HeightmapImportSettings, SUPPORTED_RESOLUTIONS } from './TerrainCore'
+import { ErosionPresets } from './ErosionPresets'
+import { TerrainPreset } from './TerrainPresets'
+import { GalleryVariant } from './SeedGallery'
 
 export type EditorMode = 'orbit' | 'brush'
 
+// Coarse passes shown first by interactive regenerations, those below the terrain resolution
+const PREVIEW_RESOLUTIONS = [128, 512]
+
 export class TerrainBuilder {
   private canvas: HTMLCanvasElement
   private scene: THREE.Scene
@@ -30,7 +37,9 @@ export class TerrainBuilder {
   private controls: OrbitControls
   
   private terrain: THREE.Mesh | null = null
+  private previewMesh: THREE.Mesh | null = null // Coarse progressive pass shown instead of the terrain
   private terrainMaterial: TerrainMaterial
+  private core: TerrainCore // DOM-free generation, erosion and import/export this editor builds on
   private advancedTerrainGenerator: AdvancedTerrainGenerator
   private brushSystem: BrushSystem
   private erosionSystem: ErosionSystem
@@ -42,25 +51,29 @@ export class TerrainBuilder {
 
   private customLayers: any[] = []
   private baseLayerWeightOverrides: Map<number, number> = new Map()
+  private terrainGraph: TerrainGraphData | null = null // Replaces the layer stack's output when set
+  private terrainMorph: TerrainMorph | null = null // Second configuration blended in across the map
+
+  // Infinite world mode: chunks streamed around the camera target replace the edited terrain on screen
+  private worldStreamer: WorldStreamer | null = null
+  private worldStreamOptions: WorldStreamOptions | null = null
+
+  // Undo/redo history and the settings that produced the current terrain
+  private history: TerrainHistory = new TerrainHistory()
+  private terrainState: TerrainHistoryState | null = null
+
+  // Decoded copy of the material's dirt/grass noise for CPU splatmaps
+  private splatNoiseTexture: SplatNoiseTexture | null = null
 
   private uiController: any = null
   
-  private config: TerrainConfig = {
-    size: 1, // 1km
-    resolution: 1024, // Standard power of 2 resolution - supports up to 4096x4096 safely
-    seed: Math.floor(Math.random() * 1000000),
-    // Redesigned advanced terrain controls
-    geologicalComplexity: 1.0,
-    domainWarping: 0.5,
-    reliefAmplitude: 2.0,
-    featureScale: 1.5,
-    terrainType: TerrainType.CONTINENTAL,
-    // Advanced mode settings
-    advancedMode: true
-  }
+  private config: TerrainConfig = TerrainCore.defaultConfig()
 
   private updateTimeout: number | null = null
   private isGenerating: boolean = false
+  private isProgressiveGeneration: boolean = false
+  private regenerateProgressively: boolean = false // Settings changed during a generation, refine them next
+  private activeCancellationToken: CancellationToken | null = null // Token of the running generation or erosion
   private chunkSize: number = 64 // Process terrain in 64x64 chunks to prevent stack overflow
   
   // Worker pool for parallel terrain generation
@@ -68,6 +81,8 @@ export class TerrainBuilder {
   private workerCount: number = Math.min(navigator.hardwareConcurrency || 4, 8) // Cap at 8 workers
   private availableWorkers: Worker[] = []
   private busyWorkers: Set<Worker> = new Set()
+  private layerStackVersion: number = 0 // Bumped per parallel generation
+  private workerLayerStackVersions: Map<Worker, number> = new Map() // Stack version each worker has cached
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas
@@ -87,13 +102,20 @@ export class TerrainBuilder {
     
     this.controls = new OrbitControls(this.camera, this.canvas)
     this.terrainMaterial = new TerrainMaterial()
-    this.advancedTerrainGenerator = new AdvancedTerrainGenerator({
-      size: this.config.size,
-      resolution: this.config.resolution,
-      seed: this.config.seed
-    })
+    this.core = new TerrainCore(this.config)
+    this.advancedTerrainGenerator = this.core.getGenerator()
     this.brushSystem = new BrushSystem()
-    this.erosionSystem = new ErosionSystem()
+    this.erosionSystem = this.core.getErosionSystem()
+    
+    // Every finished brush stroke becomes one undo step
+    this.brushSystem.setStrokeCallback((region, previousValues) => {
+      this.history.push({
+        label: 'Brush stroke',
+        resolution: this.config.resolution,
+        region,
+        values: previousValues
+      })
+    })
     
     // Create noise preview canvas
     this.noisePreviewCanvas = this.createNoisePreviewCanvas()
@@ -151,6 +173,18 @@ export class TerrainBuilder {
           modeToggle.style.background = newMode === 'orbit' ? '#0066cc' : '#cc6600'
         }
       }
+      
+      // Undo/redo shortcuts (ignored while typing into GUI fields)
+      const target = event.target as HTMLElement | null
+      const isTyping = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+      if ((event.ctrlKey || event.metaKey) && !isTyping) {
+        const key = event.key.toLowerCase()
+        if (key === 'z' || key === 'y') {
+          event.preventDefault()
+          const action = key === 'y' || event.shiftKey ? this.redo() : this.undo()
+          action.catch(console.error)
+        }
+      }
     })
     
     // Start render loop
@@ -453,10 +487,6 @@ export class TerrainBuilder {
   }
 
   public generateLayerPreview(canvas: HTMLCanvasElement, layer: any): void {
-    const ctx = canvas.getContext('2d')!
-    const imageData = ctx.createImageData(canvas.width, canvas.height)
-    const data = imageData.data
-
     // Sample the layer across the preview area
     const samples: number[] = []
     for (let y = 0; y < canvas.height; y++) {
@@ -464,11 +494,24 @@ export class TerrainBuilder {
         const nx = (x / canvas.width) * 2 - 1
         const ny = (y / canvas.height) * 2 - 1
         
-        const noise = this.advancedTerrainGenerator.getNoiseSystem().generateNoise(nx, ny, layer.type, layer.config)
+        const noise = layer.heightmap
+          ? this.advancedTerrainGenerator.sampleHeightmapLayer(layer.heightmap, nx, ny)
+          : this.advancedTerrainGenerator.getNoiseSystem().generateNoise(nx, ny, layer.type, layer.config)
         samples.push(noise)
       }
     }
 
+    this.drawPreviewSamples(canvas, samples, canvas.width, canvas.height)
+  }
+
+  /**
+   * Draw width x height values as a min/max-normalized grayscale image
+   */
+  private drawPreviewSamples(canvas: HTMLCanvasElement, samples: ArrayLike<number>, width: number, height: number): void {
+    const ctx = canvas.getContext('2d')!
+    const imageData = ctx.createImageData(width, height)
+    const data = imageData.data
+
     // Find min/max for normalization (avoid spread operator to prevent stack overflow)
     let min = Infinity
     let max = -Infinity
@@ -637,7 +680,8 @@ export class TerrainBuilder {
     this.customLayers.push({
       type: noiseType.toLowerCase(),
       config: baseConfig,
-      weight: weight
+      weight: weight,
+      blendMode: BlendMode.ADD
     })
     
     // Normalize all weights so they add up to 100%
@@ -663,12 +707,16 @@ export class TerrainBuilder {
     
     const allLayers = [...baseLayers, ...this.customLayers]
     
+    // Heightmap layers carry real elevations, their weight is a multiplier rather than a share
+    const isNormalized = (layer: any) => !layer.heightmap
+    
     // Calculate current total weight
-    const totalWeight = allLayers.reduce((sum, layer) => sum + layer.weight, 0)
+    const totalWeight = allLayers.filter(isNormalized).reduce((sum, layer) => sum + layer.weight, 0)
     
     if (totalWeight > 0) {
       // Normalize each layer proportionally
       for (let i = 0; i < allLayers.length; i++) {
+        if (!isNormalized(allLayers[i])) continue
         const normalizedWeight = allLayers[i].weight / totalWeight
         
         if (i < baseLayers.length) {
@@ -723,99 +771,113 @@ export class TerrainBuilder {
     
     // Force terrain regeneration with updated weights (unless we're batching)
     if (!skipRegeneration) {
-      this.generateTerrain().catch(console.error)
+      this.generateTerrain({ progressive: true }).catch(console.error)
     }
   }
 
-
-
-
-
-  private applyBaseLayerWeightOverrides(): void {
-    // This method temporarily modifies the base layer weights for terrain generation
-    // Note: This is a workaround since the terrain generator recreates layers each time
-    // We'll handle the overrides in the custom layers application instead
+  /**
+   * Change a custom layer's blending (blend mode, slope or elevation range) and regenerate.
+   * Index is into the combined base + custom layer list, like updateLayerWeight().
+   */
+  public updateCustomLayer(index: number, changes: Partial<Pick<TerrainLayer, 'blendMode' | 'slopeRange' | 'slopeFalloff' | 'elevationRange'>>): void {
+    const baseLayers = this.advancedTerrainGenerator.getTerrainTypeLayers(this.config.terrainType, this.config.geologicalComplexity, this.config.featureScale)
+    const layer = this.customLayers[index - baseLayers.length]
+    if (!layer) return
+    
+    Object.assign(layer, changes)
+    
+    // Slope masking needs a range to do anything useful - default to cliffs
+    if (layer.blendMode === BlendMode.MASK_SLOPE && !layer.slopeRange) {
+      layer.slopeRange = { min: 35, max: 90 }
+    }
+    
+    this.generateTerrain({ progressive: true }).catch(console.error)
   }
 
+  /**
+   * Custom layers and base-layer weight overrides, as consumed by the shared terrain evaluation
+   */
+  private getLayerStack(): TerrainLayerStack {
+    return {
+      customLayers: this.customLayers,
+      baseLayerWeightOverrides: this.baseLayerWeightOverrides,
+      graph: this.terrainGraph,
+      morph: this.terrainMorph
+    }
+  }
 
+  public getTerrainGraph(): TerrainGraphData | null {
+    return this.terrainGraph
+  }
 
-
-
-  private applyLayerAdjustments(baseHeightData: Float32Array): Float32Array {
-    const { resolution } = this.config
-    const result = new Float32Array(baseHeightData.length)
-    
-    // Apply a simple scaling factor for base layer weight changes
-    let baseScalingFactor = 1.0
-    if (this.baseLayerWeightOverrides.size > 0) {
-      // For now, just use the first weight override as a simple scaling factor
-      const weights = Array.from(this.baseLayerWeightOverrides.values())
-      const avgWeight = weights.reduce((sum, w) => sum + w, 0) / weights.length
-      baseScalingFactor = avgWeight * 2 // Simple scaling
-      console.log(`Applying base scaling factor: ${baseScalingFactor}`)
+  /**
+   * Compose terrain with a node graph (null goes back to the plain layer stack) and regenerate
+   */
+  public setTerrainGraph(graph: TerrainGraphData | null): void {
+    if (graph) {
+      TerrainGraph.validate(graph)
     }
+    this.terrainGraph = graph ? TerrainGraph.clone(graph) : null
+    this.generateTerrain().catch(console.error)
+  }
+
+  /**
+   * Evaluate every graph node at thumbnail resolution and draw each into its canvas
+   */
+  public generateGraphNodePreviews(graph: TerrainGraphData, canvases: Map<string, HTMLCanvasElement>, size: number = 64): void {
+    const context = this.advancedTerrainGenerator.createSampleContext(this.config.terrainType, {
+      customLayers: this.customLayers,
+      baseLayerWeightOverrides: this.baseLayerWeightOverrides
+    })
+    context.resolution = size
+    context.cellSize = (this.config.size * 1000) / (size - 1)
     
-    // Start with scaled base terrain
-    for (let i = 0; i < baseHeightData.length; i++) {
-      result[i] = baseHeightData[i] * baseScalingFactor
-    }
+    const values = TerrainGraphEvaluator.evaluateAll(graph, this.advancedTerrainGenerator, context, {
+      radiusScale: size / this.config.resolution
+    })
     
-    // Apply each custom layer
-    for (const layer of this.customLayers) {
-      console.log(`Applying custom layer with weight: ${layer.weight}`)
-      for (let y = 0; y < resolution; y++) {
-        for (let x = 0; x < resolution; x++) {
-          const index = y * resolution + x
-          
-          // Transform coordinates to noise space with slight offset to avoid center artifacts
-          const nx = (x / (resolution - 1)) * 2 - 1 + 0.001
-          const ny = (y / (resolution - 1)) * 2 - 1 + 0.001
-          
-          // Generate noise for this layer
-          const noise = this.advancedTerrainGenerator.getNoiseSystem().generateNoise(nx, ny, layer.type, layer.config)
-          
-          // Apply layer with its weight
-          result[index] += noise * layer.weight
-        }
+    canvases.forEach((canvas, nodeId) => {
+      const samples = values.get(nodeId)
+      if (samples) {
+        this.drawPreviewSamples(canvas, samples, size, size)
       }
-    }
-    
-    return result
+    })
   }
 
-  public async generateTerrain(): Promise<void> {
+  /**
+   * Regenerate the terrain from the current settings. Progressive regenerations (slider edits)
+   * show coarse previews first without the blocking progress overlay, and a progressive
+   * regeneration still running when the settings change again is dropped for the new one.
+   */
+  public async generateTerrain(options: { progressive?: boolean } = {}): Promise<void> {
+    const progressive = !!options.progressive
+    
     // Prevent multiple simultaneous generations
     if (this.isGenerating) {
+      if (progressive) {
+        this.regenerateProgressively = true
+        if (this.isProgressiveGeneration) {
+          this.activeCancellationToken?.cancel()
+        }
+      }
       return
     }
     this.isGenerating = true
+    this.isProgressiveGeneration = progressive
+    this.regenerateProgressively = false
+    const cancellationToken = this.beginCancellableOperation()
 
     // Start progress tracking
-    if (this.uiController && this.uiController.getProgressOverlay) {
+    if (!progressive && this.uiController && this.uiController.getProgressOverlay) {
       const progressOverlay = this.uiController.getProgressOverlay()
-      progressOverlay.startTask('terrain-generation', 'Generating Terrain', 'Initializing terrain generation...')
+      progressOverlay.startTask('terrain-generation', 'Generating Terrain', 'Initializing terrain generation...', () => cancellationToken.cancel())
     }
 
-    try {
-    // Remove existing terrain with proper cleanup
-    if (this.terrain) {
-      this.scene.remove(this.terrain)
-      
-      // Dispose geometry
-      if (this.terrain.geometry) {
-        this.terrain.geometry.dispose()
-      }
-      
-      // Dispose materials
-      if (Array.isArray(this.terrain.material)) {
-        this.terrain.material.forEach((mat: THREE.Material) => mat.dispose())
-      } else if (this.terrain.material) {
-        (this.terrain.material as THREE.Material).dispose()
-      }
-      
-      this.terrain = null
-    }
+    // Keep the replaced heights for undo (setTerrain copies, so this array stays untouched)
+    const previousHeights = this.terrain ? this.brushSystem.getHeightData() : null
+    const previousState = this.terrainState
 
+    try {
     let heightData: Float32Array
 
     if (this.config.advancedMode) {
@@ -827,11 +889,13 @@ export class TerrainBuilder {
         geologicalComplexity: this.config.geologicalComplexity,
         domainWarping: this.config.domainWarping,
         reliefAmplitude: this.config.reliefAmplitude,
-        featureScale: this.config.featureScale
+        featureScale: this.config.featureScale,
+        tileable: this.config.tileable
       })
       
-      // Apply base layer weight overrides before generating terrain
-      this.applyBaseLayerWeightOverrides()
+      if (progressive) {
+        await this.showProgressivePreviews(cancellationToken)
+      }
       
         // Use chunked generation for high resolutions to prevent stack overflow
         if (this.config.resolution >= 512) {
@@ -839,36 +903,23 @@ export class TerrainBuilder {
             const progressOverlay = this.uiController.getProgressOverlay()
             progressOverlay.updateTask('terrain-generation', 10, 'Using chunked generation for high resolution...')
           }
-          heightData = await this.generateTerrainChunked(this.config.terrainType)
+          heightData = await this.generateTerrainChunked(this.config.terrainType, cancellationToken)
         } else {
           if (this.uiController && this.uiController.getProgressOverlay) {
             const progressOverlay = this.uiController.getProgressOverlay()
             progressOverlay.updateTask('terrain-generation', 20, 'Generating terrain with advanced noise system...')
           }
-          heightData = this.advancedTerrainGenerator.generateTerrain(this.config.terrainType)
+          heightData = this.advancedTerrainGenerator.generateTerrain(this.config.terrainType, this.getLayerStack())
         }
     } else {
       // Basic mode not supported anymore - use advanced with default settings
         if (this.config.resolution >= 512) {
-          heightData = await this.generateTerrainChunked(this.config.terrainType)
+          heightData = await this.generateTerrainChunked(this.config.terrainType, cancellationToken)
         } else {
-      heightData = this.advancedTerrainGenerator.generateTerrain(this.config.terrainType)
+      heightData = this.advancedTerrainGenerator.generateTerrain(this.config.terrainType, this.getLayerStack())
         }
     }
 
-    // Apply weight adjustments and custom layers
-    if (this.customLayers.length > 0 || this.baseLayerWeightOverrides.size > 0) {
-      if (this.uiController && this.uiController.getProgressOverlay) {
-        const progressOverlay = this.uiController.getProgressOverlay()
-        progressOverlay.updateTask('terrain-generation', 80, 'Applying layer adjustments...')
-      }
-      
-      if (this.config.resolution >= 512) {
-        heightData = await this.applyLayerAdjustmentsChunked(heightData)
-      } else {
-        heightData = this.applyLayerAdjustments(heightData)
-      }
-    }
 
     // Create terrain geometry
     if (this.uiController && this.uiController.getProgressOverlay) {
@@ -876,22 +927,195 @@ export class TerrainBuilder {
       progressOverlay.updateTask('terrain-generation', 90, 'Creating terrain mesh...')
     }
     
+    // Last chance to cancel - the existing terrain stays on screen until here
+    cancellationToken.throwIfCancelled()
+    
+    // Remove existing terrain with proper cleanup
+    this.removeTerrainMesh()
+    this.removePreviewMesh()
     await this.createTerrainMesh(heightData)
+    this.recordTerrainReplacement('Regenerate terrain', previousHeights, previousState)
     
     // Complete the progress
     if (this.uiController && this.uiController.getProgressOverlay) {
       const progressOverlay = this.uiController.getProgressOverlay()
       progressOverlay.completeTask('terrain-generation')
     }
+    } catch (error) {
+      this.removePreviewMesh()
+      if (!isCancelledError(error)) throw error
+      
+      // Superseded by newer settings: keep them, the old mesh stays until their pass finishes
+      if (!this.regenerateProgressively) {
+        console.log('Terrain generation cancelled')
+        await this.restoreAfterCancelledGeneration(previousHeights, previousState)
+        if (this.uiController && this.uiController.getProgressOverlay) {
+          this.uiController.getProgressOverlay().cancelTask('terrain-generation')
+        }
+      }
     } finally {
+      this.endCancellableOperation(cancellationToken)
       this.isGenerating = false
+      this.isProgressiveGeneration = false
+    }
+    
+    if (this.regenerateProgressively) {
+      await this.generateTerrain({ progressive: true })
+      return
+    }
+    
+    if (cancellationToken.isCancelled && this.uiController && this.uiController.syncUIWithTerrain) {
+      this.uiController.syncUIWithTerrain()
+    }
+  }
+
+  /**
+   * Show the coarse passes of a progressive regeneration. The generator samples the same
+   * continuous terrain at every resolution, so each pass is the final result at less detail.
+   */
+  private async showProgressivePreviews(cancellationToken: CancellationToken): Promise<void> {
+    // Infinite world mode shows streamed chunks instead of the terrain mesh
+    if (this.worldStreamer) return
+    
+    for (const resolution of PREVIEW_RESOLUTIONS) {
+      if (resolution >= this.config.resolution) break
+      
+      const heightData = await this.generatePreviewHeights(resolution, cancellationToken)
+      cancellationToken.throwIfCancelled()
+      this.showPreviewMesh(heightData, resolution)
+      
+      // Let the pass render before the next one starts
+      await new Promise(resolve => requestAnimationFrame(resolve))
+    }
+  }
+
+  /**
+   * Heights of the current settings at a preview resolution: on the main thread for the
+   * smallest pass, in chunks on the worker pool otherwise
+   */
+  private async generatePreviewHeights(resolution: number, cancellationToken: CancellationToken): Promise<Float32Array> {
+    const config = { ...this.advancedTerrainGenerator.getConfig(), resolution }
+    const type = this.config.terrainType
+    
+    if (this.workers.length === 0 || resolution <= PREVIEW_RESOLUTIONS[0]) {
+      return new AdvancedTerrainGenerator(config).generateTerrain(type, this.getLayerStack())
+    }
+    
+    const heightData = new Float32Array(resolution * resolution)
+    const pendingChunks: Promise<void>[] = []
+    this.layerStackVersion++
+    
+    for (let startY = 0; startY < resolution; startY += this.chunkSize) {
+      for (let startX = 0; startX < resolution; startX += this.chunkSize) {
+        const endX = Math.min(startX + this.chunkSize, resolution)
+        const endY = Math.min(startY + this.chunkSize, resolution)
+        pendingChunks.push(this.processTerrainChunkWithWorker(
+          type, startX, startY, endX, endY, heightData, `preview-${resolution}-${startX}-${startY}`, cancellationToken, config
+        ))
+      }
+    }
+    
+    await Promise.all(pendingChunks)
+    return heightData
+  }
+
+  /**
+   * Replace the terrain on screen with a coarse mesh until the full-resolution mesh is ready
+   */
+  private showPreviewMesh(heightData: Float32Array, resolution: number): void {
+    const geometry = new THREE.PlaneGeometry(
+      this.config.size * 1000,
+      this.config.size * 1000,
+      resolution - 1,
+      resolution - 1
+    )
+    const vertices = geometry.attributes.position.array as Float32Array
+    for (let i = 0; i < heightData.length; i++) {
+      vertices[i * 3 + 2] = heightData[i]
+    }
+    geometry.computeVertexNormals()
+    
+    const { minHeight, maxHeight, avgHeight } = this.calculateHeightStats(heightData)
+    this.terrainMaterial.updateHeightRange(minHeight, maxHeight)
+    
+    if (this.previewMesh) {
+      this.previewMesh.geometry.dispose()
+      this.previewMesh.geometry = geometry
+    } else {
+      this.previewMesh = new THREE.Mesh(geometry, this.terrainMaterial.getMaterial())
+      this.previewMesh.rotation.x = -Math.PI / 2
+      this.previewMesh.receiveShadow = true
+      this.scene.add(this.previewMesh)
+    }
+    this.previewMesh.position.y = -avgHeight * 0.5
+    
+    if (this.terrain) {
+      this.terrain.visible = false
+    }
+  }
+
+  /**
+   * Drop the progressive preview and show the terrain mesh again, if it is still there
+   */
+  private removePreviewMesh(): void {
+    if (!this.previewMesh) return
+    
+    this.scene.remove(this.previewMesh)
+    this.previewMesh.geometry.dispose() // The material is the terrain's
+    this.previewMesh = null
+    
+    if (this.terrain) {
+      const { minHeight, maxHeight } = this.calculateHeightStats(this.brushSystem.getHeightData())
+      this.terrainMaterial.updateHeightRange(minHeight, maxHeight)
+      this.terrain.visible = true
+    }
+  }
+
+  /**
+   * Cancel the running terrain generation or erosion, if any.
+   * The terrain and settings it would have replaced are restored.
+   */
+  public cancelCurrentOperation(): void {
+    this.activeCancellationToken?.cancel()
+  }
+
+  private beginCancellableOperation(): CancellationToken {
+    this.activeCancellationToken = new CancellationToken()
+    return this.activeCancellationToken
+  }
+
+  private endCancellableOperation(token: CancellationToken): void {
+    if (this.activeCancellationToken === token) {
+      this.activeCancellationToken = null
+    }
+  }
+
+  /**
+   * Put back the settings (and, if it was already removed, the mesh) that a cancelled generation replaced
+   */
+  private async restoreAfterCancelledGeneration(
+    previousHeights: Float32Array | null,
+    previousState: TerrainHistoryState | null
+  ): Promise<void> {
+    if (previousState) {
+      this.config = { ...previousState.config }
+      this.customLayers = this.cloneCustomLayers(previousState.customLayers)
+      this.baseLayerWeightOverrides = new Map(previousState.baseLayerWeightOverrides)
+      this.terrainGraph = previousState.terrainGraph ? TerrainGraph.clone(previousState.terrainGraph) : null
+      this.restoreGeneratorState(previousState)
+      this.setResolution(this.config.resolution)
+      this.syncGeneratorConfig()
+    }
+    
+    if (!this.terrain && previousHeights) {
+      await this.createTerrainMesh(previousHeights)
     }
   }
 
   /**
    * Generate terrain in chunks using parallel workers for multi-core processing
    */
-  private async generateTerrainChunked(type: TerrainType): Promise<Float32Array> {
+  private async generateTerrainChunked(type: TerrainType, cancellationToken: CancellationToken): Promise<Float32Array> {
     const { resolution } = this.config
     const heightData = new Float32Array(resolution * resolution)
     
@@ -907,10 +1131,10 @@ export class TerrainBuilder {
 
     // Fall back to single-threaded if no workers available
     if (this.workers.length === 0) {
-      return this.generateTerrainChunkedSingleThreaded(type)
+      return this.generateTerrainChunkedSingleThreaded(cancellationToken)
     }
 
-    return this.generateTerrainChunkedParallel(type, chunksX, chunksY, totalChunks, heightData)
+    return this.generateTerrainChunkedParallel(type, chunksX, chunksY, totalChunks, heightData, cancellationToken)
   }
 
   /**
@@ -921,11 +1145,15 @@ export class TerrainBuilder {
     chunksX: number, 
     chunksY: number, 
     totalChunks: number, 
-    heightData: Float32Array
+    heightData: Float32Array,
+    cancellationToken: CancellationToken
   ): Promise<Float32Array> {
     const { resolution } = this.config
     let processedChunks = 0
     const pendingChunks: Promise<void>[] = []
+    
+    // New stack version - every worker gets the custom layers once with its first chunk
+    this.layerStackVersion++
 
     // Create chunk processing promises
     for (let chunkY = 0; chunkY < chunksY; chunkY++) {
@@ -936,13 +1164,13 @@ export class TerrainBuilder {
         const endY = Math.min(startY + this.chunkSize, resolution)
         
         const chunkPromise = this.processTerrainChunkWithWorker(
-          type, startX, startY, endX, endY, heightData, `${chunkX}-${chunkY}`
+          type, startX, startY, endX, endY, heightData, `${chunkX}-${chunkY}`, cancellationToken
         ).then(() => {
           processedChunks++
           
           // Update progress periodically
           if (processedChunks % Math.max(1, Math.floor(totalChunks / 20)) === 0) {
-            const progress = 15 + (processedChunks / totalChunks * 60)
+            const progress = 15 + (processedChunks / totalChunks * 70)
             
             if (this.uiController && this.uiController.getProgressOverlay) {
               const progressOverlay = this.uiController.getProgressOverlay()
@@ -961,14 +1189,15 @@ export class TerrainBuilder {
     
     if (this.uiController && this.uiController.getProgressOverlay) {
       const progressOverlay = this.uiController.getProgressOverlay()
-      progressOverlay.updateTask('terrain-generation', 75, 'Parallel terrain generation complete!')
+      progressOverlay.updateTask('terrain-generation', 85, 'Parallel terrain generation complete!')
     }
     
     return heightData
   }
 
   /**
-   * Process a single chunk using a worker from the pool
+   * Process a single chunk using a worker from the pool. `config` defaults to the generator's;
+   * heightData is a grid of config.resolution samples per side.
    */
   private async processTerrainChunkWithWorker(
     type: TerrainType,
@@ -977,11 +1206,19 @@ export class TerrainBuilder {
     endX: number,
     endY: number,
     heightData: Float32Array,
-    chunkId: string
+    chunkId: string,
+    cancellationToken: CancellationToken,
+    config: AdvancedTerrainConfig = this.advancedTerrainGenerator.getConfig()
   ): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       // Wait for an available worker
       const tryGetWorker = () => {
+        // Queued chunks are dropped once cancelled; in-flight chunks finish and free their worker
+        if (cancellationToken.isCancelled) {
+          reject(new CancelledError())
+          return
+        }
+        
         const worker = this.getAvailableWorker()
         
         if (worker) {
@@ -993,24 +1230,15 @@ export class TerrainBuilder {
               worker.removeEventListener('message', handleMessage)
               worker.removeEventListener('error', handleError)
               
-              if (event.data.type === 'chunkComplete') {
+              if (cancellationToken.isCancelled) {
+                this.releaseWorker(worker)
+                reject(new CancelledError())
+              } else if (event.data.type === 'chunkComplete') {
                 // Copy worker result back to main height data
                 const { heightData: chunkData, startX: chunkStartX, startY: chunkStartY, endX: chunkEndX, endY: chunkEndY } = event.data.data
                 
                 if (chunkData && chunkStartX !== undefined && chunkStartY !== undefined && chunkEndX !== undefined && chunkEndY !== undefined) {
-                  const chunkWidth = chunkEndX - chunkStartX
-                  
-                  for (let localY = 0; localY < chunkEndY - chunkStartY; localY++) {
-                    for (let localX = 0; localX < chunkWidth; localX++) {
-                      const globalX = chunkStartX + localX
-                      const globalY = chunkStartY + localY
-                      const globalIndex = globalY * this.config.resolution + globalX
-                      const localIndex = localY * chunkWidth + localX
-                      
-                      heightData[globalIndex] = chunkData[localIndex]
-                    }
-                  }
-                  
+                  this.copyChunk(heightData, config.resolution, chunkData, chunkStartX, chunkStartY, chunkEndX, chunkEndY)
                   this.releaseWorker(worker)
                   resolve()
                 } else {
@@ -1018,6 +1246,8 @@ export class TerrainBuilder {
                   reject(new Error('Invalid chunk data received from worker'))
                 }
               } else if (event.data.type === 'error') {
+                // The worker may not have cached the layer stack, resend it with its next chunk
+                this.workerLayerStackVersions.delete(worker)
                 this.releaseWorker(worker)
                 reject(new Error(`Worker error: ${event.data.data.error || 'Unknown worker error'}`))
               }
@@ -1027,6 +1257,7 @@ export class TerrainBuilder {
           const handleError = (error: ErrorEvent) => {
             worker.removeEventListener('message', handleMessage)
             worker.removeEventListener('error', handleError)
+            this.workerLayerStackVersions.delete(worker)
             this.releaseWorker(worker)
             reject(error)
           }
@@ -1034,6 +1265,10 @@ export class TerrainBuilder {
           worker.addEventListener('message', handleMessage)
           worker.addEventListener('error', handleError)
           
+          // Send the custom layers only if this worker has not cached the current stack yet
+          const sendLayers = this.workerLayerStackVersions.get(worker) !== this.layerStackVersion
+          this.workerLayerStackVersions.set(worker, this.layerStackVersion)
+          
           // Send work to the worker
           const message: TerrainWorkerMessage = {
             type: 'processChunk',
@@ -1043,9 +1278,14 @@ export class TerrainBuilder {
               startY,
               endX,
               endY,
-              resolution: this.config.resolution,
+              resolution: config.resolution,
               terrainType: type,
-              config: this.advancedTerrainGenerator.getConfig()
+              config,
+              baseLayerWeightOverrides: this.baseLayerWeightOverrides,
+              customLayers: sendLayers ? this.customLayers : undefined,
+              graph: sendLayers ? this.terrainGraph : undefined,
+              morph: sendLayers ? this.terrainMorph : undefined,
+              layerStackVersion: this.layerStackVersion
             }
           }
           
@@ -1061,193 +1301,97 @@ export class TerrainBuilder {
   }
 
   /**
-   * Fallback single-threaded terrain generation
+   * Generate seed gallery thumbnails at `resolution` with the worker pool, one whole-grid job
+   * per variant. Variant configs override the current settings; thumbnails arrive as they finish.
    */
-  private async generateTerrainChunkedSingleThreaded(type: TerrainType): Promise<Float32Array> {
-    const { resolution } = this.config
-    const heightData = new Float32Array(resolution * resolution)
+  public async generateGalleryThumbnails(
+    variants: GalleryVariant[],
+    resolution: number,
+    onThumbnail: (index: number, heightData: Float32Array) => void,
+    cancellationToken: CancellationToken
+  ): Promise<void> {
+    const baseConfig = this.syncCore().getGenerator().getConfig()
+    const type = this.config.terrainType
     
-    const chunksX = Math.ceil(resolution / this.chunkSize)
-    const chunksY = Math.ceil(resolution / this.chunkSize)
-    let processedChunks = 0
-    const totalChunks = chunksX * chunksY
-
-    for (let chunkY = 0; chunkY < chunksY; chunkY++) {
-      for (let chunkX = 0; chunkX < chunksX; chunkX++) {
-        const startX = chunkX * this.chunkSize
-        const startY = chunkY * this.chunkSize
-        const endX = Math.min(startX + this.chunkSize, resolution)
-        const endY = Math.min(startY + this.chunkSize, resolution)
-        
-        await this.processTerrainChunk(heightData, type, startX, startY, endX, endY)
-        
-        processedChunks++
-        
-        if (processedChunks % 4 === 0) {
-          const progress = 15 + (processedChunks / totalChunks * 60)
-          
-          if (this.uiController && this.uiController.getProgressOverlay) {
-            const progressOverlay = this.uiController.getProgressOverlay()
-            progressOverlay.updateTask('terrain-generation', progress, `Processed ${processedChunks}/${totalChunks} chunks (single-threaded)...`)
-          }
-          
-          await this.yieldControl()
-        }
+    if (this.workers.length === 0) {
+      for (let index = 0; index < variants.length; index++) {
+        cancellationToken.throwIfCancelled()
+        const generator = new AdvancedTerrainGenerator({ ...baseConfig, ...variants[index].config, resolution })
+        onThumbnail(index, generator.generateTerrain(type, this.getLayerStack()))
+        await this.yieldControl()
       }
+      return
     }
     
-    return heightData
+    // New stack version, as for a regular parallel generation
+    this.layerStackVersion++
+    
+    await Promise.all(variants.map((variant, index) => {
+      const heightData = new Float32Array(resolution * resolution)
+      const config = { ...baseConfig, ...variant.config, resolution }
+      return this.processTerrainChunkWithWorker(type, 0, 0, resolution, resolution, heightData, `gallery-${index}`, cancellationToken, config)
+        .then(() => onThumbnail(index, heightData))
+    }))
   }
 
   /**
-   * Process a single terrain chunk
+   * Adopt a gallery variant's seed and settings at the full resolution, keeping any preset morph
    */
-  private async processTerrainChunk(
-    heightData: Float32Array, 
-    type: TerrainType, 
-    startX: number, 
-    startY: number, 
-    endX: number, 
-    endY: number
-  ): Promise<void> {
-    const { resolution } = this.config
-    
-    // Get terrain generation parameters
-    const geologicalComplexity = this.config.geologicalComplexity ?? 0.8
-    const domainWarping = this.config.domainWarping ?? 0.5
-    const reliefAmplitude = this.config.reliefAmplitude ?? 1.0
-    const featureScale = this.config.featureScale ?? 1.5
-    
-    // Generate base layers based on terrain type
-    const layers = this.advancedTerrainGenerator.getTerrainTypeLayers(type, geologicalComplexity, featureScale)
-    
-    for (let y = startY; y < endY; y++) {
-      for (let x = startX; x < endX; x++) {
-        const index = y * resolution + x
-        
-        // Improved coordinate transformation with slight offset to avoid center artifacts
-        const nx = (x / (resolution - 1)) * 2 - 1 + 0.001
-        const ny = (y / (resolution - 1)) * 2 - 1 + 0.001
-        
-        // Advanced domain warping controlled by domainWarping parameter
-        const warpStrength = domainWarping * 0.6
-        const warpScale = 0.3 + featureScale * 0.4
-        
-        const warpX = this.advancedTerrainGenerator.getNoiseSystem().perlin(nx * warpScale + 100, ny * warpScale + 200) * warpStrength
-        const warpY = this.advancedTerrainGenerator.getNoiseSystem().perlin(nx * warpScale + 300, ny * warpScale + 400) * warpStrength
-        
-        // Apply secondary warping for ultra-natural terrain when domain warping is high
-        let warpedX = nx + warpX
-        let warpedY = ny + warpY
-        
-        if (domainWarping > 0.7) {
-          const secondaryWarp = (domainWarping - 0.7) * 0.3
-          const secondaryScale = warpScale * 2
-          warpedX += this.advancedTerrainGenerator.getNoiseSystem().perlin(warpedX * secondaryScale + 500, warpedY * secondaryScale + 600) * secondaryWarp
-          warpedY += this.advancedTerrainGenerator.getNoiseSystem().perlin(warpedX * secondaryScale + 700, warpedY * secondaryScale + 800) * secondaryWarp
-        }
-        
-        // Generate terrain height using multi-scale composition
-        let height = this.advancedTerrainGenerator.getNoiseSystem().multiScaleNoise(warpedX, warpedY, layers)
-        
-        // Apply geological features
-        const config = this.advancedTerrainGenerator.getConfig()
-        if (config.mountainRanges.enabled) {
-          height += this.generateMountainRanges(warpedX, warpedY, featureScale) * geologicalComplexity
-        }
-        
-        if (config.valleys.enabled) {
-          height = this.carveValleys(warpedX, warpedY, height, geologicalComplexity * 0.7, featureScale)
-        }
-        
-        if (config.plateaus.enabled) {
-          height = this.addPlateaus(warpedX, warpedY, height, featureScale)
-        }
+  public async applyGalleryVariant(variant: GalleryVariant): Promise<void> {
+    await this.applyPreset(variant.config, this.terrainMorph)
+  }
+
+  /**
+   * Fallback single-threaded terrain generation
+   */
+  private async generateTerrainChunkedSingleThreaded(cancellationToken: CancellationToken): Promise<Float32Array> {
+    return this.syncCore().generate({
+      cancellationToken,
+      regionSize: this.chunkSize,
+      onProgress: (processedChunks, totalChunks) => {
+        if (processedChunks % 4 !== 0) return
         
-        if (config.coastalFeatures.enabled) {
-          height = this.addCoastalFeatures(warpedX, warpedY, height, featureScale)
+        const progress = 15 + (processedChunks / totalChunks * 70)
+        if (this.uiController && this.uiController.getProgressOverlay) {
+          const progressOverlay = this.uiController.getProgressOverlay()
+          progressOverlay.updateTask('terrain-generation', progress, `Processed ${processedChunks}/${totalChunks} chunks (single-threaded)...`)
         }
-        
-        // Intelligent micro-detail that scales with geological complexity and feature scale
-        const microDetailFreq = 6 + featureScale * 4
-        const microDetailAmp = (1 + geologicalComplexity) * featureScale * 0.8
-        const microDetail = this.advancedTerrainGenerator.getNoiseSystem().perlin(warpedX * microDetailFreq, warpedY * microDetailFreq) * microDetailAmp
-        height += microDetail
-        
-        // Apply master relief amplitude scaling
-        height *= reliefAmplitude
-        
-        heightData[index] = height
       }
+    })
+  }
+
+  /**
+   * Copy a generated chunk into the full height grid
+   */
+  private copyChunk(heightData: Float32Array, resolution: number, chunkData: Float32Array, startX: number, startY: number, endX: number, endY: number): void {
+    const chunkWidth = endX - startX
+    
+    for (let localY = 0; localY < endY - startY; localY++) {
+      heightData.set(chunkData.subarray(localY * chunkWidth, (localY + 1) * chunkWidth), (startY + localY) * resolution + startX)
     }
   }
 
   /**
-   * Apply layer adjustments in chunks to prevent stack overflow
+   * Remove the current terrain mesh from the scene and dispose its GPU resources
    */
-  private async applyLayerAdjustmentsChunked(baseHeightData: Float32Array): Promise<Float32Array> {
-    const { resolution } = this.config
-    const result = new Float32Array(baseHeightData.length)
+  private removeTerrainMesh(): void {
+    if (!this.terrain) return
+
+    this.scene.remove(this.terrain)
     
-    console.log('Applying layer adjustments in chunks...')
+    // Dispose geometry
+    if (this.terrain.geometry) {
+      this.terrain.geometry.dispose()
+    }
     
-    const chunksX = Math.ceil(resolution / this.chunkSize)
-    const chunksY = Math.ceil(resolution / this.chunkSize)
-    let processedChunks = 0
-    const totalChunks = chunksX * chunksY
-
-    // Apply a simple scaling factor for base layer weight changes
-    let baseScalingFactor = 1.0
-    if (this.baseLayerWeightOverrides.size > 0) {
-      const weights = Array.from(this.baseLayerWeightOverrides.values())
-      const avgWeight = weights.reduce((sum, w) => sum + w, 0) / weights.length
-      baseScalingFactor = avgWeight * 2
+    // Dispose materials
+    if (Array.isArray(this.terrain.material)) {
+      this.terrain.material.forEach((mat: THREE.Material) => mat.dispose())
+    } else if (this.terrain.material) {
+      (this.terrain.material as THREE.Material).dispose()
     }
     
-    for (let chunkY = 0; chunkY < chunksY; chunkY++) {
-      for (let chunkX = 0; chunkX < chunksX; chunkX++) {
-        // Calculate chunk bounds
-        const startX = chunkX * this.chunkSize
-        const startY = chunkY * this.chunkSize
-        const endX = Math.min(startX + this.chunkSize, resolution)
-        const endY = Math.min(startY + this.chunkSize, resolution)
-        
-        // Process this chunk
-        for (let y = startY; y < endY; y++) {
-          for (let x = startX; x < endX; x++) {
-            const index = y * resolution + x
-            
-            // Start with scaled base terrain
-            result[index] = baseHeightData[index] * baseScalingFactor
-            
-            // Apply each custom layer
-            for (const layer of this.customLayers) {
-              // Transform coordinates to noise space with slight offset to avoid center artifacts
-              const nx = (x / (resolution - 1)) * 2 - 1 + 0.001
-              const ny = (y / (resolution - 1)) * 2 - 1 + 0.001
-              
-              // Generate noise for this layer
-              const noise = this.advancedTerrainGenerator.getNoiseSystem().generateNoise(nx, ny, layer.type, layer.config)
-              
-              // Apply layer with its weight
-              result[index] += noise * layer.weight
-            }
-          }
-        }
-        
-        processedChunks++
-        
-        // Yield control every few chunks
-        if (processedChunks % 8 === 0) {
-          const progress = (processedChunks / totalChunks * 100).toFixed(1)
-          console.log(`Layer adjustment progress: ${progress}%`)
-          await this.yieldControl()
-        }
-      }
-    }
-    
-    console.log('Layer adjustments complete!')
-    return result
+    this.terrain = null
   }
 
   /**
@@ -1294,6 +1438,7 @@ export class TerrainBuilder {
     
     this.terrain.receiveShadow = true
     this.scene.add(this.terrain)
+    this.refreshWorldStreamer()
 
     // Update grid position to align with terrain center
     if (this.gridHelper) {
@@ -1301,6 +1446,7 @@ export class TerrainBuilder {
     }
 
     // Update brush system
+    this.brushSystem.setTileable(this.config.tileable)
     this.brushSystem.setTerrain(this.terrain, heightData, this.config.resolution)
     
     // Update noise preview to match current mode
@@ -1412,38 +1558,15 @@ export class TerrainBuilder {
     this.workers = []
     this.availableWorkers = []
     this.busyWorkers.clear()
-  }
-
-  // Helper methods for terrain generation (duplicated to avoid dependency on AdvancedTerrainGenerator internals)
-  private generateMountainRanges(x: number, y: number, featureScale: number): number {
-    // Simplified mountain range generation
-    const frequency = 0.5 / featureScale
-    const amplitude = 100
-    return this.advancedTerrainGenerator.getNoiseSystem().perlin(x * frequency, y * frequency) * amplitude
-  }
-
-  private carveValleys(x: number, y: number, height: number, valleyIntensity: number, featureScale: number): number {
-    const frequency = 0.3 / featureScale
-    const amplitude = 50
-    const valley = this.advancedTerrainGenerator.getNoiseSystem().perlin(x * frequency, y * frequency) * amplitude
-    return height - Math.max(0, -valley) * valleyIntensity
-  }
-
-  private addPlateaus(x: number, y: number, height: number, featureScale: number): number {
-    const plateauMask = this.advancedTerrainGenerator.getNoiseSystem().voronoiNoise(x, y, 0.4 / featureScale)
-    const smoothedPlateau = Math.pow(Math.max(0, 0.5 - plateauMask), 2.0)
-    return height + smoothedPlateau * 100
-  }
-
-  private addCoastalFeatures(_x: number, _y: number, height: number, _featureScale: number): number {
-    // Height-based coastal effects
-    if (height > -5 && height < 5) {
-      height = height * 0.3
-    }
-    return height
+    this.workerLayerStackVersions.clear()
   }
 
   public setMode(mode: EditorMode): void {
+    if (mode === 'brush' && this.worldStreamer) {
+      console.warn('Brushes edit the terrain, which is hidden while streaming the infinite world')
+      mode = 'orbit'
+    }
+    
     this.mode = mode
     this.controls.enabled = mode === 'orbit'
     
@@ -1483,7 +1606,7 @@ export class TerrainBuilder {
     // Debounce terrain regeneration to avoid excessive updates
     this.updateTimeout = setTimeout(async () => {
       try {
-        await this.generateTerrain()
+        await this.generateTerrain({ progressive: true })
       } catch (error) {
         console.error('Error generating terrain:', error)
         // Revert to old config on error
@@ -1498,15 +1621,55 @@ export class TerrainBuilder {
     return { ...this.config }
   }
 
+  /**
+   * Apply a TerrainPresets entry and regenerate: its settings replace the terrain controls,
+   * its feature toggles (mountain ranges, valleys, ...) go to the generator
+   */
+  public async applyPreset(preset: Partial<TerrainPreset>, morph: TerrainMorph | null = null): Promise<void> {
+    if (this.isGenerating) {
+      throw new Error('Cannot apply a preset while terrain is being generated')
+    }
+    
+    // A pending debounced regeneration would run with the old settings
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+      this.updateTimeout = null
+    }
+    
+    this.terrainMorph = morph ? structuredClone(morph) : null
+    this.syncCore().applyPreset(preset)
+    this.config = this.core.getConfig()
+    this.setResolution(this.config.resolution)
+    
+    await this.generateTerrain()
+  }
+
+  public getTerrainMorph(): TerrainMorph | null {
+    return this.terrainMorph
+  }
+
+  /**
+   * Drop the spatial preset morph and regenerate the plain configuration
+   */
+  public clearTerrainMorph(): void {
+    if (!this.terrainMorph) return
+    this.terrainMorph = null
+    this.generateTerrain().catch(console.error)
+  }
+
+  /**
+   * Capture the current settings and generator features as a new preset
+   */
+  public capturePreset(name: string, description: string = ''): TerrainPreset {
+    return this.syncCore().capturePreset(name, description)
+  }
+
   /**
    * Set terrain resolution with validation and automatic chunking for high resolutions
    */
   public setResolution(resolution: number): void {
     // Validate resolution - must be power of 2 for optimal performance
-    const validResolutions = [64, 128, 256, 512, 1024, 2048, 4096]
-    const closest = validResolutions.reduce((prev, curr) => 
-      Math.abs(curr - resolution) < Math.abs(prev - resolution) ? curr : prev
-    )
+    const closest = TerrainBuilder.nearestSupportedResolution(resolution)
     
     if (resolution !== closest) {
       console.warn(`Resolution ${resolution} adjusted to nearest valid value: ${closest}`)
@@ -1529,11 +1692,71 @@ export class TerrainBuilder {
     console.log(`Resolution set to ${closest}x${closest} with ${this.chunkSize}x${this.chunkSize} chunk processing`)
   }
 
+  /**
+   * Change the resolution of the current terrain keeping brush and erosion edits: the height
+   * field is resampled (bicubic up, area average down) instead of regenerated
+   */
+  public async resampleTerrain(resolution: number): Promise<void> {
+    if (this.isGenerating) {
+      throw new Error('Cannot resample while terrain is being generated')
+    }
+    if (!this.terrain) {
+      throw new Error('There is no terrain to resample yet')
+    }
+    
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+      this.updateTimeout = null
+    }
+    
+    this.isGenerating = true
+    const previousHeights = this.brushSystem.getHeightData()
+    const previousState = this.terrainState
+    const previousMesh = this.terrain
+    const sourceResolution = this.config.resolution
+    
+    try {
+      // Heights no longer match the settings after a resolution change that has not regenerated yet
+      const core = this.syncCore()
+      if (!core.hasHeightData()) {
+        throw new Error('The terrain does not match the current resolution, regenerate it first')
+      }
+      
+      const targetResolution = TerrainBuilder.nearestSupportedResolution(resolution)
+      const heightData = core.resample(targetResolution)
+      if (heightData.length !== targetResolution * targetResolution) {
+        throw new Error(`Resampling produced ${heightData.length} heights, expected ${targetResolution * targetResolution}`)
+      }
+      this.setResolution(targetResolution)
+      console.log(`Resampled terrain from ${sourceResolution}x${sourceResolution} to ${targetResolution}x${targetResolution}`)
+      
+      this.removeTerrainMesh()
+      await this.createTerrainMesh(heightData)
+      this.recordTerrainReplacement('Resample terrain', previousHeights, previousState)
+    } catch (error) {
+      // Put back the resolution and, if it was already replaced, the mesh
+      this.setResolution(sourceResolution)
+      if (this.terrain !== previousMesh) {
+        this.removeTerrainMesh()
+        await this.createTerrainMesh(previousHeights)
+      }
+      throw error
+    } finally {
+      this.isGenerating = false
+    }
+  }
+
+  private static nearestSupportedResolution(resolution: number): number {
+    return SUPPORTED_RESOLUTIONS.reduce((prev, curr) =>
+      Math.abs(curr - resolution) < Math.abs(prev - resolution) ? curr : prev
+    )
+  }
+
   /**
    * Get supported resolution options
    */
   public getSupportedResolutions(): number[] {
-    return [64, 128, 256, 512, 1024, 2048, 4096]
+    return SUPPORTED_RESOLUTIONS.slice()
   }
 
   /**
@@ -1595,21 +1818,237 @@ export class TerrainBuilder {
     this.renderer.setSize(width, height)
   }
 
-  public exportHeightmap(): string {
+  public async exportHeightmap(): Promise<string> {
     return this.advancedTerrainGenerator.exportHeightmapAsImage(
       this.brushSystem.getHeightData()
     )
   }
 
-  public exportProject(): string {
-    const projectData = {
-      config: this.config,
-      heightData: Array.from(this.brushSystem.getHeightData()),
-      seed: this.advancedTerrainGenerator.getSeed(),
-      timestamp: Date.now(),
-      version: '1.0.0'
+  /**
+   * Bring in external elevation data, either replacing the terrain or as a new custom layer
+   */
+  public async importHeightmap(heightmap: ImportedHeightmap, settings: HeightmapImportSettings): Promise<void> {
+    if (this.isGenerating) {
+      throw new Error('Cannot import a heightmap while terrain is being generated')
+    }
+    
+    if (settings.mode === 'layer') {
+      this.customLayers.push({
+        type: 'heightmap',
+        name: settings.name ?? 'Heightmap',
+        config: {},
+        heightmap: { width: heightmap.width, height: heightmap.height, data: heightmap.heights },
+        weight: settings.weight ?? 1,
+        blendMode: settings.blendMode ?? BlendMode.ADD
+      })
+      
+      // Regenerate terrain (this will trigger GUI update)
+      await this.generateTerrain()
+      return
+    }
+    
+    // Replace mode - the resampled heightmap becomes the terrain
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+      this.updateTimeout = null
+    }
+    
+    this.isGenerating = true
+    const previousHeights = this.terrain ? this.brushSystem.getHeightData() : null
+    const previousState = this.terrainState
+    
+    try {
+      if (heightmap.worldSize) {
+        this.config.size = heightmap.worldSize / 1000
+        this.advancedTerrainGenerator.updateConfig({ size: this.config.size })
+      }
+      
+      const heightData = HeightmapImporter.toResolution(heightmap, this.config.resolution)
+      console.log(`Imported ${heightmap.width}x${heightmap.height} heightmap, resampled to ${this.config.resolution}x${this.config.resolution}`)
+      
+      this.removeTerrainMesh()
+      await this.createTerrainMesh(heightData)
+      this.recordTerrainReplacement('Import heightmap', previousHeights, previousState)
+    } finally {
+      this.isGenerating = false
+    }
+  }
+
+  /**
+   * Export the current heights as PNG16/RAW R16/RAW R32 with min/max and world size metadata
+   */
+  public async exportHeightmapFile(options: HeightmapExportOptions): Promise<HeightmapExportResult> {
+    return this.syncCore().exportHeightmap(options)
+  }
+
+  /**
+   * Export the sculpted terrain as a binary glTF mesh, optionally decimated and tiled
+   */
+  public exportGLB(options: GLBExportOptions = {}): GLBExportResult {
+    return this.syncCore().exportGLB(options)
+  }
+
+  /**
+   * Export the terrain as OBJ with an MTL referencing color and height textures
+   */
+  public async exportOBJ(options: OBJExportOptions = {}): Promise<OBJExportResult> {
+    return this.syncCore().exportOBJ(options)
+  }
+
+  /**
+   * Export a watertight binary STL scaled to a physical print size in millimeters
+   */
+  public exportSTL(options: STLExportOptions = {}): STLExportResult {
+    return this.syncCore().exportSTL(options)
+  }
+
+  /**
+   * Bake soil/grass/rock/snow weights as an RGBA splatmap matching the material preview
+   */
+  public async exportSplatmap(fileName: string = 'splatmap.png'): Promise<SplatmapExportResult> {
+    const result = this.syncCore().createSplatmap({
+      parameters: this.terrainMaterial.getBlendParameters(),
+      noiseTexture: await this.loadSplatNoiseTexture(),
+      heightOffset: this.terrain ? this.terrain.position.y : undefined
+    })
+    console.log('Splatmap coverage:', result.coverage)
+    return this.core.exportSplatmap(result, fileName)
+  }
+
+  /**
+   * Bake a normal/slope/aspect/curvature/AO map from the current heights at real world scale
+   */
+  public async bakeMap(type: BakeMapType, options: BakeOptions = {}): Promise<{ map: BakedMap; png: Uint8Array }> {
+    const taskId = `bake-${type}`
+    if (this.uiController && this.uiController.getProgressOverlay) {
+      const progressOverlay = this.uiController.getProgressOverlay()
+      progressOverlay.startTask(taskId, 'Baking Map', `Baking ${type}...`)
+    }
+    
+    try {
+      const baked = await this.syncCore().bakeMap(type, {
+        ...options,
+        onProgress: (progress) => {
+          if (this.uiController && this.uiController.getProgressOverlay) {
+            const progressOverlay = this.uiController.getProgressOverlay()
+            progressOverlay.updateTask(taskId, Math.round(progress * 90), `Baking ${type}...`)
+          }
+          options.onProgress?.(progress)
+        }
+      })
+      
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        const progressOverlay = this.uiController.getProgressOverlay()
+        progressOverlay.completeTask(taskId)
+      }
+      return baked
+    } catch (error) {
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        this.uiController.getProgressOverlay().cancelTask(taskId)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Load the same simplex texture the material samples, falling back to its procedural noise
+   */
+  private async loadSplatNoiseTexture(): Promise<SplatNoiseTexture | undefined> {
+    if (this.splatNoiseTexture) return this.splatNoiseTexture
+
+    try {
+      const response = await fetch('noise/simplex.png')
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const bytes = new Uint8Array(await response.arrayBuffer())
+      this.splatNoiseTexture = await SplatmapGenerator.decodeNoiseTexture(bytes, 'noise/simplex.png')
+      return this.splatNoiseTexture
+    } catch (error) {
+      console.warn('Failed to load simplex noise for splatmap, using procedural fallback:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * Serialize the current session into the binary project format
+   */
+  public async exportProject(options: ProjectFileOptions = {}): Promise<ArrayBuffer> {
+    return this.syncCore().exportProject(options)
+  }
+
+  /**
+   * Restore a project written by exportProject(), including all sculpted heights.
+   * Older JSON projects (version 1.x) are still accepted.
+   */
+  public async importProject(project: ArrayBuffer | string): Promise<void> {
+    if (this.isGenerating) {
+      throw new Error('Cannot import a project while terrain is being generated')
+    }
+
+    const projectData = await TerrainCore.readProject(project, this.config)
+    
+    const { config } = projectData
+    if (!this.getSupportedResolutions().includes(config.resolution)) {
+      throw new Error(`Unsupported project resolution: ${config.resolution}`)
+    }
+    
+    // Cancel any pending debounced regeneration - it would overwrite the imported heights
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+      this.updateTimeout = null
+    }
+    
+    this.isGenerating = true
+    
+    const previousHeights = this.terrain ? this.brushSystem.getHeightData() : null
+    const previousState = this.terrainState
+    
+    if (this.uiController && this.uiController.getProgressOverlay) {
+      const progressOverlay = this.uiController.getProgressOverlay()
+      progressOverlay.startTask('project-import', 'Importing Project', 'Restoring terrain configuration...')
+    }
+    
+    try {
+      this.config = { ...this.config, ...config, seed: projectData.seed }
+      this.setResolution(this.config.resolution)
+      
+      this.customLayers = projectData.customLayers
+      this.baseLayerWeightOverrides = new Map(projectData.baseLayerWeightOverrides)
+      this.terrainGraph = projectData.terrainGraph ?? null
+      
+      this.restoreGeneratorState(projectData)
+      this.syncGeneratorConfig()
+      
+      if (projectData.erosionResults) {
+        this.erosionSystem.setErosionResults(projectData.erosionResults)
+      }
+      if (projectData.erosionConfig) {
+        this.erosionSystem.updateConfig(projectData.erosionConfig)
+      }
+      if (projectData.advancedErosionConfig) {
+        this.erosionSystem.updateAdvancedConfig(projectData.advancedErosionConfig)
+      }
+      
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        const progressOverlay = this.uiController.getProgressOverlay()
+        progressOverlay.updateTask('project-import', 50, 'Rebuilding terrain mesh...')
+      }
+      
+      this.removeTerrainMesh()
+      await this.createTerrainMesh(projectData.heightData)
+      this.recordTerrainReplacement('Import project', previousHeights, previousState)
+      
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        const progressOverlay = this.uiController.getProgressOverlay()
+        progressOverlay.completeTask('project-import')
+      }
+    } catch (error) {
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        this.uiController.getProgressOverlay().cancelTask('project-import')
+      }
+      throw error
+    } finally {
+      this.isGenerating = false
     }
-    return JSON.stringify(projectData, null, 2)
   }
 
   public randomizeSeed(): void {
@@ -1623,10 +2062,191 @@ export class TerrainBuilder {
     
     this.controls.update()
     this.brushSystem.update(this.camera)
+    this.worldStreamer?.update(this.controls.target)
     
     this.renderer.render(this.scene, this.camera)
   }
 
+  /**
+   * Undo the most recent brush stroke, erosion or regeneration
+   */
+  public async undo(): Promise<boolean> {
+    if (this.isGenerating || !this.history.canUndo()) return false
+    const entry = await this.history.undo(entry => this.swapHistoryEntry(entry))
+    if (entry) console.log(`↶ Undo: ${entry.label}`)
+    return entry !== null
+  }
+
+  /**
+   * Redo the most recently undone edit
+   */
+  public async redo(): Promise<boolean> {
+    if (this.isGenerating || !this.history.canRedo()) return false
+    const entry = await this.history.redo(entry => this.swapHistoryEntry(entry))
+    if (entry) console.log(`↷ Redo: ${entry.label}`)
+    return entry !== null
+  }
+
+  public canUndo(): boolean {
+    return this.history.canUndo()
+  }
+
+  public canRedo(): boolean {
+    return this.history.canRedo()
+  }
+
+  public getHistory(): TerrainHistory {
+    return this.history
+  }
+
+  /**
+   * Exchange a history entry's stored heights (and settings) with the live terrain
+   */
+  private async swapHistoryEntry(entry: HistoryEntry): Promise<void> {
+    const currentHeights = this.brushSystem.getHeightData()
+    
+    if (!entry.state) {
+      // Region edit - resolution cannot change without a full-terrain entry in between
+      const currentValues = TerrainHistory.captureRegion(currentHeights, this.config.resolution, entry.region)
+      this.brushSystem.setHeightRegion(entry.region, entry.values)
+      entry.values = currentValues
+      return
+    }
+    
+    // Full-terrain entry - restore the settings that produced the stored heights
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+      this.updateTimeout = null
+    }
+    
+    this.isGenerating = true
+    try {
+      const currentState = this.terrainState ?? this.captureHistoryState()
+      const currentResolution = this.config.resolution
+      
+      this.config = { ...entry.state.config }
+      this.customLayers = this.cloneCustomLayers(entry.state.customLayers)
+      this.baseLayerWeightOverrides = new Map(entry.state.baseLayerWeightOverrides)
+      this.terrainGraph = entry.state.terrainGraph ? TerrainGraph.clone(entry.state.terrainGraph) : null
+      this.restoreGeneratorState(entry.state)
+      this.setResolution(this.config.resolution)
+      this.syncGeneratorConfig()
+      
+      this.removeTerrainMesh()
+      await this.createTerrainMesh(entry.values)
+      this.terrainState = entry.state
+      
+      entry.values = currentHeights
+      entry.resolution = currentResolution
+      entry.region = TerrainHistory.fullRegion(currentResolution)
+      entry.state = currentState
+    } finally {
+      this.isGenerating = false
+    }
+    
+    if (this.uiController && this.uiController.syncUIWithTerrain) {
+      this.uiController.syncUIWithTerrain()
+    }
+  }
+
+  /**
+   * Record an in-place height edit (erosion, rivers) as the bounding box of changed samples
+   */
+  private recordHeightChange(label: string, previousHeights: Float32Array, newHeights: Float32Array): void {
+    const { resolution } = this.config
+    const region = TerrainHistory.diffRegion(previousHeights, newHeights, resolution)
+    if (!region) return
+    
+    this.history.push({
+      label,
+      resolution,
+      region,
+      values: TerrainHistory.captureRegion(previousHeights, resolution, region)
+    })
+  }
+
+  /**
+   * Record a full terrain replacement (regeneration, import) and remember the new settings
+   */
+  private recordTerrainReplacement(label: string, previousHeights: Float32Array | null, previousState: TerrainHistoryState | null): void {
+    if (previousHeights && previousState) {
+      this.history.push({
+        label,
+        resolution: previousState.config.resolution,
+        region: TerrainHistory.fullRegion(previousState.config.resolution),
+        values: previousHeights,
+        state: previousState
+      })
+    }
+    this.terrainState = this.captureHistoryState()
+  }
+
+  private captureHistoryState(): TerrainHistoryState {
+    return {
+      config: { ...this.config },
+      customLayers: this.cloneCustomLayers(this.customLayers),
+      baseLayerWeightOverrides: new Map(this.baseLayerWeightOverrides),
+      terrainGraph: this.terrainGraph ? TerrainGraph.clone(this.terrainGraph) : null,
+      generatorConfig: structuredClone(this.advancedTerrainGenerator.getConfig()),
+      terrainMorph: this.terrainMorph ? structuredClone(this.terrainMorph) : null
+    }
+  }
+
+  /**
+   * Put back the generator's preset features and the preset morph; the base fields follow
+   * from syncGeneratorConfig
+   */
+  private restoreGeneratorState(state: Pick<TerrainHistoryState, 'generatorConfig' | 'terrainMorph'>): void {
+    if (state.generatorConfig) {
+      this.advancedTerrainGenerator.updateConfig(structuredClone(state.generatorConfig))
+    }
+    this.terrainMorph = state.terrainMorph ? structuredClone(state.terrainMorph) : null
+  }
+
+  /**
+   * Deep-copy custom layers; imported heightmap data is immutable and shared
+   */
+  private cloneCustomLayers(layers: any[]): any[] {
+    return layers.map(layer => layer.heightmap
+      ? { ...structuredClone({ ...layer, heightmap: undefined }), heightmap: layer.heightmap }
+      : structuredClone(layer))
+  }
+
+  /**
+   * Hand the current settings, layers and sculpted heights to the headless core
+   */
+  private syncCore(): TerrainCore {
+    this.core.setState({
+      config: this.config,
+      customLayers: this.customLayers,
+      baseLayerWeightOverrides: this.baseLayerWeightOverrides,
+      terrainGraph: this.terrainGraph,
+      terrainMorph: this.terrainMorph
+    })
+    // The mesh still holds the old heights while a resolution change regenerates
+    const heightData = this.brushSystem.getHeightData()
+    if (this.terrain && heightData.length === this.config.resolution * this.config.resolution) {
+      this.core.setHeightData(heightData)
+    }
+    return this.core
+  }
+
+  /**
+   * Push the current config and seed into the terrain generator
+   */
+  private syncGeneratorConfig(): void {
+    this.advancedTerrainGenerator.setSeed(this.config.seed)
+    this.advancedTerrainGenerator.updateConfig({
+      size: this.config.size,
+      resolution: this.config.resolution,
+      geologicalComplexity: this.config.geologicalComplexity,
+      domainWarping: this.config.domainWarping,
+      reliefAmplitude: this.config.reliefAmplitude,
+      featureScale: this.config.featureScale,
+      tileable: this.config.tileable
+    })
+  }
+
   public dispose(): void {
     // Clear any pending update timeouts
     if (this.updateTimeout) {
@@ -1664,10 +2284,64 @@ export class TerrainBuilder {
     
     // Clean up worker pool
     this.destroyWorkerPool()
+    this.worldStreamer?.dispose()
     
     this.controls.dispose()
   }
 
+  /**
+   * Stream an infinite world of chunks around the camera target instead of showing the edited
+   * terrain, or go back to it with null. Chunks follow the generator settings and layer stack;
+   * brush and erosion edits stay on the edited terrain.
+   */
+  public setInfiniteWorld(options: WorldStreamOptions | null): void {
+    if (!options) {
+      this.worldStreamer?.dispose()
+      this.worldStreamer = null
+      this.worldStreamOptions = null
+      if (this.terrain) {
+        this.terrain.visible = true
+      }
+      return
+    }
+    
+    this.worldStreamOptions = { ...options }
+    this.worldStreamer ??= new WorldStreamer(this.scene, this.terrainMaterial.getMaterial())
+    this.setMode('orbit')
+    this.refreshWorldStreamer()
+  }
+
+  public isInfiniteWorld(): boolean {
+    return this.worldStreamer !== null
+  }
+
+  /**
+   * Restart chunk streaming with the current generator settings (after every regeneration)
+   */
+  private refreshWorldStreamer(): void {
+    if (!this.worldStreamer || !this.worldStreamOptions) return
+    
+    if (this.terrain) {
+      this.terrain.visible = false
+    }
+    
+    this.worldStreamer.configure({
+      config: this.advancedTerrainGenerator.getConfig(),
+      terrainType: this.config.terrainType,
+      // Copies, so edits before the next regeneration do not leak into half the chunks
+      layerStack: {
+        customLayers: this.cloneCustomLayers(this.customLayers),
+        baseLayerWeightOverrides: new Map(this.baseLayerWeightOverrides),
+        graph: this.terrainGraph ? TerrainGraph.clone(this.terrainGraph) : null,
+        morph: this.terrainMorph ? structuredClone(this.terrainMorph) : null
+      },
+      chunkResolution: this.worldStreamOptions.chunkResolution,
+      viewRadius: this.worldStreamOptions.viewRadius,
+      heightOffset: this.terrain ? this.terrain.position.y : 0,
+      erosion: this.worldStreamOptions.erosion ? this.erosionSystem.getConfig() : null
+    })
+  }
+
   public toggleGrid(visible?: boolean): void {
     if (this.gridHelper) {
       this.gridHelper.visible = visible !== undefined ? visible : !this.gridHelper.visible
@@ -1679,112 +2353,157 @@ export class TerrainBuilder {
   }
 
   // Erosion System Methods
-  public applyErosion(erosionConfig?: Partial<ErosionConfig>): void {
+  public async applyErosion(erosionConfig?: Partial<ErosionConfig>): Promise<void> {
     if (!this.terrain) {
       console.warn('No terrain available for erosion')
       return
     }
+    if (this.isGenerating) {
+      console.warn('Terrain is busy, erosion skipped')
+      return
+    }
 
     // Start erosion progress tracking
+    const cancellationToken = this.beginCancellableOperation()
     if (this.uiController && this.uiController.getProgressOverlay) {
       const progressOverlay = this.uiController.getProgressOverlay()
-      progressOverlay.startTask('erosion', 'Applying Erosion', 'Initializing erosion simulation...')
+      progressOverlay.startTask('erosion', 'Applying Erosion', 'Initializing erosion simulation...', () => cancellationToken.cancel())
     }
 
     // Optimize erosion config for high resolution terrains
-    const optimizedConfig = this.optimizeErosionConfig(erosionConfig)
+    const optimizedConfig = ErosionPresets.adaptToResolution(erosionConfig, this.config.resolution)
     
     // Update erosion config if provided
     if (optimizedConfig) {
       this.erosionSystem.updateConfig(optimizedConfig)
     }
 
-    // Get current height data from brush system
-    const currentHeightData = this.brushSystem.getHeightData()
+    // Snapshot current heights; the worker gets its own copy
+    const currentHeightData = this.brushSystem.getHeightData().slice()
     
     if (this.uiController && this.uiController.getProgressOverlay) {
       const progressOverlay = this.uiController.getProgressOverlay()
       progressOverlay.updateTask('erosion', 10, `Starting erosion on ${this.config.resolution}x${this.config.resolution} terrain...`)
     }
     
-    // Set up progress callback for erosion system
-    this.erosionSystem.setProgressCallback((progress: number, description: string) => {
+    this.isGenerating = true
+    try {
+      const response = await this.runErosionWorker('erosion', 'droplet', currentHeightData, {
+        config: this.erosionSystem.getConfig()
+      }, cancellationToken)
+      const erodedHeightData = response.heightData!
+      
       if (this.uiController && this.uiController.getProgressOverlay) {
         const progressOverlay = this.uiController.getProgressOverlay()
-        progressOverlay.updateTask('erosion', 10 + (progress * 0.8), description) // Map to 10-90%
+        progressOverlay.updateTask('erosion', 90, 'Updating terrain geometry...')
       }
-    })
-    
-    // Apply erosion
-    this.erosionSystem.setHeightData(currentHeightData, this.config.resolution)
-    const erodedHeightData = this.erosionSystem.applyErosion()
-    
-    if (this.uiController && this.uiController.getProgressOverlay) {
-      const progressOverlay = this.uiController.getProgressOverlay()
-      progressOverlay.updateTask('erosion', 90, 'Updating terrain geometry...')
-    }
-    
-    // Update terrain with eroded data
-    this.updateTerrainGeometry(erodedHeightData)
-    
-    // Update brush system with new height data
-    this.brushSystem.setTerrain(this.terrain!, erodedHeightData, this.config.resolution)
-    
-    // Complete erosion progress
-    if (this.uiController && this.uiController.getProgressOverlay) {
-      const progressOverlay = this.uiController.getProgressOverlay()
-      progressOverlay.completeTask('erosion')
+      
+      // Update terrain with eroded data
+      this.updateTerrainGeometry(erodedHeightData)
+      this.recordHeightChange('Erosion', currentHeightData, erodedHeightData)
+      
+      // Update brush system with new height data
+      this.brushSystem.setTerrain(this.terrain!, erodedHeightData, this.config.resolution)
+      
+      // Complete erosion progress
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        const progressOverlay = this.uiController.getProgressOverlay()
+        progressOverlay.completeTask('erosion')
+      }
+    } catch (error) {
+      // The terrain is untouched until the job completes, so a cancel needs no restore
+      if (isCancelledError(error)) {
+        console.log('Erosion cancelled')
+      } else {
+        console.error('Erosion failed:', error)
+      }
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        this.uiController.getProgressOverlay().cancelTask('erosion')
+      }
+    } finally {
+      this.endCancellableOperation(cancellationToken)
+      this.isGenerating = false
     }
   }
 
   /**
-   * Optimize erosion config for high resolution terrains - make it more aggressive for satisfying results
+   * Run an erosion job in a dedicated worker, mapping its progress to 10-90% of the task.
+   * Falls back to the main thread when workers are unavailable.
+   * Cancelling terminates the worker and rejects with a CancelledError.
    */
-  private optimizeErosionConfig(userConfig?: Partial<ErosionConfig>): Partial<ErosionConfig> | undefined {
-    if (!userConfig && this.config.resolution < 512) {
-      // No optimization needed for lower resolution
-      return userConfig
+  private runErosionWorker(
+    taskId: string,
+    model: ErosionModel,
+    heightData: Float32Array,
+    options: Pick<ErosionWorkerMessage['data'], 'config' | 'advancedConfig'>,
+    cancellationToken: CancellationToken
+  ): Promise<ErosionWorkerResponse['data']> {
+    if (cancellationToken.isCancelled) {
+      return Promise.reject(new CancelledError())
+    }
+    
+    const message: ErosionWorkerMessage = {
+      type: 'erode',
+      data: {
+        jobId: `${taskId}_${Date.now()}`,
+        model,
+        heightData: heightData.slice(),
+        resolution: this.config.resolution,
+        worldSize: this.config.size * 1000,
+        tileable: this.config.tileable,
+        ...options
+      }
     }
-
-    const optimized: Partial<ErosionConfig> = { ...userConfig }
     
-    // For high resolution terrains, make erosion more aggressive to get satisfying visual results
-    if (this.config.resolution >= 1024) {
-      // Increase erosion strength for high resolution (more dramatic results)
-      if (!userConfig?.erosionStrength) {
-        optimized.erosionStrength = Math.max(0.5, (userConfig?.erosionStrength || 0.3) * 1.5)
-      }
-      
-      // Increase rain strength for more aggressive erosion
-      if (!userConfig?.rainStrength) {
-        optimized.rainStrength = Math.max(0.03, (userConfig?.rainStrength || 0.02) * 1.2)
-      }
-      
-      // Increase sediment capacity for more carving
-      if (!userConfig?.sedimentCapacity) {
-        optimized.sedimentCapacity = Math.max(6.0, (userConfig?.sedimentCapacity || 4.0) * 1.5)
-      }
-      
-      // Reduce thermal rate slightly to preserve carved features
-      if (!userConfig?.thermalRate) {
-        optimized.thermalRate = Math.max(0.05, (userConfig?.thermalRate || 0.1) * 0.8)
+    const reportProgress = (progress: number, description: string) => {
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        const progressOverlay = this.uiController.getProgressOverlay()
+        progressOverlay.updateTask(taskId, 10 + (progress * 0.8), description) // Map to 10-90%
       }
+    }
+    
+    let worker: Worker
+    try {
+      worker = new Worker(new URL('./ErosionWorker.ts', import.meta.url), { type: 'module' })
+    } catch (error) {
+      console.warn('Failed to create erosion worker, eroding on the main thread:', error)
+      return runErosionJobYielding(message, () => this.yieldControl(), reportProgress, cancellationToken)
+        .then(response => response.data)
+    }
+    
+    return new Promise((resolve, reject) => {
+      const unsubscribe = cancellationToken.onCancel(() => {
+        worker.terminate()
+        reject(new CancelledError())
+      })
       
-      console.log(`⚡ High resolution detected - using aggressive erosion settings for dramatic results`)
-    } else if (this.config.resolution >= 512) {
-      // Medium boost for 512x512
-      if (!userConfig?.erosionStrength) {
-        optimized.erosionStrength = Math.max(0.4, (userConfig?.erosionStrength || 0.3) * 1.3)
+      worker.onmessage = (event: MessageEvent<ErosionWorkerResponse>) => {
+        const response = event.data
+        switch (response.type) {
+          case 'progress':
+            reportProgress(response.data.progress ?? 0, response.data.description ?? '')
+            break
+          case 'complete':
+            unsubscribe()
+            worker.terminate()
+            resolve(response.data)
+            break
+          case 'error':
+            unsubscribe()
+            worker.terminate()
+            reject(new Error(response.data.error))
+            break
+        }
       }
       
-      if (!userConfig?.rainStrength) {
-        optimized.rainStrength = Math.max(0.025, (userConfig?.rainStrength || 0.02) * 1.1)
+      worker.onerror = (error) => {
+        unsubscribe()
+        worker.terminate()
+        reject(error)
       }
       
-      console.log(`⚡ Medium resolution detected - using enhanced erosion settings`)
-    }
-
-    return optimized
+      worker.postMessage(message, [message.data.heightData.buffer])
+    })
   }
 
   public getErosionSystem(): ErosionSystem {
@@ -1813,12 +2532,14 @@ export class TerrainBuilder {
 
     // Apply river erosion
     const currentHeightData = this.brushSystem.getHeightData()
+    this.erosionSystem.setTileable(this.config.tileable)
     this.erosionSystem.setHeightData(currentHeightData, this.config.resolution)
     this.erosionSystem.createRiverErosion(gridStartX, gridStartY, gridEndX, gridEndY)
     
     // Get updated height data and update terrain
     const erodedHeightData = this.erosionSystem.applyErosion()
     this.updateTerrainGeometry(erodedHeightData)
+    this.recordHeightChange('Create river', currentHeightData, erodedHeightData)
     
     // Update brush system
     this.brushSystem.setTerrain(this.terrain!, erodedHeightData, this.config.resolution)
@@ -1899,105 +2620,118 @@ export class TerrainBuilder {
 
   // Preset erosion configurations
   public applyGentleErosion(): void {
-    this.applyErosion({
-      rainStrength: 0.01,
-      erosionStrength: 0.1,
-      iterations: 50,
-      thermalRate: 0.05
-    })
+    this.applyErosion(ErosionPresets.getDropletPreset('gentle'))
   }
 
   public applyStrongErosion(): void {
-    this.applyErosion({
-      rainStrength: 0.04,
-      erosionStrength: 0.6,
-      sedimentCapacity: 8.0,
-      iterations: 80,
-      thermalRate: 0.08,
-      dropletLifetime: 50
-    })
+    this.applyErosion(ErosionPresets.getDropletPreset('strong'))
   }
 
   public applyDramaticErosion(): void {
-    this.applyErosion({
-      rainStrength: 0.06,
-      erosionStrength: 0.8,
-      sedimentCapacity: 12.0,
-      iterations: 100,
-      thermalRate: 0.06,
-      dropletLifetime: 60,
-      gravity: 6.0
-    })
+    this.applyErosion(ErosionPresets.getDropletPreset('dramatic'))
   }
 
   public applyModerateErosion(): void {
-    this.applyErosion({
-      rainStrength: 0.02,
-      erosionStrength: 0.3,
-      iterations: 100,
-      thermalRate: 0.1
-    })
+    this.applyErosion(ErosionPresets.getDropletPreset('moderate'))
   }
 
   public applyIntenseErosion(): void {
-    this.applyErosion({
-      rainStrength: 0.04,
-      erosionStrength: 0.5,
-      iterations: 200,
-      thermalRate: 0.2
-    })
+    this.applyErosion(ErosionPresets.getDropletPreset('intense'))
   }
 
   public applyDesertErosion(): void {
-    this.applyErosion({
-      rainStrength: 0.005,
-      erosionStrength: 0.1,
-      thermalRate: 0.3,
-      angleOfRepose: 45,
-      iterations: 150
-    })
+    this.applyErosion(ErosionPresets.getDropletPreset('desert'))
   }
 
   public applyTropicalErosion(): void {
-    this.applyErosion({
-      rainStrength: 0.06,
-      erosionStrength: 0.4,
-      vegetationProtection: true,
-      riverbedErosion: 2.0,
-      iterations: 120
-    })
+    this.applyErosion(ErosionPresets.getDropletPreset('tropical'))
   }
 
   // Advanced Erosion System Methods - Ultra Realistic Geomorphology
-  public applyAdvancedErosion(config?: Partial<AdvancedErosionConfig>): void {
+  public async applyAdvancedErosion(config?: Partial<AdvancedErosionConfig>): Promise<void> {
     if (!this.terrain) {
       console.warn('No terrain available for advanced erosion')
       return
     }
+    if (this.isGenerating) {
+      console.warn('Terrain is busy, advanced erosion skipped')
+      return
+    }
 
     // Update config if provided
     if (config) {
       this.erosionSystem.updateAdvancedConfig(config)
     }
 
-    // Get current height data
-    const currentHeightData = this.brushSystem.getHeightData()
-    
-    // Apply advanced geomorphological erosion
-    this.erosionSystem.setHeightData(currentHeightData, this.config.resolution, this.config.size * 1000)
-    const erodedHeightData = this.erosionSystem.applyAdvancedErosion()
-    
-    // Update terrain with eroded data
-    this.updateTerrainGeometry(erodedHeightData)
+    const cancellationToken = this.beginCancellableOperation()
+    if (this.uiController && this.uiController.getProgressOverlay) {
+      const progressOverlay = this.uiController.getProgressOverlay()
+      progressOverlay.startTask('advanced-erosion', 'Geomorphological Evolution', 'Initializing stream-power simulation...', () => cancellationToken.cancel())
+    }
+
+    // Snapshot current heights; the worker gets its own copy
+    const currentHeightData = this.brushSystem.getHeightData().slice()
     
-    // Update brush system with new height data
-    this.brushSystem.setTerrain(this.terrain!, erodedHeightData, this.config.resolution)
+    this.isGenerating = true
+    try {
+      // Apply advanced geomorphological erosion
+      const response = await this.runErosionWorker('advanced-erosion', 'streamPower', currentHeightData, {
+        config: this.erosionSystem.getConfig(),
+        advancedConfig: this.erosionSystem.getAdvancedConfig()
+      }, cancellationToken)
+      const erodedHeightData = response.heightData!
+      if (response.erosionResults) {
+        this.erosionSystem.setErosionResults(response.erosionResults)
+      }
+      
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        const progressOverlay = this.uiController.getProgressOverlay()
+        progressOverlay.updateTask('advanced-erosion', 90, 'Updating terrain geometry...')
+      }
+      
+      // Update terrain with eroded data (copy, the erosion results keep the elevation raster)
+      const newHeightData = erodedHeightData.slice()
+      this.updateTerrainGeometry(newHeightData)
+      this.recordHeightChange('Advanced erosion', currentHeightData, newHeightData)
+      
+      // Update brush system with new height data
+      this.brushSystem.setTerrain(this.terrain!, newHeightData, this.config.resolution)
+      
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        const progressOverlay = this.uiController.getProgressOverlay()
+        progressOverlay.completeTask('advanced-erosion')
+      }
+    } catch (error) {
+      if (isCancelledError(error)) {
+        console.log('Advanced erosion cancelled')
+      } else {
+        console.error('Advanced erosion failed:', error)
+      }
+      if (this.uiController && this.uiController.getProgressOverlay) {
+        this.uiController.getProgressOverlay().cancelTask('advanced-erosion')
+      }
+    } finally {
+      this.endCancellableOperation(cancellationToken)
+      this.isGenerating = false
+    }
   }
 
   public getAdvancedErosionSystem(): ErosionSystem {
     return this.erosionSystem
   }
 
+  /**
+   * Seed both erosion models; runs with the same seed, terrain and settings are identical
+   */
+  public setErosionSeed(seed: number): void {
+    this.erosionSystem.updateConfig({ seed })
+    this.erosionSystem.updateAdvancedConfig({ seed })
+  }
+
+  public getErosionSeed(): number {
+    return this.erosionSystem.getConfig().seed
+  }
+
   public updateAdvancedErosionConfig(config: Partial<AdvancedErosionConfig>): void {
     this.erosionSystem.updateAdvancedConfig(config)
   }
@@ -2008,168 +2742,23 @@ export class TerrainBuilder {
 
   // Realistic geological preset erosions
   public applyRealisticMountainEvolution(): void {
-    this.applyAdvancedErosion({
-      streamPowerLaw: {
-        incisionConstant: 2e-6,
-        areaExponent: 0.5,
-        slopeExponent: 1.0,
-        criticalDrainage: 500
-      },
-      tectonics: {
-        upliftRate: 0.5, // active mountain building
-        upliftPattern: 'dome',
-        faultLines: []
-      },
-      climate: {
-        precipitation: 1500,
-        temperature: 5, // alpine climate
-        vegetationCover: 0.3,
-        seasonality: 0.3
-      },
-      advanced: {
-        enableMeandering: false, // mountains don't have large meandering rivers
-        enableMassWasting: true,
-        enableGlacialErosion: false,
-        enableChemicalWeathering: true,
-        enableKnickpointMigration: true,
-        timeStep: 50,
-        totalTime: 50000 // 50,000 years of evolution
-      }
-    })
+    this.applyAdvancedErosion(ErosionPresets.getGeologicalPreset('mountain'))
   }
 
   public applyRealisticRiverSystemEvolution(): void {
-    this.applyAdvancedErosion({
-      streamPowerLaw: {
-        incisionConstant: 1e-6,
-        areaExponent: 0.5,
-        slopeExponent: 1.0,
-        criticalDrainage: 1000
-      },
-      tectonics: {
-        upliftRate: 0.1, // slow, stable region
-        upliftPattern: 'uniform',
-        faultLines: []
-      },
-      climate: {
-        precipitation: 1200,
-        temperature: 15,
-        vegetationCover: 0.7,
-        seasonality: 0.2
-      },
-      advanced: {
-        enableMeandering: true,
-        enableMassWasting: false,
-        enableGlacialErosion: false,
-        enableChemicalWeathering: true,
-        enableKnickpointMigration: true,
-        timeStep: 100,
-        totalTime: 100000 // 100,000 years - longer for river development
-      }
-    })
+    this.applyAdvancedErosion(ErosionPresets.getGeologicalPreset('river_system'))
   }
 
   public applyRealisticDesertEvolution(): void {
-    this.applyAdvancedErosion({
-      streamPowerLaw: {
-        incisionConstant: 0.5e-6, // limited water erosion
-        areaExponent: 0.4,
-        slopeExponent: 1.2,
-        criticalDrainage: 2000 // larger drainage required for channels
-      },
-      diffusion: {
-        soilDiffusivity: 0.005, // limited soil
-        thermalDiffusivity: 0.002, // more thermal erosion
-        criticalSlope: 45 * Math.PI / 180 // steeper stable slopes
-      },
-      tectonics: {
-        upliftRate: 0.05, // very slow
-        upliftPattern: 'uniform',
-        faultLines: []
-      },
-      climate: {
-        precipitation: 200, // arid
-        temperature: 25,
-        vegetationCover: 0.1,
-        seasonality: 0.4 // high seasonality in desert
-      },
-      advanced: {
-        enableMeandering: false,
-        enableMassWasting: true,
-        enableGlacialErosion: false,
-        enableChemicalWeathering: false, // limited chemical weathering
-        enableKnickpointMigration: false,
-        timeStep: 200,
-        totalTime: 200000 // long-term arid evolution
-      }
-    })
+    this.applyAdvancedErosion(ErosionPresets.getGeologicalPreset('desert'))
   }
 
   public applyRealisticCoastalEvolution(): void {
-    this.applyAdvancedErosion({
-      streamPowerLaw: {
-        incisionConstant: 3e-6, // strong marine erosion
-        areaExponent: 0.6,
-        slopeExponent: 0.8,
-        criticalDrainage: 200
-      },
-      tectonics: {
-        upliftRate: 0.2,
-        upliftPattern: 'ridge', // coastal range
-        faultLines: []
-      },
-      climate: {
-        precipitation: 2000, // wet maritime climate
-        temperature: 12,
-        vegetationCover: 0.8,
-        seasonality: 0.1 // low seasonality in maritime climate
-      },
-      advanced: {
-        enableMeandering: true,
-        enableMassWasting: true,
-        enableGlacialErosion: false,
-        enableChemicalWeathering: true,
-        enableKnickpointMigration: true,
-        timeStep: 75,
-        totalTime: 75000
-      }
-    })
+    this.applyAdvancedErosion(ErosionPresets.getGeologicalPreset('coastal'))
   }
 
   public applyRealisticGlacialValleyEvolution(): void {
-    this.applyAdvancedErosion({
-      streamPowerLaw: {
-        incisionConstant: 5e-6, // enhanced by glacial processes
-        areaExponent: 0.3, // glacial flow is different
-        slopeExponent: 1.5,
-        criticalDrainage: 100
-      },
-      diffusion: {
-        soilDiffusivity: 0.02, // freeze-thaw enhanced
-        thermalDiffusivity: 0.005,
-        criticalSlope: 25 * Math.PI / 180 // glacial oversteepening
-      },
-      tectonics: {
-        upliftRate: 0.3,
-        upliftPattern: 'ridge',
-        faultLines: []
-      },
-      climate: {
-        precipitation: 1000,
-        temperature: -2, // below freezing
-        vegetationCover: 0.1,
-        seasonality: 0.5 // high seasonal variation
-      },
-      advanced: {
-        enableMeandering: false,
-        enableMassWasting: true,
-        enableGlacialErosion: true,
-        enableChemicalWeathering: false, // limited in cold
-        enableKnickpointMigration: false,
-        timeStep: 100,
-        totalTime: 100000
-      }
-    })
+    this.applyAdvancedErosion(ErosionPresets.getGeologicalPreset('glacial_valley'))
   }
 
   // Create realistic fault systems
@@ -2267,7 +2856,7 @@ export class TerrainBuilder {
     return this.advancedTerrainGenerator
   }
 
-  public exportAdvancedHeightmap(): string {
+  public async exportAdvancedHeightmap(): Promise<string> {
     if (this.config.advancedMode && this.terrain) {
       return this.advancedTerrainGenerator.exportHeightmapAsImage(
         this.brushSystem.getHeightData()
@@ -0,0 +1,90 @@
+/**
+ * Height-based vertex colors (soil → grass → rock → snow), shared by the brush
+ * preview colors and the mesh exporters
+ */
+
+export interface RGBColor {
+  r: number
+  g: number
+  b: number
+}
+
+// Define terrain height thresholds and colors
+const SOIL_COLOR: RGBColor = { r: 0.4, g: 0.3, b: 0.15 }    // Brown soil
+const GRASS_COLOR: RGBColor = { r: 0.3, g: 0.6, b: 0.2 }    // Green grass
+const ROCK_COLOR: RGBColor = { r: 0.5, g: 0.45, b: 0.4 }    // Gray rock
+const SNOW_COLOR: RGBColor = { r: 0.9, g: 0.95, b: 1.0 }    // White snow
+
+// Height thresholds (normalized 0-1)
+const GRASS_START = 0.1   // Grass starts above soil level
+const ROCK_START = 0.6    // Rock starts at higher elevations
+const SNOW_START = 0.85   // Snow appears at highest peaks
+
+// Transition smoothness
+const TRANSITION_WIDTH = 0.08
+
+/**
+ * Color for a height normalized to the terrain's min/max range
+ */
+export function calculateTerrainColor(normalizedHeight: number): RGBColor {
+  let finalColor = { ...SOIL_COLOR }
+
+  // Soil to Grass transition
+  if (normalizedHeight > GRASS_START - TRANSITION_WIDTH) {
+    const grassBlend = smoothstep(GRASS_START - TRANSITION_WIDTH, GRASS_START + TRANSITION_WIDTH, normalizedHeight)
+    finalColor = mixColors(SOIL_COLOR, GRASS_COLOR, grassBlend)
+  }
+
+  // Grass to Rock transition
+  if (normalizedHeight > ROCK_START - TRANSITION_WIDTH) {
+    const rockBlend = smoothstep(ROCK_START - TRANSITION_WIDTH, ROCK_START + TRANSITION_WIDTH, normalizedHeight)
+    finalColor = mixColors(finalColor, ROCK_COLOR, rockBlend)
+  }
+
+  // Rock to Snow transition
+  if (normalizedHeight > SNOW_START - TRANSITION_WIDTH) {
+    const snowBlend = smoothstep(SNOW_START - TRANSITION_WIDTH, SNOW_START + TRANSITION_WIDTH, normalizedHeight)
+    finalColor = mixColors(finalColor, SNOW_COLOR, snowBlend)
+  }
+
+  // Add slight height-based lighting variation
+  const lightingFactor = 0.85 + normalizedHeight * 0.3
+
+  return {
+    r: Math.min(1.0, finalColor.r * lightingFactor),
+    g: Math.min(1.0, finalColor.g * lightingFactor),
+    b: Math.min(1.0, finalColor.b * lightingFactor)
+  }
+}
+
+/**
+ * Fill an RGB float array (3 values per sample) with colors for every height
+ */
+export function calculateTerrainColors(heightData: Float32Array, minHeight: number, maxHeight: number, target?: Float32Array): Float32Array {
+  const colors = target ?? new Float32Array(heightData.length * 3)
+
+  for (let i = 0; i < heightData.length; i++) {
+    const normalizedHeight = maxHeight > minHeight ?
+      (heightData[i] - minHeight) / (maxHeight - minHeight) : 0.5
+    const color = calculateTerrainColor(normalizedHeight)
+
+    colors[i * 3] = color.r     // R
+    colors[i * 3 + 1] = color.g // G
+    colors[i * 3 + 2] = color.b // B
+  }
+
+  return colors
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)))
+  return t * t * (3 - 2 * t)
+}
+
+function mixColors(color1: RGBColor, color2: RGBColor, factor: number): RGBColor {
+  return {
+    r: color1.r + (color2.r - color1.r) * factor,
+    g: color1.g + (color2.g - color1.g) * factor,
+    b: color1.b + (color2.b - color1.b) * factor
+  }
+}
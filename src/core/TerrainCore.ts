@@ -0,0 +1,592 @@
+/**
+ * DOM-free terrain session: generation settings, the layer stack, heights, brushes on raw
+ * height arrays, erosion and every import/export format
+ *
+ * Nothing here touches the DOM, WebGPU or workers, so it runs under plain Node as well as in
+ * the browser. The editor (TerrainBuilder) keeps its settings in one of these and adds the
+ * mesh, the worker pool, undo history and the UI on top.
+ */
+
+import { AdvancedTerrainGenerator, TerrainType, BlendMode, TerrainLayer, TerrainLayerStack, TerrainMorph } from './AdvancedTerrainGenerator'
+import { ErosionSystem, ErosionConfig, AdvancedErosionConfig } from './ErosionSystem'
+import { runErosionJob, ErosionModel } from './ErosionWorker'
+import { HeightBrush, BrushSettings } from './HeightBrush'
+import { HeightRegion, TerrainHistoryState } from './TerrainHistory'
+import { TerrainGraph, TerrainGraphData } from './TerrainGraph'
+import { CancellationToken } from './CancellationToken'
+import { ProjectFile, ProjectFileData, ProjectFileOptions } from './ProjectFile'
+import { HeightmapImporter, ImportedHeightmap } from './HeightmapImporter'
+import { HeightmapExporter, HeightmapExportOptions, HeightmapExportResult } from './HeightmapExporter'
+import { GLBExporter, GLBExportOptions, GLBExportResult } from './GLBExporter'
+import { OBJExporter, OBJExportOptions, OBJExportResult } from './OBJExporter'
+import { STLExporter, STLExportOptions, STLExportResult } from './STLExporter'
+import { SplatmapGenerator, SplatmapOptions, SplatmapResult, SplatmapExportResult } from './SplatmapGenerator'
+import { TerrainBaker, BakeMapType, BakeOptions, BakedMap } from './TerrainBaker'
+import { TerrainPreset } from './TerrainPresets'
+import { Resampler } from './Resampler'
+
+export interface TerrainConfig {
+  size: number // Size in kilometers
+  resolution: number // Vertices per side
+  seed: number
+  // Redesigned advanced terrain controls
+  geologicalComplexity: number // 0.0-2.0: Controls multi-scale noise layering intensity
+  domainWarping: number // 0.0-1.0: Controls natural terrain flow and organic appearance
+  reliefAmplitude: number // 0.2-4.0: Master height scaling with geological context
+  featureScale: number // 0.1-3.0: Controls size/frequency of geological features
+  terrainType: TerrainType
+  tileable: boolean // Opposite edges match so the terrain repeats seamlessly
+  // Advanced mode settings
+  advancedMode: boolean
+}
+
+export interface LegacyProjectData {
+  config: TerrainConfig
+  heightData: number[]
+  seed: number
+  timestamp: number
+  version: string
+}
+
+const LEGACY_PROJECT_VERSION = '1.0.0'
+
+export interface HeightmapImportSettings {
+  // Replace the terrain outright or add the heightmap to the layer stack
+  mode: 'replace' | 'layer'
+  blendMode?: BlendMode
+  weight?: number
+  name?: string
+}
+
+// Preset fields that are session settings; the rest shapes the generator
+const PRESET_CONFIG_KEYS = ['size', 'resolution', 'seed', 'geologicalComplexity', 'domainWarping', 'reliefAmplitude', 'featureScale'] as const
+
+// Resolutions the editor offers; the core itself accepts any grid of at least 2x2
+export const SUPPORTED_RESOLUTIONS = [64, 128, 256, 512, 1024, 2048, 4096]
+
+export interface TerrainGenerationOptions {
+  cancellationToken?: CancellationToken
+  onProgress?: (processedRegions: number, totalRegions: number) => void
+  regionSize?: number // samples per region side, default 64
+}
+
+export interface TerrainErosionOptions {
+  cancellationToken?: CancellationToken
+  onProgress?: (progress: number, description: string) => void // progress 0-100
+}
+
+export class TerrainCore {
+  private config: TerrainConfig
+  private generator: AdvancedTerrainGenerator
+  private erosionSystem: ErosionSystem = new ErosionSystem()
+
+  private customLayers: any[] = []
+  private baseLayerWeightOverrides: Map<number, number> = new Map()
+  private terrainGraph: TerrainGraphData | null = null // Replaces the layer stack's output when set
+  private terrainMorph: TerrainMorph | null = null // Second configuration blended in across the map
+  private heightData: Float32Array | null = null
+
+  constructor(config: Partial<TerrainConfig> = {}) {
+    this.config = { ...TerrainCore.defaultConfig(), ...config }
+    this.generator = new AdvancedTerrainGenerator()
+    this.syncGenerator()
+  }
+
+  /**
+   * Settings of a new session, with a random seed
+   */
+  public static defaultConfig(): TerrainConfig {
+    return {
+      size: 1, // 1km
+      resolution: 1024, // Standard power of 2 resolution - supports up to 4096x4096 safely
+      seed: Math.floor(Math.random() * 1000000),
+      // Redesigned advanced terrain controls
+      geologicalComplexity: 1.0,
+      domainWarping: 0.5,
+      reliefAmplitude: 2.0,
+      featureScale: 1.5,
+      terrainType: TerrainType.CONTINENTAL,
+      tileable: false,
+      // Advanced mode settings
+      advancedMode: true
+    }
+  }
+
+  public getConfig(): TerrainConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Change settings. Existing heights stay until the next generate(); a resolution change drops them.
+   */
+  public updateConfig(config: Partial<TerrainConfig>): void {
+    if (config.resolution !== undefined && config.resolution < 2) {
+      throw new Error(`Resolution must be at least 2, got ${config.resolution}`)
+    }
+
+    // Weight overrides index the terrain type's base layers, they do not carry over
+    if (config.terrainType !== undefined && config.terrainType !== this.config.terrainType) {
+      this.baseLayerWeightOverrides.clear()
+    }
+    if (config.resolution !== undefined && config.resolution !== this.config.resolution) {
+      this.heightData = null
+    }
+
+    this.config = { ...this.config, ...config }
+    this.syncGenerator()
+  }
+
+  /**
+   * Adopt a TerrainPresets entry (or part of one): sizes and shaping controls become the
+   * settings, feature toggles such as mountain ranges and valleys go to the generator
+   */
+  public applyPreset(preset: Partial<TerrainPreset>): void {
+    const { name: _name, description: _description, ...generatorConfig } = preset
+    this.generator.updateConfig(generatorConfig)
+
+    const config: Partial<TerrainConfig> = {}
+    for (const key of PRESET_CONFIG_KEYS) {
+      if (preset[key] !== undefined) config[key] = preset[key]
+    }
+    this.updateConfig(config)
+  }
+
+  /**
+   * The current settings and generator features as a preset
+   */
+  public capturePreset(name: string, description: string = ''): TerrainPreset {
+    return { ...structuredClone(this.generator.getConfig()), name, description }
+  }
+
+  /**
+   * Settings, layers, node graph, generator features and preset morph, as stored with undo history entries
+   */
+  public getState(): TerrainHistoryState {
+    return {
+      config: { ...this.config },
+      customLayers: this.customLayers,
+      baseLayerWeightOverrides: this.baseLayerWeightOverrides,
+      terrainGraph: this.terrainGraph,
+      generatorConfig: this.generator.getConfig(),
+      terrainMorph: this.terrainMorph
+    }
+  }
+
+  /**
+   * Adopt settings, layers, node graph, generator features and preset morph; only the config is copied,
+   * so later resolution changes on either side stay separate
+   */
+  public setState(state: TerrainHistoryState): void {
+    if (state.config.resolution !== this.config.resolution) {
+      this.heightData = null
+    }
+    this.config = { ...state.config }
+    this.customLayers = state.customLayers
+    this.baseLayerWeightOverrides = state.baseLayerWeightOverrides
+    this.terrainGraph = state.terrainGraph
+    this.terrainMorph = state.terrainMorph ?? null
+    if (state.generatorConfig) {
+      this.generator.updateConfig(state.generatorConfig)
+    }
+    this.syncGenerator()
+  }
+
+  public getGenerator(): AdvancedTerrainGenerator {
+    return this.generator
+  }
+
+  /**
+   * Holds the erosion settings and the results of the last stream-power run
+   */
+  public getErosionSystem(): ErosionSystem {
+    return this.erosionSystem
+  }
+
+  // Layers
+
+  public getCustomLayers(): any[] {
+    return this.customLayers.slice()
+  }
+
+  /**
+   * Append a custom layer; it takes effect with the next generate(). Returns its index.
+   */
+  public addLayer(layer: TerrainLayer & { name?: string }): number {
+    this.customLayers.push(layer)
+    return this.customLayers.length - 1
+  }
+
+  public removeLayer(index: number): void {
+    this.requireLayer(index)
+    this.customLayers.splice(index, 1)
+  }
+
+  public updateLayer(index: number, changes: Partial<TerrainLayer>): void {
+    this.requireLayer(index)
+    this.customLayers[index] = { ...this.customLayers[index], ...changes }
+  }
+
+  /**
+   * Override the weight of one of the terrain type's built-in layers
+   */
+  public setBaseLayerWeight(index: number, weight: number): void {
+    this.baseLayerWeightOverrides.set(index, weight)
+  }
+
+  public getTerrainGraph(): TerrainGraphData | null {
+    return this.terrainGraph
+  }
+
+  /**
+   * Compose the terrain with a node graph, or go back to the layer stack with null
+   */
+  public setTerrainGraph(graph: TerrainGraphData | null): void {
+    if (graph) {
+      TerrainGraph.validate(graph)
+    }
+    this.terrainGraph = graph ? TerrainGraph.clone(graph) : null
+  }
+
+  public getTerrainMorph(): TerrainMorph | null {
+    return this.terrainMorph
+  }
+
+  /**
+   * Blend the generated terrain into `morph.target` along its gradient, or stop with null
+   * (see PresetMorph.createMorph)
+   */
+  public setTerrainMorph(morph: TerrainMorph | null): void {
+    this.terrainMorph = morph
+  }
+
+  /**
+   * Custom layers, base-layer weight overrides, the node graph and the preset morph, as the generator consumes them
+   */
+  public getLayerStack(): TerrainLayerStack {
+    return {
+      customLayers: this.customLayers,
+      baseLayerWeightOverrides: this.baseLayerWeightOverrides,
+      graph: this.terrainGraph,
+      morph: this.terrainMorph
+    }
+  }
+
+  // Heights
+
+  public hasHeightData(): boolean {
+    return this.heightData !== null
+  }
+
+  /**
+   * Current heights in meters, row-major resolution x resolution. Edits go through this array.
+   */
+  public getHeightData(): Float32Array {
+    if (!this.heightData) {
+      throw new Error('No terrain heights yet, generate or import a terrain first')
+    }
+    return this.heightData
+  }
+
+  /**
+   * Adopt heights for the configured resolution (not copied)
+   */
+  public setHeightData(heightData: Float32Array): void {
+    const { resolution } = this.config
+    if (heightData.length !== resolution * resolution) {
+      throw new Error(`Height data size mismatch. Expected ${resolution * resolution}, got ${heightData.length}`)
+    }
+    this.heightData = heightData
+  }
+
+  /**
+   * Change the resolution keeping the current heights, brush and erosion edits included:
+   * bicubic when enlarging, area average when shrinking (Resampler.resample)
+   */
+  public resample(resolution: number): Float32Array {
+    const heightData = this.getHeightData()
+    const source = this.config.resolution
+    if (resolution < 2) {
+      throw new Error(`Resolution must be at least 2, got ${resolution}`)
+    }
+
+    this.config = { ...this.config, resolution }
+    this.syncGenerator()
+    this.heightData = resolution === source
+      ? heightData
+      : Resampler.resample(heightData, source, source, resolution, resolution)
+    return this.heightData
+  }
+
+  /**
+   * Generate heights from the settings and layer stack, region by region so long runs can be
+   * cancelled and report progress
+   */
+  public async generate(options: TerrainGenerationOptions = {}): Promise<Float32Array> {
+    const { resolution, terrainType } = this.config
+    const regionSize = Math.max(1, options.regionSize ?? 64)
+    const heightData = new Float32Array(resolution * resolution)
+    const context = this.generator.createSampleContext(terrainType, this.getLayerStack())
+
+    const regionsPerSide = Math.ceil(resolution / regionSize)
+    const totalRegions = regionsPerSide * regionsPerSide
+    let processedRegions = 0
+
+    for (let startY = 0; startY < resolution; startY += regionSize) {
+      for (let startX = 0; startX < resolution; startX += regionSize) {
+        options.cancellationToken?.throwIfCancelled()
+
+        const endX = Math.min(startX + regionSize, resolution)
+        const endY = Math.min(startY + regionSize, resolution)
+        const region = this.generator.generateRegion(context, startX, startY, endX, endY)
+        for (let y = startY; y < endY; y++) {
+          heightData.set(region.subarray((y - startY) * (endX - startX), (y - startY + 1) * (endX - startX)), y * resolution + startX)
+        }
+
+        processedRegions++
+        options.onProgress?.(processedRegions, totalRegions)
+
+        // Let the browser breathe between batches of regions
+        if (processedRegions % 4 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0))
+        }
+      }
+    }
+
+    this.heightData = heightData
+    return heightData
+  }
+
+  // Brushes
+
+  /**
+   * One brush dab centred on grid sample (x, z), see HeightBrush.apply().
+   * HeightBrush.worldToGrid() converts scene positions.
+   */
+  public applyBrush(x: number, z: number, settings: BrushSettings, flattenHeight?: number): HeightRegion | null {
+    const target = {
+      heightData: this.getHeightData(),
+      resolution: this.config.resolution,
+      worldSize: this.config.size * 1000,
+      tileable: this.config.tileable
+    }
+    return HeightBrush.apply(target, x, z, settings, flattenHeight ?? HeightBrush.heightAt(target, x, z))
+  }
+
+  // Erosion
+
+  /**
+   * Droplet erosion with the session's erosion settings (overridden by `config`)
+   */
+  public erode(config: Partial<ErosionConfig> = {}, options: TerrainErosionOptions = {}): Float32Array {
+    this.erosionSystem.updateConfig(config)
+    return this.runErosion('droplet', options)
+  }
+
+  /**
+   * Stream-power landscape evolution; its rasters are kept for getErosionSystem().getErosionResults()
+   */
+  public erodeAdvanced(config: Partial<AdvancedErosionConfig> = {}, options: TerrainErosionOptions = {}): Float32Array {
+    this.erosionSystem.updateAdvancedConfig(config)
+    return this.runErosion('streamPower', options)
+  }
+
+  private runErosion(model: ErosionModel, options: TerrainErosionOptions): Float32Array {
+    const response = runErosionJob({
+      type: 'erode',
+      data: {
+        jobId: `${model}_${Date.now()}`,
+        model,
+        heightData: this.getHeightData().slice(),
+        resolution: this.config.resolution,
+        worldSize: this.config.size * 1000,
+        tileable: this.config.tileable,
+        config: this.erosionSystem.getConfig(),
+        advancedConfig: model === 'streamPower' ? this.erosionSystem.getAdvancedConfig() : undefined
+      }
+    }, options.onProgress, options.cancellationToken)
+
+    if (response.data.erosionResults) {
+      this.erosionSystem.setErosionResults(response.data.erosionResults)
+    }
+    this.heightData = response.data.heightData!
+    return this.heightData
+  }
+
+  // Import
+
+  /**
+   * Bring in external elevation data. Replace mode resamples it into the heights (adopting its
+   * world size), layer mode adds it to the layer stack for the next generate().
+   */
+  public importHeightmap(heightmap: ImportedHeightmap, settings: HeightmapImportSettings): void {
+    if (settings.mode === 'layer') {
+      this.customLayers.push({
+        type: 'heightmap',
+        name: settings.name ?? 'Heightmap',
+        config: {},
+        heightmap: { width: heightmap.width, height: heightmap.height, data: heightmap.heights },
+        weight: settings.weight ?? 1,
+        blendMode: settings.blendMode ?? BlendMode.ADD
+      })
+      return
+    }
+
+    if (heightmap.worldSize) {
+      this.updateConfig({ size: heightmap.worldSize / 1000 })
+    }
+    this.heightData = HeightmapImporter.toResolution(heightmap, this.config.resolution)
+  }
+
+  /**
+   * Restore a project file, heights included
+   */
+  public async importProject(project: ArrayBuffer | string): Promise<void> {
+    const projectData = await TerrainCore.readProject(project, this.config)
+    this.setState({
+      config: { ...this.config, ...projectData.config, seed: projectData.seed },
+      customLayers: projectData.customLayers,
+      baseLayerWeightOverrides: new Map(projectData.baseLayerWeightOverrides),
+      terrainGraph: projectData.terrainGraph ?? null,
+      generatorConfig: projectData.generatorConfig,
+      terrainMorph: projectData.terrainMorph ?? null
+    })
+    this.setHeightData(projectData.heightData)
+
+    if (projectData.erosionResults) {
+      this.erosionSystem.setErosionResults(projectData.erosionResults)
+    }
+    if (projectData.erosionConfig) {
+      this.erosionSystem.updateConfig(projectData.erosionConfig)
+    }
+    if (projectData.advancedErosionConfig) {
+      this.erosionSystem.updateAdvancedConfig(projectData.advancedErosionConfig)
+    }
+  }
+
+  /**
+   * Decode a binary project, or an older JSON project (version 1.x) on top of `baseConfig`
+   */
+  public static async readProject(project: ArrayBuffer | string, baseConfig: TerrainConfig): Promise<ProjectFileData> {
+    if (typeof project !== 'string' && ProjectFile.isProjectFile(project)) {
+      return ProjectFile.decode(project)
+    }
+
+    const json = typeof project === 'string' ? project : new TextDecoder().decode(project)
+    return TerrainCore.parseLegacyProject(json, baseConfig)
+  }
+
+  /**
+   * Convert a pretty-printed JSON project (format 1.x) into project data
+   */
+  private static parseLegacyProject(json: string, baseConfig: TerrainConfig): ProjectFileData {
+    const projectData = JSON.parse(json) as Partial<LegacyProjectData>
+
+    // Only accept files written by a compatible major version
+    if (typeof projectData.version !== 'string' || projectData.version.split('.')[0] !== LEGACY_PROJECT_VERSION.split('.')[0]) {
+      throw new Error(`Unsupported project version: ${projectData.version ?? 'missing'} (expected ${LEGACY_PROJECT_VERSION})`)
+    }
+    if (!projectData.config || !Array.isArray(projectData.heightData)) {
+      throw new Error('Project file is missing config or height data')
+    }
+
+    const config: TerrainConfig = { ...baseConfig, ...projectData.config }
+    if (projectData.heightData.length !== config.resolution * config.resolution) {
+      throw new Error(`Height data size mismatch. Expected ${config.resolution * config.resolution}, got ${projectData.heightData.length}`)
+    }
+
+    // Layer adjustments were not stored in 1.x files, the heights already contain them
+    return {
+      config,
+      seed: projectData.seed ?? config.seed,
+      timestamp: projectData.timestamp ?? Date.now(),
+      customLayers: [],
+      baseLayerWeightOverrides: new Map(),
+      heightData: Float32Array.from(projectData.heightData)
+    }
+  }
+
+  // Export
+
+  /**
+   * Serialize settings, layers, heights and erosion state into the binary project format
+   */
+  public async exportProject(options: ProjectFileOptions = {}): Promise<ArrayBuffer> {
+    return ProjectFile.encode({
+      config: this.config,
+      seed: this.generator.getSeed(),
+      timestamp: Date.now(),
+      customLayers: this.customLayers,
+      baseLayerWeightOverrides: this.baseLayerWeightOverrides,
+      heightData: this.getHeightData(),
+      erosionResults: this.erosionSystem.getErosionResults(),
+      erosionConfig: this.erosionSystem.getConfig(),
+      advancedErosionConfig: this.erosionSystem.getAdvancedConfig(),
+      terrainGraph: this.terrainGraph,
+      generatorConfig: this.generator.getConfig(),
+      terrainMorph: this.terrainMorph
+    }, options)
+  }
+
+  /**
+   * PNG16/RAW R16/RAW R32 with min/max and world size metadata
+   */
+  public async exportHeightmap(options: HeightmapExportOptions): Promise<HeightmapExportResult> {
+    return HeightmapExporter.export(this.getHeightData(), this.config.resolution, this.config.size * 1000, options)
+  }
+
+  public exportGLB(options: GLBExportOptions = {}): GLBExportResult {
+    return GLBExporter.export(this.getHeightData(), this.config.resolution, this.config.size * 1000, options)
+  }
+
+  public async exportOBJ(options: OBJExportOptions = {}): Promise<OBJExportResult> {
+    return OBJExporter.export(this.getHeightData(), this.config.resolution, this.config.size * 1000, options)
+  }
+
+  public exportSTL(options: STLExportOptions = {}): STLExportResult {
+    return STLExporter.export(this.getHeightData(), this.config.resolution, this.config.size * 1000, options)
+  }
+
+  /**
+   * Soil/grass/rock/snow weights per sample, as the material blends them
+   */
+  public createSplatmap(options: SplatmapOptions = {}): SplatmapResult {
+    return SplatmapGenerator.generate(this.getHeightData(), this.config.resolution, this.config.size * 1000, options)
+  }
+
+  /**
+   * RGBA splatmap PNG with its JSON manifest
+   */
+  public async exportSplatmap(splatmap: SplatmapResult, fileName: string = 'splatmap.png'): Promise<SplatmapExportResult> {
+    return SplatmapGenerator.export(splatmap, this.config.size * 1000, fileName)
+  }
+
+  /**
+   * Normal/slope/aspect/curvature/AO map at real world scale, with its 16-bit PNG
+   */
+  public async bakeMap(type: BakeMapType, options: BakeOptions = {}): Promise<{ map: BakedMap; png: Uint8Array }> {
+    const map = await TerrainBaker.bake(this.getHeightData(), this.config.resolution, this.config.size * 1000, type, options)
+    return { map, png: await TerrainBaker.encodePNG(map) }
+  }
+
+  private requireLayer(index: number): void {
+    if (index < 0 || index >= this.customLayers.length) {
+      throw new Error(`No custom layer at index ${index}`)
+    }
+  }
+
+  /**
+   * Push the settings and seed into the terrain generator
+   */
+  private syncGenerator(): void {
+    this.generator.setSeed(this.config.seed)
+    this.generator.updateConfig({
+      size: this.config.size,
+      resolution: this.config.resolution,
+      geologicalComplexity: this.config.geologicalComplexity,
+      domainWarping: this.config.domainWarping,
+      reliefAmplitude: this.config.reliefAmplitude,
+      featureScale: this.config.featureScale,
+      tileable: this.config.tileable
+    })
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Node-graph terrain composition
+ *
+ * A graph is a DAG of typed nodes stored as plain JSON, so it can be saved in
+ * projects and posted to terrain workers unchanged. Every node produces one
+ * height (or mask) value per grid sample; TerrainGraphEvaluator computes them.
+ *
+ * Node types:
+ *   generators  'terrain' (the terrain type with its layer stack), 'noise.<NoiseType>'
+ *   filters     'terrace', 'clamp', 'curve', 'blur', 'erosion'
+ *   combiners   'blend.<BlendMode>', 'min', 'max', 'lerp'
+ *   masks       'mask.elevation', 'mask.slope', 'mask.painted' (0..1)
+ *   'output'    the graph result
+ */
+
+import { BlendMode } from './AdvancedTerrainGenerator'
+import { NoiseType } from './AdvancedNoiseSystem'
+
+export const TERRAIN_GRAPH_VERSION = 1
+
+export type GraphNodeCategory = 'generator' | 'filter' | 'combiner' | 'mask' | 'output'
+
+export type GraphNodeType =
+  | 'terrain'
+  | `noise.${NoiseType}`
+  | 'terrace' | 'clamp' | 'curve' | 'blur' | 'erosion'
+  | `blend.${BlendMode}` | 'min' | 'max' | 'lerp'
+  | 'mask.elevation' | 'mask.slope' | 'mask.painted'
+  | 'output'
+
+// Low-resolution mask painted in the editor, row 0 at the terrain's -z edge
+export interface PaintedMaskData {
+  width: number
+  height: number
+  values: number[] // 0..1, row-major
+}
+
+export interface GraphNodeData {
+  id: string
+  type: GraphNodeType
+  params: Record<string, number>
+  inputs: Record<string, string | null> // input socket -> source node id
+  position?: { x: number; y: number }   // editor layout only
+  paint?: PaintedMaskData               // 'mask.painted' only
+}
+
+export interface TerrainGraphData {
+  version: number
+  nodes: GraphNodeData[]
+}
+
+export interface GraphParamDefinition {
+  label: string
+  default: number
+  min: number
+  max: number
+  step: number
+}
+
+export interface GraphNodeDefinition {
+  type: GraphNodeType
+  category: GraphNodeCategory
+  label: string
+  inputs: string[]
+  params: Record<string, GraphParamDefinition>
+}
+
+const PAINTED_MASK_SIZE = 64
+
+let definitions: Map<GraphNodeType, GraphNodeDefinition> | null = null
+
+export class TerrainGraph {
+  /**
+   * All node types, in the order the editor lists them
+   */
+  public static getDefinitions(): GraphNodeDefinition[] {
+    return Array.from(TerrainGraph.definitionMap().values())
+  }
+
+  public static getDefinition(type: GraphNodeType): GraphNodeDefinition {
+    const definition = TerrainGraph.definitionMap().get(type)
+    if (!definition) {
+      throw new Error(`Unknown graph node type: ${type}`)
+    }
+    return definition
+  }
+
+  /**
+   * Starting graph: the regular terrain straight into the output
+   */
+  public static createDefault(): TerrainGraphData {
+    const terrain = TerrainGraph.createNode('terrain', 'terrain', { x: 40, y: 60 })
+    const output = TerrainGraph.createNode('output', 'output', { x: 340, y: 60 })
+    output.inputs.in = terrain.id
+    return { version: TERRAIN_GRAPH_VERSION, nodes: [terrain, output] }
+  }
+
+  /**
+   * New node with default parameters and unconnected inputs
+   */
+  public static createNode(type: GraphNodeType, id: string, position?: { x: number; y: number }): GraphNodeData {
+    const definition = TerrainGraph.getDefinition(type)
+    const params: Record<string, number> = {}
+    for (const [name, param] of Object.entries(definition.params)) {
+      params[name] = param.default
+    }
+    const inputs: Record<string, string | null> = {}
+    for (const name of definition.inputs) {
+      inputs[name] = null
+    }
+
+    const node: GraphNodeData = { id, type, params, inputs, position }
+    if (type === 'mask.painted') {
+      node.paint = {
+        width: PAINTED_MASK_SIZE,
+        height: PAINTED_MASK_SIZE,
+        values: new Array(PAINTED_MASK_SIZE * PAINTED_MASK_SIZE).fill(0)
+      }
+    }
+    return node
+  }
+
+  /**
+   * Id not yet used in the graph, e.g. 'blur_2'
+   */
+  public static createNodeId(graph: TerrainGraphData, type: GraphNodeType): string {
+    const base = type.replace(/[^a-z]+/gi, '_')
+    const used = new Set(graph.nodes.map(node => node.id))
+    let index = 1
+    while (used.has(`${base}_${index}`)) index++
+    return `${base}_${index}`
+  }
+
+  public static getOutputNode(graph: TerrainGraphData): GraphNodeData {
+    const output = graph.nodes.find(node => node.type === 'output')
+    if (!output) {
+      throw new Error('Terrain graph has no output node')
+    }
+    return output
+  }
+
+  /**
+   * Nodes ordered so every node comes after its inputs. Throws on cycles.
+   * With `rootId`, only the nodes that feed that node are returned.
+   */
+  public static topologicalOrder(graph: TerrainGraphData, rootId?: string): GraphNodeData[] {
+    const byId = new Map(graph.nodes.map(node => [node.id, node]))
+    const order: GraphNodeData[] = []
+    const state = new Map<string, 'visiting' | 'done'>()
+
+    const visit = (node: GraphNodeData) => {
+      const current = state.get(node.id)
+      if (current === 'done') return
+      if (current === 'visiting') {
+        throw new Error(`Terrain graph has a cycle through '${node.id}'`)
+      }
+
+      state.set(node.id, 'visiting')
+      for (const sourceId of Object.values(node.inputs)) {
+        if (!sourceId) continue
+        const source = byId.get(sourceId)
+        if (!source) {
+          throw new Error(`Node '${node.id}' references missing node '${sourceId}'`)
+        }
+        visit(source)
+      }
+      state.set(node.id, 'done')
+      order.push(node)
+    }
+
+    if (rootId !== undefined) {
+      const root = byId.get(rootId)
+      if (!root) {
+        throw new Error(`Terrain graph has no node '${rootId}'`)
+      }
+      visit(root)
+    } else {
+      graph.nodes.forEach(visit)
+    }
+    return order
+  }
+
+  /**
+   * Check node types, references, acyclicity and the single output node
+   */
+  public static validate(graph: TerrainGraphData): void {
+    const ids = new Set<string>()
+    for (const node of graph.nodes) {
+      if (ids.has(node.id)) {
+        throw new Error(`Duplicate graph node id '${node.id}'`)
+      }
+      ids.add(node.id)
+      TerrainGraph.getDefinition(node.type)
+
+      if (node.type === 'mask.painted') {
+        const paint = node.paint
+        if (!paint || paint.values.length !== paint.width * paint.height) {
+          throw new Error(`Painted mask '${node.id}' has no valid paint data`)
+        }
+      }
+    }
+
+    const outputs = graph.nodes.filter(node => node.type === 'output')
+    if (outputs.length !== 1) {
+      throw new Error(`Terrain graph needs exactly one output node, found ${outputs.length}`)
+    }
+
+    TerrainGraph.topologicalOrder(graph)
+  }
+
+  /**
+   * Read a graph from JSON (projects), filling in parameters added since it was saved
+   */
+  public static parse(json: unknown): TerrainGraphData {
+    const data = json as Partial<TerrainGraphData> | null
+    if (!data || !Array.isArray(data.nodes)) {
+      throw new Error('Terrain graph is missing its node list')
+    }
+    if (typeof data.version !== 'number' || data.version > TERRAIN_GRAPH_VERSION) {
+      throw new Error(`Unsupported terrain graph version: ${data.version} (expected ${TERRAIN_GRAPH_VERSION} or lower)`)
+    }
+
+    const nodes = data.nodes.map(node => {
+      const defaults = TerrainGraph.createNode(node.type, node.id, node.position)
+      return {
+        ...defaults,
+        params: { ...defaults.params, ...node.params },
+        inputs: { ...defaults.inputs, ...node.inputs },
+        paint: node.paint ?? defaults.paint
+      }
+    })
+
+    const graph: TerrainGraphData = { version: TERRAIN_GRAPH_VERSION, nodes }
+    TerrainGraph.validate(graph)
+    return graph
+  }
+
+  public static clone(graph: TerrainGraphData): TerrainGraphData {
+    return structuredClone(graph)
+  }
+
+  /**
+   * Definitions are built on first use - BlendMode comes from a module that imports this one
+   */
+  private static definitionMap(): Map<GraphNodeType, GraphNodeDefinition> {
+    if (definitions) return definitions
+
+    const list: GraphNodeDefinition[] = []
+    const weight: GraphParamDefinition = { label: 'Weight', default: 1, min: 0, max: 2, step: 0.01 }
+
+    list.push({ type: 'terrain', category: 'generator', label: 'Terrain', inputs: [], params: {} })
+
+    for (const noiseType of Object.values(NoiseType)) {
+      list.push({
+        type: `noise.${noiseType}`,
+        category: 'generator',
+        label: `${noiseType.charAt(0).toUpperCase()}${noiseType.slice(1)} Noise`,
+        inputs: [],
+        params: {
+          height: { label: 'Height (m)', default: 100, min: 0, max: 1000, step: 1 },
+          frequency: { label: 'Frequency', default: 1, min: 0.05, max: 16, step: 0.05 },
+          octaves: { label: 'Octaves', default: 5, min: 1, max: 10, step: 1 },
+          persistence: { label: 'Persistence', default: 0.5, min: 0, max: 1, step: 0.01 },
+          lacunarity: { label: 'Lacunarity', default: 2, min: 1, max: 4, step: 0.05 },
+          seedOffset: { label: 'Seed Offset', default: 0, min: 0, max: 1000, step: 1 }
+        }
+      })
+    }
+
+    list.push(
+      {
+        type: 'terrace', category: 'filter', label: 'Terrace', inputs: ['in'],
+        params: {
+          spacing: { label: 'Spacing (m)', default: 40, min: 1, max: 500, step: 1 },
+          sharpness: { label: 'Sharpness', default: 0.7, min: 0, max: 1, step: 0.01 }
+        }
+      },
+      {
+        type: 'clamp', category: 'filter', label: 'Clamp', inputs: ['in'],
+        params: {
+          min: { label: 'Min (m)', default: 0, min: -2000, max: 5000, step: 1 },
+          max: { label: 'Max (m)', default: 500, min: -2000, max: 5000, step: 1 }
+        }
+      },
+      {
+        type: 'curve', category: 'filter', label: 'Curve Remap', inputs: ['in'],
+        params: {
+          inMin: { label: 'In Min (m)', default: -200, min: -2000, max: 5000, step: 1 },
+          inMax: { label: 'In Max (m)', default: 800, min: -2000, max: 5000, step: 1 },
+          outMin: { label: 'Out Min (m)', default: -200, min: -2000, max: 5000, step: 1 },
+          outMax: { label: 'Out Max (m)', default: 800, min: -2000, max: 5000, step: 1 },
+          exponent: { label: 'Exponent', default: 1, min: 0.1, max: 5, step: 0.05 }
+        }
+      },
+      {
+        type: 'blur', category: 'filter', label: 'Blur', inputs: ['in'],
+        params: {
+          radius: { label: 'Radius (samples)', default: 4, min: 1, max: 32, step: 1 }
+        }
+      },
+      {
+        type: 'erosion', category: 'filter', label: 'Thermal Erosion', inputs: ['in'],
+        params: {
+          iterations: { label: 'Iterations', default: 10, min: 1, max: 50, step: 1 },
+          talusAngle: { label: 'Talus Angle (°)', default: 30, min: 1, max: 80, step: 1 },
+          strength: { label: 'Strength', default: 0.5, min: 0, max: 1, step: 0.01 }
+        }
+      }
+    )
+
+    for (const blendMode of Object.values(BlendMode)) {
+      const params: Record<string, GraphParamDefinition> = { weight }
+      if (blendMode === BlendMode.MASK_ELEVATION) {
+        params.elevationMin = { label: 'Min Elevation (m)', default: 100, min: -2000, max: 5000, step: 1 }
+        params.elevationMax = { label: 'Max Elevation (m)', default: 1000, min: -2000, max: 5000, step: 1 }
+      } else if (blendMode === BlendMode.MASK_SLOPE) {
+        params.slopeMin = { label: 'Min Slope (°)', default: 35, min: 0, max: 90, step: 1 }
+        params.slopeMax = { label: 'Max Slope (°)', default: 90, min: 0, max: 90, step: 1 }
+        params.slopeFalloff = { label: 'Falloff (°)', default: 5, min: 0, max: 30, step: 1 }
+      }
+
+      list.push({
+        type: `blend.${blendMode}`,
+        category: 'combiner',
+        label: `Blend: ${blendMode.replace(/_/g, ' ')}`,
+        inputs: ['a', 'b'],
+        params
+      })
+    }
+
+    list.push(
+      { type: 'min', category: 'combiner', label: 'Min', inputs: ['a', 'b'], params: {} },
+      { type: 'max', category: 'combiner', label: 'Max', inputs: ['a', 'b'], params: {} },
+      {
+        type: 'lerp', category: 'combiner', label: 'Lerp', inputs: ['a', 'b', 't'],
+        params: {
+          t: { label: 'T (when unconnected)', default: 0.5, min: 0, max: 1, step: 0.01 }
+        }
+      },
+      {
+        type: 'mask.elevation', category: 'mask', label: 'Elevation Mask', inputs: ['in'],
+        params: {
+          min: { label: 'Min (m)', default: 100, min: -2000, max: 5000, step: 1 },
+          max: { label: 'Max (m)', default: 5000, min: -2000, max: 5000, step: 1 },
+          falloff: { label: 'Falloff (m)', default: 20, min: 0, max: 500, step: 1 }
+        }
+      },
+      {
+        type: 'mask.slope', category: 'mask', label: 'Slope Mask', inputs: ['in'],
+        params: {
+          min: { label: 'Min (°)', default: 35, min: 0, max: 90, step: 1 },
+          max: { label: 'Max (°)', default: 90, min: 0, max: 90, step: 1 },
+          falloff: { label: 'Falloff (°)', default: 5, min: 0, max: 30, step: 1 }
+        }
+      },
+      {
+        type: 'mask.painted', category: 'mask', label: 'Painted Mask', inputs: [],
+        params: {
+          strength: { label: 'Strength', default: 1, min: 0, max: 1, step: 0.01 }
+        }
+      },
+      { type: 'output', category: 'output', label: 'Output', inputs: ['in'], params: {} }
+    )
+
+    definitions = new Map(list.map(definition => [definition.type, definition]))
+    return definitions
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * Evaluates a TerrainGraph over a region of the terrain grid
+ *
+ * Nodes that read neighbouring samples (blur, erosion, slope) need their inputs over a
+ * larger region. Halos are propagated backwards from the output, so every node is
+ * computed exactly once over the region its consumers need, and any tiling of the
+ * grid gives the same heights as one region. Unbounded grids (tileable terrain, world
+ * chunks) do not clip halos at the grid edges.
+ */
+
+import { AdvancedTerrainGenerator, BlendMode, TerrainLayer, TerrainSampleContext } from './AdvancedTerrainGenerator'
+import { NoiseType } from './AdvancedNoiseSystem'
+import { TerrainGraph, TerrainGraphData, GraphNodeData } from './TerrainGraph'
+import { Resampler } from './Resampler'
+
+export interface GraphEvaluationOptions {
+  // Scales neighbourhood radii (blur, erosion) for previews below the terrain resolution
+  radiusScale?: number
+}
+
+// Values of one node over [x0, x1) x [y0, y1) of the grid
+interface RegionValues {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+  data: Float32Array
+}
+
+export class TerrainGraphEvaluator {
+  /**
+   * Heights of the graph output for [startX, endX) x [startY, endY)
+   */
+  public static evaluateRegion(
+    graph: TerrainGraphData,
+    generator: AdvancedTerrainGenerator,
+    context: TerrainSampleContext,
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    options: GraphEvaluationOptions = {}
+  ): Float32Array {
+    const output = TerrainGraph.getOutputNode(graph)
+    const nodes = TerrainGraph.topologicalOrder(graph, output.id)
+    const results = TerrainGraphEvaluator.evaluateNodes(
+      nodes, generator, context, { x0: startX, y0: startY, x1: endX, y1: endY }, options.radiusScale ?? 1
+    )
+    return results.get(output.id)!.data
+  }
+
+  /**
+   * Values of every node over the full grid, including nodes not connected to the output.
+   * Used for the editor's thumbnails.
+   */
+  public static evaluateAll(
+    graph: TerrainGraphData,
+    generator: AdvancedTerrainGenerator,
+    context: TerrainSampleContext,
+    options: GraphEvaluationOptions = {}
+  ): Map<string, Float32Array> {
+    const { resolution } = context
+    const region = { x0: 0, y0: 0, x1: resolution, y1: resolution }
+    const results = TerrainGraphEvaluator.evaluateNodes(
+      TerrainGraph.topologicalOrder(graph), generator, context, region, options.radiusScale ?? 1
+    )
+
+    // Unbounded halos extend past the grid; keep only the grid itself
+    return new Map(Array.from(results, ([id, values]) => [id, TerrainGraphEvaluator.crop(values, region)]))
+  }
+
+  /**
+   * Evaluate nodes (in topological order) so each covers the requested region plus the halo its consumers read
+   */
+  private static evaluateNodes(
+    nodes: GraphNodeData[],
+    generator: AdvancedTerrainGenerator,
+    context: TerrainSampleContext,
+    request: { x0: number; y0: number; x1: number; y1: number },
+    radiusScale: number
+  ): Map<string, RegionValues> {
+    // Halo each node must be computed with, from the consumers backwards
+    const halos = new Map<string, number>()
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const node = nodes[i]
+      const halo = (halos.get(node.id) ?? 0) + TerrainGraphEvaluator.neighbourhoodRadius(node, radiusScale)
+      for (const sourceId of Object.values(node.inputs)) {
+        if (sourceId) {
+          halos.set(sourceId, Math.max(halos.get(sourceId) ?? 0, halo))
+        }
+      }
+    }
+
+    const { resolution, unbounded } = context
+    const results = new Map<string, RegionValues>()
+    for (const node of nodes) {
+      const halo = halos.get(node.id) ?? 0
+      const region = {
+        x0: unbounded ? request.x0 - halo : Math.max(0, request.x0 - halo),
+        y0: unbounded ? request.y0 - halo : Math.max(0, request.y0 - halo),
+        x1: unbounded ? request.x1 + halo : Math.min(resolution, request.x1 + halo),
+        y1: unbounded ? request.y1 + halo : Math.min(resolution, request.y1 + halo)
+      }
+      results.set(node.id, {
+        ...region,
+        data: TerrainGraphEvaluator.evaluateNode(node, results, generator, context, region, radiusScale)
+      })
+    }
+
+    return results
+  }
+
+  private static crop(values: RegionValues, region: { x0: number; y0: number; x1: number; y1: number }): Float32Array {
+    const width = region.x1 - region.x0
+    const valuesWidth = values.x1 - values.x0
+    if (width === valuesWidth && region.y1 - region.y0 === values.y1 - values.y0) {
+      return values.data
+    }
+
+    const cropped = new Float32Array(width * (region.y1 - region.y0))
+    for (let y = region.y0; y < region.y1; y++) {
+      const offset = (y - values.y0) * valuesWidth + (region.x0 - values.x0)
+      cropped.set(values.data.subarray(offset, offset + width), (y - region.y0) * width)
+    }
+    return cropped
+  }
+
+  /**
+   * Samples a node reads around each output sample
+   */
+  private static neighbourhoodRadius(node: GraphNodeData, radiusScale: number): number {
+    switch (node.type) {
+      case 'blur':
+        return TerrainGraphEvaluator.scaledRadius(node.params.radius, radiusScale)
+      case 'erosion':
+        return TerrainGraphEvaluator.scaledRadius(node.params.iterations, radiusScale)
+      case 'mask.slope':
+      case `blend.${BlendMode.MASK_SLOPE}`:
+        return 1
+      default:
+        return 0
+    }
+  }
+
+  private static scaledRadius(value: number, radiusScale: number): number {
+    return Math.max(1, Math.round(value * radiusScale))
+  }
+
+  private static evaluateNode(
+    node: GraphNodeData,
+    results: Map<string, RegionValues>,
+    generator: AdvancedTerrainGenerator,
+    context: TerrainSampleContext,
+    region: { x0: number; y0: number; x1: number; y1: number },
+    radiusScale: number
+  ): Float32Array {
+    const { x0, y0, x1, y1 } = region
+    const width = x1 - x0
+    const data = new Float32Array(width * (y1 - y0))
+    const { params } = node
+
+    // Unconnected inputs read as zero
+    const input = (name: string): RegionValues | null => {
+      const sourceId = node.inputs[name]
+      return sourceId ? results.get(sourceId) ?? null : null
+    }
+    const at = (values: RegionValues | null, x: number, y: number): number =>
+      values ? values.data[(y - values.y0) * (values.x1 - values.x0) + (x - values.x0)] : 0
+    const map = (fn: (x: number, y: number) => number) => {
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          data[(y - y0) * width + (x - x0)] = fn(x, y)
+        }
+      }
+      return data
+    }
+    const toU = (x: number) => generator.gridCoordinate(x, context)
+
+    if (node.type === 'terrain') {
+      return generator.generateRegion({ ...context, graph: undefined }, x0, y0, x1, y1)
+    }
+
+    if (node.type.startsWith('noise.')) {
+      const noiseType = node.type.slice('noise.'.length) as NoiseType
+      const config = generator.tiled(TerrainGraphEvaluator.createNoiseConfig(node, generator.getSeed()))
+      const noiseSystem = generator.getNoiseSystem()
+      // Seed offset moves the sample window instead of reseeding the shared permutation
+      const offsetX = params.seedOffset * 12.9898
+      const offsetY = params.seedOffset * 78.233
+      return map((x, y) =>
+        noiseSystem.generateNoise(toU(x) + 0.001 + offsetX, toU(y) + 0.001 + offsetY, noiseType, config) * params.height
+      )
+    }
+
+    if (node.type.startsWith('blend.')) {
+      const a = input('a')
+      const b = input('b')
+      const layer = TerrainGraphEvaluator.createBlendLayer(node)
+      const slopeField = layer.blendMode === BlendMode.MASK_SLOPE ? a : null
+      return map((x, y) => {
+        const slope = slopeField ? TerrainGraphEvaluator.slopeAt(slopeField, x, y, context) : undefined
+        return generator.blendLayerValue(toU(x) + 0.001, toU(y) + 0.001, at(a, x, y), at(b, x, y), layer, slope)
+      })
+    }
+
+    switch (node.type) {
+      case 'terrace': {
+        const source = input('in')
+        const spacing = Math.max(1e-3, params.spacing)
+        const exponent = 1 + params.sharpness * 9
+        return map((x, y) => {
+          const scaled = at(source, x, y) / spacing
+          const step = Math.floor(scaled)
+          return (step + Math.pow(scaled - step, exponent)) * spacing
+        })
+      }
+      case 'clamp': {
+        const source = input('in')
+        return map((x, y) => Math.max(params.min, Math.min(params.max, at(source, x, y))))
+      }
+      case 'curve': {
+        const source = input('in')
+        const range = params.inMax - params.inMin
+        return map((x, y) => {
+          const t = range === 0 ? 0 : Math.max(0, Math.min(1, (at(source, x, y) - params.inMin) / range))
+          return params.outMin + (params.outMax - params.outMin) * Math.pow(t, params.exponent)
+        })
+      }
+      case 'blur':
+        return TerrainGraphEvaluator.boxBlur(input('in'), region, TerrainGraphEvaluator.scaledRadius(params.radius, radiusScale), context)
+      case 'erosion':
+        return TerrainGraphEvaluator.thermalErosion(input('in'), region, node, radiusScale, context)
+      case 'min': {
+        const a = input('a')
+        const b = input('b')
+        return map((x, y) => Math.min(at(a, x, y), at(b, x, y)))
+      }
+      case 'max': {
+        const a = input('a')
+        const b = input('b')
+        return map((x, y) => Math.max(at(a, x, y), at(b, x, y)))
+      }
+      case 'lerp': {
+        const a = input('a')
+        const b = input('b')
+        const t = input('t')
+        return map((x, y) => {
+          const weight = t ? at(t, x, y) : params.t
+          return at(a, x, y) + (at(b, x, y) - at(a, x, y)) * weight
+        })
+      }
+      case 'mask.elevation': {
+        const source = input('in')
+        return map((x, y) => {
+          const height = at(source, x, y)
+          return smoothstep(params.min - params.falloff, params.min + params.falloff, height) *
+            (1 - smoothstep(params.max - params.falloff, params.max + params.falloff, height))
+        })
+      }
+      case 'mask.slope': {
+        const source = input('in')
+        const range = { min: params.min, max: params.max }
+        return map((x, y) =>
+          source ? AdvancedTerrainGenerator.slopeMask(TerrainGraphEvaluator.slopeAt(source, x, y, context), range, params.falloff) : 0
+        )
+      }
+      case 'mask.painted': {
+        const paint = node.paint!
+        const values = Float32Array.from(paint.values)
+        return map((x, y) => Resampler.sampleBilinear(
+          values, paint.width, paint.height,
+          (toU(x) + 1) * 0.5 * (paint.width - 1),
+          (toU(y) + 1) * 0.5 * (paint.height - 1)
+        ) * params.strength)
+      }
+      case 'output': {
+        const source = input('in')
+        return map((x, y) => at(source, x, y))
+      }
+      default:
+        throw new Error(`Unknown graph node type: ${node.type}`)
+    }
+  }
+
+  /**
+   * Noise config with every field the noise types read; amplitude is 1 so `height` sets the scale
+   */
+  private static createNoiseConfig(node: GraphNodeData, seed: number): any {
+    const { frequency, octaves, persistence, lacunarity } = node.params
+    const base = {
+      octaves: Math.round(octaves),
+      frequency,
+      amplitude: 1,
+      persistence,
+      lacunarity,
+      seed,
+      offset: { x: 0, y: 0 }
+    }
+
+    return {
+      ...base,
+      warpStrength: 0,
+      warpFrequency: 0,
+      turbulence: false,
+      ridgeOffset: 1,
+      gain: 2,
+      threshold: 0,
+      baseNoise: base,
+      detailNoise: { ...base, frequency: frequency * 4 },
+      warpNoise: { ...base, octaves: 2, frequency: frequency * 0.5 },
+      detailWeight: 0.3,
+      warpWeight: 0.2
+    }
+  }
+
+  private static createBlendLayer(node: GraphNodeData): TerrainLayer {
+    const { params } = node
+    return {
+      type: NoiseType.PERLIN,
+      config: {},
+      weight: params.weight,
+      blendMode: node.type.slice('blend.'.length) as BlendMode,
+      elevationRange: params.elevationMin !== undefined ? { min: params.elevationMin, max: params.elevationMax } : undefined,
+      slopeRange: params.slopeMin !== undefined ? { min: params.slopeMin, max: params.slopeMax } : undefined,
+      slopeFalloff: params.slopeFalloff
+    }
+  }
+
+  /**
+   * Slope in degrees from central differences, one-sided at the terrain border unless it is unbounded (as generateRegion())
+   */
+  private static slopeAt(values: RegionValues, x: number, y: number, context: TerrainSampleContext): number {
+    const { resolution, cellSize, unbounded } = context
+    const width = values.x1 - values.x0
+    const valueAt = (sx: number, sy: number) => values.data[(sy - values.y0) * width + (sx - values.x0)]
+
+    const left = unbounded ? x - 1 : Math.max(0, x - 1)
+    const right = unbounded ? x + 1 : Math.min(resolution - 1, x + 1)
+    const up = unbounded ? y - 1 : Math.max(0, y - 1)
+    const down = unbounded ? y + 1 : Math.min(resolution - 1, y + 1)
+    const dzdx = (valueAt(right, y) - valueAt(left, y)) / ((right - left) * cellSize)
+    const dzdy = (valueAt(x, down) - valueAt(x, up)) / ((down - up) * cellSize)
+    return Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)) * 180 / Math.PI
+  }
+
+  /**
+   * Separable box blur; the window is clipped to the grid (unless it wraps), never to the input region
+   */
+  private static boxBlur(
+    source: RegionValues | null,
+    region: { x0: number; y0: number; x1: number; y1: number },
+    radius: number,
+    context: TerrainSampleContext
+  ): Float32Array {
+    const { resolution, unbounded } = context
+    const lowest = unbounded ? -Infinity : 0
+    const highest = unbounded ? Infinity : resolution - 1
+    const { x0, y0, x1, y1 } = region
+    const width = x1 - x0
+    const height = y1 - y0
+    if (!source) return new Float32Array(width * height)
+
+    const sourceWidth = source.x1 - source.x0
+    const rows = source.y1 - source.y0
+
+    // Horizontal pass over every input row, only for the output columns
+    const horizontal = new Float32Array(width * rows)
+    for (let row = 0; row < rows; row++) {
+      const offset = row * sourceWidth
+      for (let x = x0; x < x1; x++) {
+        const from = Math.max(lowest, x - radius)
+        const to = Math.min(highest, x + radius)
+        let sum = 0
+        for (let sx = from; sx <= to; sx++) {
+          sum += source.data[offset + sx - source.x0]
+        }
+        horizontal[row * width + (x - x0)] = sum / (to - from + 1)
+      }
+    }
+
+    const blurred = new Float32Array(width * height)
+    for (let y = y0; y < y1; y++) {
+      const from = Math.max(lowest, y - radius)
+      const to = Math.min(highest, y + radius)
+      for (let x = 0; x < width; x++) {
+        let sum = 0
+        for (let sy = from; sy <= to; sy++) {
+          sum += horizontal[(sy - source.y0) * width + x]
+        }
+        blurred[(y - y0) * width + x] = sum / (to - from + 1)
+      }
+    }
+
+    return blurred
+  }
+
+  /**
+   * Local thermal erosion: material above the talus angle slides to lower neighbours.
+   * Each iteration reads one sample further out, so the input carries an `iterations` halo;
+   * the iterations run over that whole input region and the inset result is exact.
+   */
+  private static thermalErosion(
+    source: RegionValues | null,
+    region: { x0: number; y0: number; x1: number; y1: number },
+    node: GraphNodeData,
+    radiusScale: number,
+    context: TerrainSampleContext
+  ): Float32Array {
+    const { x0, y0, x1, y1 } = region
+    const width = x1 - x0
+    const height = y1 - y0
+    if (!source) return new Float32Array(width * height)
+
+    const iterations = TerrainGraphEvaluator.scaledRadius(node.params.iterations, radiusScale)
+    // Preview grids are coarser, so their cells are wider and the talus height scales with them
+    const talus = Math.tan(node.params.talusAngle * Math.PI / 180) * context.cellSize
+    const strength = node.params.strength * 0.5
+
+    const sourceWidth = source.x1 - source.x0
+    const sourceHeight = source.y1 - source.y0
+    let current = Float32Array.from(source.data)
+    let next = new Float32Array(current.length)
+    const neighbours = [[-1, 0], [1, 0], [0, -1], [0, 1]]
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      for (let y = 0; y < sourceHeight; y++) {
+        for (let x = 0; x < sourceWidth; x++) {
+          const index = y * sourceWidth + x
+          const here = current[index]
+          let change = 0
+
+          // Symmetric exchange with each neighbour keeps the total mass unchanged
+          for (const [dx, dy] of neighbours) {
+            const nx = x + dx
+            const ny = y + dy
+            if (nx < 0 || ny < 0 || nx >= sourceWidth || ny >= sourceHeight) continue
+            const difference = here - current[ny * sourceWidth + nx]
+            if (difference > talus) {
+              change -= (difference - talus) * strength * 0.25
+            } else if (difference < -talus) {
+              change += (-difference - talus) * strength * 0.25
+            }
+          }
+
+          next[index] = here + change
+        }
+      }
+      const swap = current
+      current = next
+      next = swap
+    }
+
+    const eroded = new Float32Array(width * height)
+    for (let y = y0; y < y1; y++) {
+      const sourceOffset = (y - source.y0) * sourceWidth - source.x0
+      eroded.set(current.subarray(sourceOffset + x0, sourceOffset + x1), (y - y0) * width)
+    }
+    return eroded
+  }
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  if (edge1 <= edge0) return x < edge0 ? 0 : 1
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)))
+  return t * t * (3 - 2 * t)
+}
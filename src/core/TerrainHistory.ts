@@ -0,0 +1,183 @@
+/**
+ * Undo/redo history for heightmap edits
+ *
+ * Entries use a swap model: each entry holds the heights of its region as they
+ * were on the *other* side of the edit. Undoing or redoing swaps those values
+ * with the live heightmap, so every edit is stored exactly once.
+ */
+
+import { TerrainConfig } from './TerrainCore'
+import { AdvancedTerrainConfig, TerrainMorph } from './AdvancedTerrainGenerator'
+import { TerrainGraphData } from './TerrainGraph'
+
+export interface HeightRegion {
+  minX: number
+  maxX: number
+  minZ: number
+  maxZ: number
+}
+
+/**
+ * Generator state swapped together with full-terrain entries (regeneration, import)
+ */
+export interface TerrainHistoryState {
+  config: TerrainConfig
+  customLayers: any[]
+  baseLayerWeightOverrides: Map<number, number>
+  terrainGraph: TerrainGraphData | null
+  generatorConfig?: AdvancedTerrainConfig // feature groups set by presets live only here
+  terrainMorph?: TerrainMorph | null
+}
+
+export interface HistoryEntry {
+  label: string
+  resolution: number
+  region: HeightRegion
+  values: Float32Array
+  state?: TerrainHistoryState
+}
+
+export class TerrainHistory {
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+  private memoryBudget: number
+
+  constructor(memoryBudget: number = 256 * 1024 * 1024) {
+    this.memoryBudget = memoryBudget
+  }
+
+  /**
+   * Record a new edit. Clears the redo stack and evicts the oldest entries when over budget.
+   */
+  public push(entry: HistoryEntry): void {
+    this.redoStack = []
+
+    if (entry.values.byteLength > this.memoryBudget) {
+      console.warn(`Undo history: '${entry.label}' (${formatBytes(entry.values.byteLength)}) exceeds the memory budget, history cleared`)
+      this.undoStack = []
+      return
+    }
+
+    this.undoStack.push(entry)
+    this.enforceBudget()
+  }
+
+  /**
+   * Undo the most recent edit. `swap` must exchange entry.values with the live heights.
+   */
+  public async undo(swap: (entry: HistoryEntry) => void | Promise<void>): Promise<HistoryEntry | null> {
+    const entry = this.undoStack.pop()
+    if (!entry) return null
+
+    await swap(entry)
+    this.redoStack.push(entry)
+    return entry
+  }
+
+  /**
+   * Redo the most recently undone edit. `swap` must exchange entry.values with the live heights.
+   */
+  public async redo(swap: (entry: HistoryEntry) => void | Promise<void>): Promise<HistoryEntry | null> {
+    const entry = this.redoStack.pop()
+    if (!entry) return null
+
+    await swap(entry)
+    this.undoStack.push(entry)
+    return entry
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  public clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+
+  public setMemoryBudget(bytes: number): void {
+    this.memoryBudget = bytes
+    this.enforceBudget()
+  }
+
+  public getMemoryBudget(): number {
+    return this.memoryBudget
+  }
+
+  public getMemoryUsage(): number {
+    let total = 0
+    for (const entry of this.undoStack) total += entry.values.byteLength
+    for (const entry of this.redoStack) total += entry.values.byteLength
+    return total
+  }
+
+  private enforceBudget(): void {
+    // Drop the oldest undo steps first, then the furthest redo steps
+    while (this.getMemoryUsage() > this.memoryBudget && this.undoStack.length > 0) {
+      this.undoStack.shift()
+    }
+    while (this.getMemoryUsage() > this.memoryBudget && this.redoStack.length > 0) {
+      this.redoStack.shift()
+    }
+  }
+
+  /**
+   * Copy the heights inside a region (inclusive bounds) into a compact row-major array
+   */
+  public static captureRegion(heightData: Float32Array, resolution: number, region: HeightRegion): Float32Array {
+    const width = region.maxX - region.minX + 1
+    const values = new Float32Array(width * (region.maxZ - region.minZ + 1))
+
+    for (let z = region.minZ; z <= region.maxZ; z++) {
+      const rowStart = z * resolution + region.minX
+      values.set(heightData.subarray(rowStart, rowStart + width), (z - region.minZ) * width)
+    }
+
+    return values
+  }
+
+  /**
+   * Write region values produced by captureRegion() back into a heightmap
+   */
+  public static writeRegion(heightData: Float32Array, resolution: number, region: HeightRegion, values: Float32Array): void {
+    const width = region.maxX - region.minX + 1
+
+    for (let z = region.minZ; z <= region.maxZ; z++) {
+      const rowOffset = (z - region.minZ) * width
+      heightData.set(values.subarray(rowOffset, rowOffset + width), z * resolution + region.minX)
+    }
+  }
+
+  /**
+   * Bounding box of all samples that differ between two heightmaps, or null if identical
+   */
+  public static diffRegion(before: Float32Array, after: Float32Array, resolution: number): HeightRegion | null {
+    let minX = resolution, maxX = -1, minZ = resolution, maxZ = -1
+
+    for (let z = 0; z < resolution; z++) {
+      const row = z * resolution
+      for (let x = 0; x < resolution; x++) {
+        if (before[row + x] !== after[row + x]) {
+          if (x < minX) minX = x
+          if (x > maxX) maxX = x
+          if (z < minZ) minZ = z
+          if (z > maxZ) maxZ = z
+        }
+      }
+    }
+
+    return maxX < 0 ? null : { minX, maxX, minZ, maxZ }
+  }
+
+  public static fullRegion(resolution: number): HeightRegion {
+    return { minX: 0, maxX: resolution - 1, minZ: 0, maxZ: resolution - 1 }
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
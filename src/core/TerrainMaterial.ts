@@ -18,6 +18,7 @@ import {
   abs,
   float
 } from 'three/tsl'
+import { TerrainBlendParameters } from './SplatmapGenerator'
 
 export class TerrainMaterial {
   private material: THREE.MeshStandardMaterial
@@ -247,6 +248,7 @@ export class TerrainMaterial {
     const triplanarScale = uniform(100.0)      // Triplanar mapping scale
     const bombingScale = uniform(0.0025)       // Texture bombing scale
     const simplexScale = uniform(0.002)        // Simplex noise scale for larger dirt/grass patches
+    const highElevationThreshold = uniform(80.0) // Snow/rock patching starts around this height
     
     // Store uniforms for later access
     this.materialUniforms = {
@@ -256,7 +258,8 @@ export class TerrainMaterial {
       slopeThreshold,
       triplanarScale,
       bombingScale,
-      simplexScale
+      simplexScale,
+      highElevationThreshold
     }
     
     // Advanced terrain shader with proper triplanar mapping and texture bombing
@@ -421,7 +424,6 @@ export class TerrainMaterial {
       finalColor.assign(mix(finalColor, rockColor, combinedRockWeight))
       
       // Snow/Rock patching in high elevation zones (80-100% height)
-      const highElevationThreshold = uniform(80.0)
       const isHighElevation = smoothstep(
         highElevationThreshold.sub(5.0),
         highElevationThreshold.add(5.0),
@@ -466,6 +468,20 @@ export class TerrainMaterial {
     }
   }
 
+  /**
+   * Current blend rule inputs, for the CPU splatmap port in SplatmapGenerator
+   */
+  public getBlendParameters(): TerrainBlendParameters {
+    return {
+      grassDirtHeight: this.materialUniforms.grassDirtHeight.value,
+      rockHeight: this.materialUniforms.rockHeight.value,
+      snowHeight: this.materialUniforms.snowHeight.value,
+      slopeThreshold: this.materialUniforms.slopeThreshold.value,
+      simplexScale: this.materialUniforms.simplexScale.value,
+      highElevationThreshold: this.materialUniforms.highElevationThreshold.value
+    }
+  }
+
   public setTriplanarEnabled(_enabled: boolean): void {
     // Triplanar is always enabled in this advanced implementation
     console.log(`Triplanar mapping is always enabled in advanced terrain material`)
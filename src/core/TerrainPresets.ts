@@ -5,6 +5,9 @@ export interface TerrainPreset extends AdvancedTerrainConfig {
   description: string
 }
 
+// Format tag of preset files written by TerrainPresets.toJSON()
+export const PRESET_FILE_FORMAT = 'weltenbauer.presets'
+
 export class TerrainPresets {
   private static presets: Map<string, TerrainPreset> = new Map([
     [
@@ -291,6 +294,9 @@ export class TerrainPresets {
     ]
   ])
 
+  // Presets shipped with the editor, they cannot be overwritten or removed
+  private static builtInPresets: Set<string> = new Set(TerrainPresets.presets.keys())
+
   public static getPresetNames(): string[] {
     return Array.from(this.presets.keys())
   }
@@ -303,15 +309,62 @@ export class TerrainPresets {
     return Array.from(this.presets.values())
   }
 
-  public static addPreset(preset: TerrainPreset): void {
-    this.presets.set(preset.name.toLowerCase().replace(/\s+/g, '_'), preset)
+  /**
+   * Register a preset under keyFor(preset.name); returns that key
+   */
+  public static addPreset(preset: TerrainPreset): string {
+    const key = this.keyFor(preset.name)
+    if (this.builtInPresets.has(key)) {
+      throw new Error(`"${preset.name}" is the name of a built-in preset`)
+    }
+    this.presets.set(key, preset)
+    return key
   }
 
   public static removePreset(name: string): boolean {
+    if (this.builtInPresets.has(name)) return false
     return this.presets.delete(name)
   }
 
   public static hasPreset(name: string): boolean {
     return this.presets.has(name)
   }
+
+  public static isBuiltIn(name: string): boolean {
+    return this.builtInPresets.has(name)
+  }
+
+  /**
+   * Lookup key of a preset name, e.g. 'Alpine Peaks' -> 'alpine_peaks'
+   */
+  public static keyFor(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, '_')
+  }
+
+  /**
+   * Preset file contents for sharing presets between users
+   */
+  public static toJSON(presets: TerrainPreset[]): string {
+    return JSON.stringify({ format: PRESET_FILE_FORMAT, version: 1, presets }, null, 2)
+  }
+
+  /**
+   * Read a preset file written by toJSON(); a bare preset object or array is accepted too
+   */
+  public static fromJSON(json: string): TerrainPreset[] {
+    const data = JSON.parse(json)
+    const presets: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.presets) ? data.presets : [data]
+
+    return presets.map((preset: any, index) => {
+      if (typeof preset?.name !== 'string' || preset.name.trim() === '') {
+        throw new Error(`Preset ${index + 1} has no name`)
+      }
+      for (const field of ['size', 'resolution', 'seed'] as const) {
+        if (typeof preset[field] !== 'number' || !isFinite(preset[field])) {
+          throw new Error(`Preset "${preset.name}" is missing a numeric ${field}`)
+        }
+      }
+      return { description: '', layers: [], ...preset } as TerrainPreset
+    })
+  }
 } 
\ No newline at end of file
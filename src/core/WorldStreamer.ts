@@ -0,0 +1,399 @@
+import * as THREE from 'three/webgpu'
+import { AdvancedTerrainGenerator, AdvancedTerrainConfig, TerrainType, TerrainLayerStack } from './AdvancedTerrainGenerator'
+import { ErosionConfig } from './ErosionSystem'
+import { TerrainWorkerMessage, TerrainWorkerResponse } from './TerrainWorker'
+import { ErosionWorkerMessage, ErosionWorkerResponse, runErosionJob } from './ErosionWorker'
+
+/**
+ * Streams chunks of an infinite world in and out around the camera target
+ *
+ * Chunks come from AdvancedTerrainGenerator's chunk API, which evaluates noise in world
+ * coordinates, so neighbouring chunks share their edge samples exactly. Each chunk is
+ * generated with an apron of its neighbours' samples: edge normals are computed from it,
+ * and chunk erosion simulates over it so flow crosses the borders. Where the eroded aprons
+ * of loaded neighbours overlap, their results are cross-faded with weights that sum to one,
+ * so both chunks mesh the same heights along their shared edge.
+ */
+
+// Streaming options chosen in the UI; the other settings follow the edited terrain
+export interface WorldStreamOptions {
+  chunkResolution: number
+  viewRadius: number
+  erosion: boolean // erode each chunk with the current erosion settings
+}
+
+export interface WorldStreamerSettings {
+  config: AdvancedTerrainConfig // generator settings; size is the chunk size in km
+  terrainType: TerrainType
+  layerStack: TerrainLayerStack
+  chunkResolution: number // samples per chunk side
+  viewRadius: number // chunks loaded on each side of the chunk under the camera target
+  heightOffset: number // vertical mesh offset, matching the edited terrain
+  erosion: ErosionConfig | null // droplet erosion per chunk, null for none
+}
+
+interface WorldChunk {
+  x: number
+  z: number
+  mesh: THREE.Mesh
+  eroded: Float32Array | null // eroded heights including the apron, blended with the neighbours' when meshing
+}
+
+// Neighbour samples around each chunk: one for normals, more when eroding so flow crosses borders
+const NORMAL_APRON = 1
+const EROSION_APRON = 16
+
+export class WorldStreamer {
+  private scene: THREE.Scene
+  private material: THREE.Material
+  private settings: WorldStreamerSettings | null = null
+  private chunks: Map<string, WorldChunk> = new Map()
+  private failedChunks: Set<string> = new Set()
+  private loading: boolean = false
+  private generation: number = 0 // bumped on every configure(), results of older generations are dropped
+
+  private terrainWorker: Worker | null = null
+  private erosionWorker: Worker | null = null
+  private fallbackGenerator: AdvancedTerrainGenerator | null = null
+
+  constructor(scene: THREE.Scene, material: THREE.Material) {
+    this.scene = scene
+    this.material = material
+
+    try {
+      this.terrainWorker = new Worker(new URL('./TerrainWorker.ts', import.meta.url), { type: 'module' })
+      this.erosionWorker = new Worker(new URL('./ErosionWorker.ts', import.meta.url), { type: 'module' })
+    } catch (error) {
+      console.warn('Failed to create world streaming workers, generating chunks on the main thread:', error)
+      this.terrainWorker?.terminate()
+      this.terrainWorker = null
+      this.erosionWorker = null
+    }
+  }
+
+  /**
+   * Start streaming with new settings; chunks of the previous settings are dropped
+   */
+  public configure(settings: WorldStreamerSettings): void {
+    if (settings.chunkResolution < 2) {
+      throw new Error(`Chunk resolution must be at least 2, got ${settings.chunkResolution}`)
+    }
+
+    this.settings = settings
+    this.generation++
+    this.clearChunks()
+  }
+
+  public getSettings(): WorldStreamerSettings | null {
+    return this.settings
+  }
+
+  /**
+   * Load the nearest missing chunk around `center` (one at a time) and unload chunks that fell out of range
+   */
+  public update(center: THREE.Vector3): void {
+    if (!this.settings) return
+
+    const { viewRadius } = this.settings
+    const chunkSize = this.settings.config.size * 1000
+    const centerX = Math.round(center.x / chunkSize)
+    const centerZ = Math.round(center.z / chunkSize)
+
+    // One chunk of hysteresis so chunks do not flicker at the boundary
+    for (const [key, chunk] of this.chunks) {
+      if (Math.max(Math.abs(chunk.x - centerX), Math.abs(chunk.z - centerZ)) > viewRadius + 1) {
+        this.unloadChunk(key)
+      }
+    }
+
+    if (this.loading) return
+
+    let nearest: { x: number; z: number; distance: number } | null = null
+    for (let dz = -viewRadius; dz <= viewRadius; dz++) {
+      for (let dx = -viewRadius; dx <= viewRadius; dx++) {
+        const key = WorldStreamer.chunkKey(centerX + dx, centerZ + dz)
+        if (this.chunks.has(key) || this.failedChunks.has(key)) continue
+
+        const distance = dx * dx + dz * dz
+        if (!nearest || distance < nearest.distance) {
+          nearest = { x: centerX + dx, z: centerZ + dz, distance }
+        }
+      }
+    }
+
+    if (nearest) {
+      this.loadChunk(nearest.x, nearest.z).catch(console.error)
+    }
+  }
+
+  public getLoadedChunkCount(): number {
+    return this.chunks.size
+  }
+
+  public dispose(): void {
+    this.generation++
+    this.clearChunks()
+    this.settings = null
+    this.terrainWorker?.terminate()
+    this.erosionWorker?.terminate()
+    this.terrainWorker = null
+    this.erosionWorker = null
+  }
+
+  private async loadChunk(x: number, z: number): Promise<void> {
+    const settings = this.settings!
+    const generation = this.generation
+    const key = WorldStreamer.chunkKey(x, z)
+    const apron = settings.erosion ? EROSION_APRON : NORMAL_APRON
+
+    this.loading = true
+    try {
+      const heights = await this.generateHeights(x, z, apron, settings)
+      let eroded: Float32Array | null = null
+      if (settings.erosion && generation === this.generation) {
+        eroded = await this.erodeHeights(heights, x, z, apron, settings)
+      }
+
+      // Settings changed or streaming stopped while this chunk was generated
+      if (generation !== this.generation) return
+
+      const chunk: WorldChunk = { x, z, mesh: this.createChunkMesh(x, z, settings), eroded }
+      this.chunks.set(key, chunk)
+
+      if (eroded) {
+        // The new apron also changes the borders of loaded neighbours
+        for (const neighbour of this.erosionNeighbours(chunk, settings)) {
+          this.setChunkHeights(neighbour.mesh, this.blendErosion(neighbour, settings), apron, settings)
+        }
+      } else {
+        this.setChunkHeights(chunk.mesh, heights, apron, settings)
+      }
+      this.scene.add(chunk.mesh)
+    } catch (error) {
+      console.error(`Failed to generate world chunk ${key}:`, error)
+      if (generation === this.generation) {
+        this.failedChunks.add(key)
+      }
+    } finally {
+      this.loading = false
+    }
+  }
+
+  /**
+   * Chunk heights including the apron, from the terrain worker or the main thread
+   */
+  private generateHeights(x: number, z: number, apron: number, settings: WorldStreamerSettings): Promise<Float32Array> {
+    const config = { ...settings.config, resolution: settings.chunkResolution }
+
+    if (!this.terrainWorker) {
+      this.fallbackGenerator ??= new AdvancedTerrainGenerator()
+      this.fallbackGenerator.updateConfig(config)
+      const context = this.fallbackGenerator.createSampleContext(settings.terrainType, settings.layerStack)
+      return Promise.resolve(this.fallbackGenerator.generateChunkRegion(context, x, z, apron))
+    }
+
+    const span = settings.chunkResolution - 1
+    const size = settings.chunkResolution + apron * 2
+    const message: TerrainWorkerMessage = {
+      type: 'processChunk',
+      data: {
+        chunkId: `world_${x}_${z}_${this.generation}`,
+        startX: x * span - apron,
+        startY: z * span - apron,
+        endX: x * span - apron + size,
+        endY: z * span - apron + size,
+        resolution: settings.chunkResolution,
+        terrainType: settings.terrainType,
+        config,
+        baseLayerWeightOverrides: settings.layerStack.baseLayerWeightOverrides,
+        customLayers: settings.layerStack.customLayers ?? [],
+        graph: settings.layerStack.graph ?? null,
+        morph: settings.layerStack.morph ?? null,
+        worldChunk: { x, z, apron }
+      }
+    }
+
+    const worker = this.terrainWorker
+    return new Promise((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<TerrainWorkerResponse>) => {
+        if (event.data.type === 'chunkComplete' && event.data.data.heightData) {
+          resolve(event.data.data.heightData)
+        } else {
+          reject(new Error(`Worker error: ${event.data.data.error || 'Unknown worker error'}`))
+        }
+      }
+      worker.onerror = (error) => reject(error)
+      worker.postMessage(message)
+    })
+  }
+
+  /**
+   * Droplet erosion over the chunk and its apron, seeded per chunk so it is reproducible
+   */
+  private erodeHeights(heights: Float32Array, x: number, z: number, apron: number, settings: WorldStreamerSettings): Promise<Float32Array> {
+    const erosion = settings.erosion!
+    const message: ErosionWorkerMessage = {
+      type: 'erode',
+      data: {
+        jobId: `world_${x}_${z}_${this.generation}`,
+        model: 'droplet',
+        heightData: heights.slice(),
+        resolution: settings.chunkResolution + apron * 2,
+        worldSize: settings.config.size * 1000 * (settings.chunkResolution - 1 + apron * 2) / (settings.chunkResolution - 1),
+        config: { ...erosion, seed: (erosion.seed ^ Math.imul(x, 73856093) ^ Math.imul(z, 19349663)) >>> 0 }
+      }
+    }
+
+    if (!this.erosionWorker) {
+      return Promise.resolve(runErosionJob(message).data.heightData!)
+    }
+
+    const worker = this.erosionWorker
+    return new Promise((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ErosionWorkerResponse>) => {
+        const response = event.data
+        if (response.type === 'complete') {
+          resolve(response.data.heightData!)
+        } else if (response.type === 'error') {
+          reject(new Error(response.data.error))
+        }
+      }
+      worker.onerror = (error) => reject(error)
+      worker.postMessage(message, [message.data.heightData.buffer])
+    })
+  }
+
+  /**
+   * Loaded eroded chunks whose aprons overlap `chunk`'s, `chunk` included
+   */
+  private erosionNeighbours(chunk: WorldChunk, settings: WorldStreamerSettings): WorldChunk[] {
+    const reach = Math.ceil(EROSION_APRON * 2 / (settings.chunkResolution - 1))
+    const neighbours: WorldChunk[] = []
+
+    for (let dz = -reach; dz <= reach; dz++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        const neighbour = this.chunks.get(WorldStreamer.chunkKey(chunk.x + dx, chunk.z + dz))
+        if (neighbour?.eroded) {
+          neighbours.push(neighbour)
+        }
+      }
+    }
+
+    return neighbours
+  }
+
+  /**
+   * Heights of `chunk` and its apron as the weighted average of every loaded chunk's erosion
+   * result covering each sample. A chunk's weight falls from 1 at `apron` samples inside its
+   * edge to 0 at the outer end of its apron, so two neighbours' weights sum to one across
+   * the shared band and each computes the same heights there.
+   */
+  private blendErosion(chunk: WorldChunk, settings: WorldStreamerSettings): Float32Array {
+    const apron = EROSION_APRON
+    const span = settings.chunkResolution - 1
+    const size = settings.chunkResolution + apron * 2
+    const sums = new Float32Array(size * size)
+    const weights = new Float32Array(size * size)
+
+    for (const neighbour of this.erosionNeighbours(chunk, settings)) {
+      const offsetX = (neighbour.x - chunk.x) * span
+      const offsetZ = (neighbour.z - chunk.z) * span
+
+      for (let py = Math.max(0, offsetZ); py < Math.min(size, size + offsetZ); py++) {
+        const ny = py - offsetZ
+        const weightY = WorldStreamer.apronWeight(ny, size, apron)
+        for (let px = Math.max(0, offsetX); px < Math.min(size, size + offsetX); px++) {
+          const nx = px - offsetX
+          const weight = weightY * WorldStreamer.apronWeight(nx, size, apron)
+          const i = py * size + px
+          sums[i] += neighbour.eroded![ny * size + nx] * weight
+          weights[i] += weight
+        }
+      }
+    }
+
+    const blended = chunk.eroded!.slice()
+    for (let i = 0; i < blended.length; i++) {
+      if (weights[i] > 0) {
+        blended[i] = sums[i] / weights[i]
+      }
+    }
+    return blended
+  }
+
+  /**
+   * Smooth 0-1 ramp from the outer end of the apron (0) to `apron` samples inside the chunk edge (1)
+   */
+  private static apronWeight(p: number, size: number, apron: number): number {
+    const t = Math.min(1, Math.min(p, size - 1 - p) / (apron * 2))
+    return t * t * (3 - 2 * t)
+  }
+
+  /**
+   * Flat mesh of one chunk at its world position, shaped by setChunkHeights
+   */
+  private createChunkMesh(x: number, z: number, settings: WorldStreamerSettings): THREE.Mesh {
+    const chunkSize = settings.config.size * 1000
+    const geometry = new THREE.PlaneGeometry(chunkSize, chunkSize, settings.chunkResolution - 1, settings.chunkResolution - 1)
+
+    const mesh = new THREE.Mesh(geometry, this.material)
+    mesh.rotation.x = -Math.PI / 2
+    mesh.position.set(x * chunkSize, settings.heightOffset, z * chunkSize)
+    mesh.receiveShadow = true
+    mesh.name = `WorldChunk_${x}_${z}`
+    return mesh
+  }
+
+  /**
+   * Write chunk heights into its mesh; normals use the apron so they match across borders
+   */
+  private setChunkHeights(mesh: THREE.Mesh, heights: Float32Array, apron: number, settings: WorldStreamerSettings): void {
+    const resolution = settings.chunkResolution
+    const cellSize = settings.config.size * 1000 / (resolution - 1)
+    const size = resolution + apron * 2
+
+    const geometry = mesh.geometry
+    const positions = geometry.attributes.position.array as Float32Array
+    const normals = geometry.attributes.normal.array as Float32Array
+
+    for (let row = 0; row < resolution; row++) {
+      for (let col = 0; col < resolution; col++) {
+        const i = row * resolution + col
+        const p = (row + apron) * size + col + apron
+        positions[i * 3 + 2] = heights[p]
+
+        // Plane space before the mesh rotation: +y points to world -z, +z is up
+        const dhdx = (heights[p + 1] - heights[p - 1]) / (2 * cellSize)
+        const dhdz = (heights[p + size] - heights[p - size]) / (2 * cellSize)
+        const length = Math.sqrt(dhdx * dhdx + dhdz * dhdz + 1)
+        normals[i * 3] = -dhdx / length
+        normals[i * 3 + 1] = dhdz / length
+        normals[i * 3 + 2] = 1 / length
+      }
+    }
+
+    geometry.attributes.position.needsUpdate = true
+    geometry.attributes.normal.needsUpdate = true
+    geometry.computeBoundingSphere()
+  }
+
+  private unloadChunk(key: string): void {
+    const chunk = this.chunks.get(key)
+    if (!chunk) return
+
+    this.scene.remove(chunk.mesh)
+    chunk.mesh.geometry.dispose() // the material is shared with the edited terrain
+    this.chunks.delete(key)
+  }
+
+  private clearChunks(): void {
+    for (const key of Array.from(this.chunks.keys())) {
+      this.unloadChunk(key)
+    }
+    this.failedChunks.clear()
+  }
+
+  private static chunkKey(x: number, z: number): string {
+    return `${x},${z}`
+  }
+}
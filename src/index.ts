@@ -0,0 +1,58 @@
+/**
+ * Headless terrain API: everything here runs without the DOM, WebGPU or workers, in the
+ * browser as well as under plain Node. The editor lives in main.ts.
+ */
+
+export { TerrainCore, SUPPORTED_RESOLUTIONS } from './core/TerrainCore'
+export type { TerrainConfig, LegacyProjectData, HeightmapImportSettings, TerrainGenerationOptions, TerrainErosionOptions } from './core/TerrainCore'
+
+// Generation
+export { AdvancedTerrainGenerator, TerrainType, BlendMode, DEFAULT_SLOPE_FALLOFF } from './core/AdvancedTerrainGenerator'
+export type { TerrainLayer, HeightmapLayerSource, AdvancedTerrainConfig, TerrainLayerStack, TerrainSampleContext, TerrainMorph, MorphGradient } from './core/AdvancedTerrainGenerator'
+export { AdvancedNoiseSystem, NoiseType } from './core/AdvancedNoiseSystem'
+export type { NoiseConfig, RidgedNoiseConfig, FBMConfig, HybridConfig } from './core/AdvancedNoiseSystem'
+export { TerrainPresets, PRESET_FILE_FORMAT } from './core/TerrainPresets'
+export type { TerrainPreset } from './core/TerrainPresets'
+export { PresetMorph } from './core/PresetMorph'
+export { SeedGallery } from './core/SeedGallery'
+export type { GalleryVariant, ThumbnailStyle } from './core/SeedGallery'
+export { TerrainGraph, TERRAIN_GRAPH_VERSION } from './core/TerrainGraph'
+export type { GraphNodeCategory, GraphNodeType, GraphNodeData, TerrainGraphData, PaintedMaskData } from './core/TerrainGraph'
+export { TerrainGraphEvaluator } from './core/TerrainGraphEvaluator'
+export type { GraphEvaluationOptions } from './core/TerrainGraphEvaluator'
+
+// Brushes and erosion
+export { HeightBrush, MOUNTAIN_PRESETS } from './core/HeightBrush'
+export type { BrushMode, BrushSettings, MountainPreset, HeightBrushTarget } from './core/HeightBrush'
+export { ErosionSystem, DEFAULT_EROSION_SEED } from './core/ErosionSystem'
+export type { ErosionConfig, AdvancedErosionConfig, ErosionResults } from './core/ErosionSystem'
+export { ErosionPresets } from './core/ErosionPresets'
+export { runErosionJob } from './core/ErosionWorker'
+export type { ErosionModel, ErosionWorkerMessage, ErosionWorkerResponse } from './core/ErosionWorker'
+export { CancellationToken, CancelledError, isCancelledError } from './core/CancellationToken'
+export type { HeightRegion, TerrainHistoryState } from './core/TerrainHistory'
+
+// Import and export
+export { ProjectFile, PROJECT_FILE_VERSION } from './core/ProjectFile'
+export type { ProjectFileData, ProjectFileOptions } from './core/ProjectFile'
+export { HeightmapImporter } from './core/HeightmapImporter'
+export type { HeightmapSourceFormat, ImportedHeightmap, HeightmapImportOptions } from './core/HeightmapImporter'
+export { DemImporter } from './core/DemImporter'
+export type { DemGrid, DemRegion, DemImportResult } from './core/DemImporter'
+export { HeightmapExporter } from './core/HeightmapExporter'
+export type { HeightmapFormat, HeightmapMetadataMode, HeightmapMetadata, HeightmapExportOptions, HeightmapExportResult } from './core/HeightmapExporter'
+export { GLBExporter } from './core/GLBExporter'
+export type { GLBExportOptions, GLBExportResult } from './core/GLBExporter'
+export { OBJExporter } from './core/OBJExporter'
+export type { OBJExportOptions, OBJExportResult, ExportedFile } from './core/OBJExporter'
+export { STLExporter } from './core/STLExporter'
+export type { STLExportOptions, STLExportResult } from './core/STLExporter'
+export { HeightfieldMesh } from './core/HeightfieldMesh'
+export type { HeightfieldMeshOptions, HeightfieldMeshTile, HeightfieldMeshResult } from './core/HeightfieldMesh'
+export { SplatmapGenerator, SPLATMAP_CHANNELS } from './core/SplatmapGenerator'
+export type { TerrainBlendParameters, SplatNoiseTexture, SplatmapOptions, SplatmapResult, SplatmapExportResult } from './core/SplatmapGenerator'
+export { TerrainBaker, BAKE_MAP_TYPES } from './core/TerrainBaker'
+export type { BakeMapType, BakeOptions, BakedMap } from './core/TerrainBaker'
+export { PNGCodec } from './core/PNGCodec'
+export type { PNGImage, DecodedPNG } from './core/PNGCodec'
+export { Resampler } from './core/Resampler'
@@ -0,0 +1,497 @@
+import { TerrainBuilder } from '../core/TerrainBuilder'
+import { TerrainGraph, TerrainGraphData, GraphNodeData, GraphNodeType, GraphNodeCategory } from '../core/TerrainGraph'
+
+const NODE_WIDTH = 200
+const THUMBNAIL_SIZE = 64
+const PAINT_RADIUS = 3 // painted mask cells
+
+const CATEGORY_COLORS: Record<GraphNodeCategory, string> = {
+  generator: '#2e7d32',
+  filter: '#1565c0',
+  combiner: '#6a1b9a',
+  mask: '#ef6c00',
+  output: '#c62828'
+}
+
+/**
+ * Floating editor for the terrain node graph: node cards with parameters, input
+ * dropdowns, live thumbnails and wires. Edits are applied to the terrain while
+ * "Use Node Graph" is checked.
+ */
+export class GraphEditorPanel {
+  private terrainBuilder: TerrainBuilder
+  private panel!: HTMLDivElement
+  private workspace!: HTMLDivElement
+  private wires!: SVGSVGElement
+  private statusText!: HTMLSpanElement
+  private enabledCheckbox!: HTMLInputElement
+
+  private graph: TerrainGraphData
+  private cards: Map<string, HTMLDivElement> = new Map()
+  private thumbnails: Map<string, HTMLCanvasElement> = new Map()
+  private isVisible: boolean = false
+  private previewTimeout: number | null = null
+  private applyTimeout: number | null = null
+
+  constructor(terrainBuilder: TerrainBuilder) {
+    this.terrainBuilder = terrainBuilder
+    this.graph = this.loadGraph()
+    this.createPanel()
+  }
+
+  public toggle(): void {
+    if (this.isVisible) {
+      this.hide()
+    } else {
+      this.show()
+    }
+  }
+
+  public show(): void {
+    this.isVisible = true
+    this.panel.style.display = 'flex'
+    this.render()
+  }
+
+  public hide(): void {
+    this.isVisible = false
+    this.panel.style.display = 'none'
+  }
+
+  /**
+   * Pick up the terrain's graph after undo/redo or a project import
+   */
+  public syncWithTerrain(): void {
+    this.graph = this.loadGraph()
+    this.enabledCheckbox.checked = this.terrainBuilder.getTerrainGraph() !== null
+    if (this.isVisible) {
+      this.render()
+    }
+  }
+
+  private loadGraph(): TerrainGraphData {
+    const graph = this.terrainBuilder.getTerrainGraph()
+    return graph ? TerrainGraph.clone(graph) : TerrainGraph.createDefault()
+  }
+
+  private createPanel(): void {
+    this.panel = document.createElement('div')
+    this.panel.style.cssText = `
+      position: fixed;
+      top: 100px;
+      left: 10px;
+      right: 340px;
+      bottom: 10px;
+      display: none;
+      flex-direction: column;
+      background: rgba(30, 30, 30, 0.96);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 8px;
+      z-index: 1500;
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      color: #ddd;
+    `
+
+    // Toolbar
+    const toolbar = document.createElement('div')
+    toolbar.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 12px;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+    `
+
+    const title = document.createElement('strong')
+    title.textContent = 'Terrain Node Graph'
+    title.style.fontSize = '14px'
+    toolbar.appendChild(title)
+
+    const enabledLabel = document.createElement('label')
+    this.enabledCheckbox = document.createElement('input')
+    this.enabledCheckbox.type = 'checkbox'
+    this.enabledCheckbox.checked = this.terrainBuilder.getTerrainGraph() !== null
+    this.enabledCheckbox.addEventListener('change', () => this.applyToTerrain())
+    enabledLabel.appendChild(this.enabledCheckbox)
+    enabledLabel.appendChild(document.createTextNode(' Use Node Graph'))
+    toolbar.appendChild(enabledLabel)
+
+    const typeSelect = document.createElement('select')
+    const groups = new Map<GraphNodeCategory, HTMLOptGroupElement>()
+    for (const definition of TerrainGraph.getDefinitions()) {
+      if (definition.category === 'output') continue
+      let group = groups.get(definition.category)
+      if (!group) {
+        group = document.createElement('optgroup')
+        group.label = definition.category.charAt(0).toUpperCase() + definition.category.slice(1) + 's'
+        groups.set(definition.category, group)
+        typeSelect.appendChild(group)
+      }
+      const option = document.createElement('option')
+      option.value = definition.type
+      option.textContent = definition.label
+      group.appendChild(option)
+    }
+    toolbar.appendChild(typeSelect)
+
+    toolbar.appendChild(this.createButton('Add Node', () => this.addNode(typeSelect.value as GraphNodeType)))
+    toolbar.appendChild(this.createButton('Reset', () => {
+      if (!confirm('Replace the graph with the default one?')) return
+      this.graph = TerrainGraph.createDefault()
+      this.onGraphChanged(true)
+    }))
+
+    this.statusText = document.createElement('span')
+    this.statusText.style.cssText = 'flex: 1; color: #aaa;'
+    toolbar.appendChild(this.statusText)
+
+    toolbar.appendChild(this.createButton('Close', () => this.hide()))
+    this.panel.appendChild(toolbar)
+
+    // Scrollable node area with the wires underneath the cards
+    this.workspace = document.createElement('div')
+    this.workspace.style.cssText = `
+      position: relative;
+      flex: 1;
+      overflow: auto;
+    `
+
+    this.wires = document.createElementNS('http://www.w3.org/2000/svg', 'svg')
+    this.wires.setAttribute('width', '3000')
+    this.wires.setAttribute('height', '2000')
+    this.wires.style.cssText = 'position: absolute; top: 0; left: 0; pointer-events: none;'
+    this.workspace.appendChild(this.wires)
+
+    this.panel.appendChild(this.workspace)
+    document.body.appendChild(this.panel)
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button')
+    button.textContent = label
+    button.style.cssText = `
+      padding: 4px 10px;
+      background: #0066cc;
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+    `
+    button.addEventListener('click', onClick)
+    return button
+  }
+
+  private addNode(type: GraphNodeType): void {
+    const offset = this.graph.nodes.length * 20
+    const position = { x: this.workspace.scrollLeft + 40 + offset % 200, y: this.workspace.scrollTop + 40 + offset % 200 }
+    this.graph.nodes.push(TerrainGraph.createNode(type, TerrainGraph.createNodeId(this.graph, type), position))
+    this.onGraphChanged(true)
+  }
+
+  private removeNode(id: string): void {
+    this.graph.nodes = this.graph.nodes.filter(node => node.id !== id)
+    for (const node of this.graph.nodes) {
+      for (const [name, sourceId] of Object.entries(node.inputs)) {
+        if (sourceId === id) node.inputs[name] = null
+      }
+    }
+    this.onGraphChanged(true)
+  }
+
+  /**
+   * Rebuild all node cards and wires
+   */
+  private render(): void {
+    this.cards.forEach(card => card.remove())
+    this.cards.clear()
+    this.thumbnails.clear()
+
+    for (const node of this.graph.nodes) {
+      const card = this.createNodeCard(node)
+      this.cards.set(node.id, card)
+      this.workspace.appendChild(card)
+    }
+
+    this.drawWires()
+    this.schedulePreviews(0)
+  }
+
+  private createNodeCard(node: GraphNodeData): HTMLDivElement {
+    const definition = TerrainGraph.getDefinition(node.type)
+    const position = node.position ?? { x: 40, y: 40 }
+
+    const card = document.createElement('div')
+    card.style.cssText = `
+      position: absolute;
+      left: ${position.x}px;
+      top: ${position.y}px;
+      width: ${NODE_WIDTH}px;
+      background: #2a2a2a;
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 6px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.4);
+    `
+
+    // Header doubles as the drag handle
+    const header = document.createElement('div')
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 4px 8px;
+      background: ${CATEGORY_COLORS[definition.category]};
+      border-radius: 6px 6px 0 0;
+      cursor: move;
+      user-select: none;
+    `
+    const label = document.createElement('span')
+    label.textContent = definition.label
+    label.title = node.id
+    header.appendChild(label)
+
+    if (node.type !== 'output') {
+      const removeButton = document.createElement('span')
+      removeButton.textContent = '✕'
+      removeButton.style.cursor = 'pointer'
+      removeButton.addEventListener('mousedown', event => event.stopPropagation())
+      removeButton.addEventListener('click', () => this.removeNode(node.id))
+      header.appendChild(removeButton)
+    }
+
+    header.addEventListener('mousedown', event => this.startDrag(event, node, card))
+    card.appendChild(header)
+
+    const body = document.createElement('div')
+    body.style.cssText = 'padding: 6px 8px; display: flex; flex-direction: column; gap: 4px;'
+
+    // Inputs pick their source node from a dropdown
+    for (const inputName of definition.inputs) {
+      const row = this.createRow(inputName)
+      row.dataset.input = inputName
+
+      const select = document.createElement('select')
+      select.style.width = '110px'
+      select.appendChild(new Option('—', ''))
+      for (const source of this.graph.nodes) {
+        if (source.id === node.id || source.type === 'output') continue
+        select.appendChild(new Option(source.id, source.id, false, node.inputs[inputName] === source.id))
+      }
+      select.addEventListener('change', () => {
+        const previous = node.inputs[inputName]
+        node.inputs[inputName] = select.value || null
+        if (!this.onGraphChanged(false)) {
+          node.inputs[inputName] = previous
+          select.value = previous ?? ''
+          return
+        }
+        this.drawWires()
+      })
+      row.appendChild(select)
+      body.appendChild(row)
+    }
+
+    for (const [paramName, param] of Object.entries(definition.params)) {
+      const row = this.createRow(param.label)
+      const input = document.createElement('input')
+      input.type = 'number'
+      input.min = String(param.min)
+      input.max = String(param.max)
+      input.step = String(param.step)
+      input.value = String(node.params[paramName])
+      input.style.width = '70px'
+      input.addEventListener('change', () => {
+        const value = Math.max(param.min, Math.min(param.max, parseFloat(input.value)))
+        if (isNaN(value)) {
+          input.value = String(node.params[paramName])
+          return
+        }
+        input.value = String(value)
+        node.params[paramName] = value
+        this.onGraphChanged(false)
+      })
+      row.appendChild(input)
+      body.appendChild(row)
+    }
+
+    const thumbnail = document.createElement('canvas')
+    thumbnail.width = THUMBNAIL_SIZE
+    thumbnail.height = THUMBNAIL_SIZE
+    thumbnail.style.cssText = `
+      width: ${NODE_WIDTH - 16}px;
+      height: ${NODE_WIDTH - 16}px;
+      border-radius: 4px;
+      background: #111;
+    `
+    if (node.type === 'mask.painted') {
+      thumbnail.title = 'Paint with the left mouse button, hold Shift to erase'
+      thumbnail.style.cursor = 'crosshair'
+      this.attachPainting(thumbnail, node)
+    }
+    this.thumbnails.set(node.id, thumbnail)
+    body.appendChild(thumbnail)
+
+    card.appendChild(body)
+    return card
+  }
+
+  private createRow(labelText: string): HTMLDivElement {
+    const row = document.createElement('div')
+    row.style.cssText = 'display: flex; justify-content: space-between; align-items: center; gap: 6px;'
+    const label = document.createElement('span')
+    label.textContent = labelText
+    label.style.color = '#bbb'
+    row.appendChild(label)
+    return row
+  }
+
+  private startDrag(event: MouseEvent, node: GraphNodeData, card: HTMLDivElement): void {
+    event.preventDefault()
+    const startX = event.clientX
+    const startY = event.clientY
+    const origin = node.position ?? { x: 40, y: 40 }
+
+    const onMove = (moveEvent: MouseEvent) => {
+      node.position = {
+        x: Math.max(0, origin.x + moveEvent.clientX - startX),
+        y: Math.max(0, origin.y + moveEvent.clientY - startY)
+      }
+      card.style.left = `${node.position.x}px`
+      card.style.top = `${node.position.y}px`
+      this.drawWires()
+    }
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove)
+      window.removeEventListener('mouseup', onUp)
+    }
+
+    window.addEventListener('mousemove', onMove)
+    window.addEventListener('mouseup', onUp)
+  }
+
+  /**
+   * Paint the node's mask by dragging over its thumbnail
+   */
+  private attachPainting(canvas: HTMLCanvasElement, node: GraphNodeData): void {
+    const paint = node.paint!
+
+    const paintAt = (event: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect()
+      const cx = ((event.clientX - rect.left) / rect.width) * (paint.width - 1)
+      const cy = ((event.clientY - rect.top) / rect.height) * (paint.height - 1)
+      const target = event.shiftKey ? 0 : 1
+
+      for (let y = Math.max(0, Math.floor(cy - PAINT_RADIUS)); y <= Math.min(paint.height - 1, Math.ceil(cy + PAINT_RADIUS)); y++) {
+        for (let x = Math.max(0, Math.floor(cx - PAINT_RADIUS)); x <= Math.min(paint.width - 1, Math.ceil(cx + PAINT_RADIUS)); x++) {
+          const distance = Math.sqrt((x - cx) ** 2 + (y - cy) ** 2)
+          if (distance > PAINT_RADIUS) continue
+          // Soft brush edge
+          const amount = 1 - distance / PAINT_RADIUS
+          const index = y * paint.width + x
+          paint.values[index] += (target - paint.values[index]) * amount
+        }
+      }
+      this.onGraphChanged(false)
+    }
+
+    canvas.addEventListener('mousedown', event => {
+      event.preventDefault()
+      paintAt(event)
+
+      const onMove = (moveEvent: MouseEvent) => paintAt(moveEvent)
+      const onUp = () => {
+        window.removeEventListener('mousemove', onMove)
+        window.removeEventListener('mouseup', onUp)
+      }
+      window.addEventListener('mousemove', onMove)
+      window.addEventListener('mouseup', onUp)
+    })
+  }
+
+  private drawWires(): void {
+    this.wires.innerHTML = ''
+
+    for (const node of this.graph.nodes) {
+      const card = this.cards.get(node.id)
+      if (!card) continue
+
+      for (const [inputName, sourceId] of Object.entries(node.inputs)) {
+        const sourceCard = sourceId ? this.cards.get(sourceId) : undefined
+        const row = card.querySelector<HTMLDivElement>(`[data-input="${inputName}"]`)
+        if (!sourceCard || !row) continue
+
+        const startX = sourceCard.offsetLeft + sourceCard.offsetWidth
+        const startY = sourceCard.offsetTop + 14
+        const endX = card.offsetLeft
+        const endY = card.offsetTop + row.offsetTop + row.offsetHeight / 2
+        const bend = Math.max(40, Math.abs(endX - startX) / 2)
+
+        const path = document.createElementNS('http://www.w3.org/2000/svg', 'path')
+        path.setAttribute('d', `M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`)
+        path.setAttribute('stroke', '#8ab4f8')
+        path.setAttribute('stroke-width', '2')
+        path.setAttribute('fill', 'none')
+        this.wires.appendChild(path)
+      }
+    }
+  }
+
+  /**
+   * Validate after an edit, refresh thumbnails and apply to the terrain.
+   * Returns false (and shows why) when the edit made the graph invalid.
+   */
+  private onGraphChanged(structural: boolean): boolean {
+    try {
+      TerrainGraph.validate(this.graph)
+    } catch (error) {
+      this.statusText.textContent = error instanceof Error ? error.message : String(error)
+      this.statusText.style.color = '#ef5350'
+      return false
+    }
+
+    this.statusText.textContent = ''
+    this.statusText.style.color = '#aaa'
+    if (structural) {
+      this.render()
+    } else {
+      this.schedulePreviews(150)
+    }
+
+    if (this.enabledCheckbox.checked) {
+      if (this.applyTimeout) clearTimeout(this.applyTimeout)
+      this.applyTimeout = window.setTimeout(() => this.applyToTerrain(), 600)
+    }
+    return true
+  }
+
+  private applyToTerrain(): void {
+    if (this.applyTimeout) {
+      clearTimeout(this.applyTimeout)
+      this.applyTimeout = null
+    }
+
+    try {
+      this.terrainBuilder.setTerrainGraph(this.enabledCheckbox.checked ? this.graph : null)
+    } catch (error) {
+      console.error('Failed to apply terrain graph:', error)
+      alert(`Failed to apply terrain graph: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  private schedulePreviews(delay: number): void {
+    if (this.previewTimeout) clearTimeout(this.previewTimeout)
+    this.previewTimeout = window.setTimeout(() => {
+      this.previewTimeout = null
+      if (!this.isVisible) return
+
+      try {
+        this.terrainBuilder.generateGraphNodePreviews(this.graph, this.thumbnails, THUMBNAIL_SIZE)
+      } catch (error) {
+        console.error('Failed to render graph previews:', error)
+        this.statusText.textContent = 'Preview failed - see console'
+        this.statusText.style.color = '#ef5350'
+      }
+    }, delay)
+  }
+}
@@ -5,6 +5,9 @@ export interface ProgressTask {
   progress: number
   isComplete: boolean
   startTime: number
+  // Shows a Cancel button when set
+  onCancel?: () => void
+  isCancelling?: boolean
 }
 
 export class ProgressOverlay {
@@ -52,14 +55,15 @@ export class ProgressOverlay {
     document.body.appendChild(this.overlay)
   }
 
-  public startTask(id: string, title: string, description?: string): void {
+  public startTask(id: string, title: string, description?: string, onCancel?: () => void): void {
     const task: ProgressTask = {
       id,
       title,
       description,
       progress: 0,
       isComplete: false,
-      startTime: Date.now()
+      startTime: Date.now(),
+      onCancel
     }
 
     this.tasks.set(id, task)
@@ -96,6 +100,19 @@ export class ProgressOverlay {
     }, 1000)
   }
 
+  /**
+   * Ask the task's owner to stop; the owner removes the entry with cancelTask() once it has
+   */
+  public requestCancel(id: string): void {
+    const task = this.tasks.get(id)
+    if (!task || !task.onCancel || task.isComplete || task.isCancelling) return
+
+    task.isCancelling = true
+    task.description = 'Cancelling...'
+    this.render()
+    task.onCancel()
+  }
+
   public cancelTask(id: string): void {
     this.tasks.delete(id)
     if (this.tasks.size === 0) {
@@ -213,6 +230,25 @@ export class ProgressOverlay {
     titleRow.appendChild(taskTitle)
     titleRow.appendChild(taskStatus)
 
+    // Cancel button for cancellable tasks
+    if (task.onCancel && !task.isComplete) {
+      const cancelButton = document.createElement('button')
+      cancelButton.textContent = task.isCancelling ? 'Cancelling...' : 'Cancel'
+      cancelButton.disabled = !!task.isCancelling
+      cancelButton.style.cssText = `
+        margin-left: 12px;
+        padding: 4px 12px;
+        background: ${task.isCancelling ? '#555' : '#c62828'};
+        color: #fff;
+        border: none;
+        border-radius: 4px;
+        font-size: 12px;
+        cursor: ${task.isCancelling ? 'default' : 'pointer'};
+      `
+      cancelButton.onclick = () => this.requestCancel(task.id)
+      titleRow.appendChild(cancelButton)
+    }
+
     // Progress bar background
     const progressBg = document.createElement('div')
     progressBg.style.cssText = `
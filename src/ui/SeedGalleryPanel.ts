@@ -0,0 +1,280 @@
+import { TerrainBuilder } from '../core/TerrainBuilder'
+import { SeedGallery, GalleryVariant, ThumbnailStyle } from '../core/SeedGallery'
+import { CancellationToken, isCancelledError } from '../core/CancellationToken'
+
+const TILE_DISPLAY_SIZE = 160 // CSS pixels, thumbnails are scaled up to this
+const THUMBNAIL_RESOLUTIONS = [64, 96, 128]
+const TILE_COUNTS = [6, 12, 24]
+
+/**
+ * Floating seed explorer: a grid of low-resolution thumbnails for random seeds or
+ * mutations of the current settings, generated in the worker pool. Clicking a tile
+ * adopts its seed and settings at full resolution.
+ */
+export class SeedGalleryPanel {
+  private terrainBuilder: TerrainBuilder
+  private onApplied: () => void
+  private panel!: HTMLDivElement
+  private grid!: HTMLDivElement
+  private statusText!: HTMLSpanElement
+
+  private settings = {
+    style: 'relief' as ThumbnailStyle,
+    resolution: 96,
+    count: 12,
+    mutationStrength: 0.25
+  }
+
+  private variants: GalleryVariant[] = []
+  private heights: Array<Float32Array | null> = []
+  private canvases: HTMLCanvasElement[] = []
+  private cancellationToken: CancellationToken | null = null
+  private isVisible: boolean = false
+
+  constructor(terrainBuilder: TerrainBuilder, onApplied: () => void) {
+    this.terrainBuilder = terrainBuilder
+    this.onApplied = onApplied
+    this.createPanel()
+  }
+
+  public toggle(): void {
+    if (this.isVisible) {
+      this.hide()
+    } else {
+      this.show()
+    }
+  }
+
+  public show(): void {
+    this.isVisible = true
+    this.panel.style.display = 'flex'
+    if (this.variants.length === 0) {
+      this.explore(SeedGallery.seedVariants(this.settings.count))
+    }
+  }
+
+  public hide(): void {
+    this.isVisible = false
+    this.panel.style.display = 'none'
+    this.cancellationToken?.cancel()
+  }
+
+  private createPanel(): void {
+    this.panel = document.createElement('div')
+    this.panel.style.cssText = `
+      position: fixed;
+      top: 100px;
+      left: 10px;
+      right: 340px;
+      bottom: 10px;
+      display: none;
+      flex-direction: column;
+      background: rgba(30, 30, 30, 0.96);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 8px;
+      z-index: 1500;
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      color: #ddd;
+    `
+
+    // Toolbar
+    const toolbar = document.createElement('div')
+    toolbar.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 12px;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+    `
+
+    const title = document.createElement('strong')
+    title.textContent = 'Seed Gallery'
+    title.style.fontSize = '14px'
+    toolbar.appendChild(title)
+
+    toolbar.appendChild(this.createButton('New Seeds', () => this.explore(SeedGallery.seedVariants(this.settings.count))))
+    toolbar.appendChild(this.createButton('Mutate Current', () => {
+      const config = this.terrainBuilder.capturePreset('Current')
+      this.explore(SeedGallery.mutateVariants(config, this.settings.count, this.settings.mutationStrength))
+    }))
+
+    toolbar.appendChild(this.createSelect('Style', { 'Shaded Relief': 'relief', 'Heightmap': 'heightmap' }, this.settings.style, value => {
+      this.settings.style = value as ThumbnailStyle
+      this.redrawThumbnails()
+    }))
+    toolbar.appendChild(this.createSelect('Size', this.numberOptions(THUMBNAIL_RESOLUTIONS), String(this.settings.resolution), value => {
+      this.settings.resolution = Number(value)
+    }))
+    toolbar.appendChild(this.createSelect('Tiles', this.numberOptions(TILE_COUNTS), String(this.settings.count), value => {
+      this.settings.count = Number(value)
+    }))
+
+    const strengthLabel = document.createElement('label')
+    strengthLabel.textContent = 'Mutation '
+    const strength = document.createElement('input')
+    strength.type = 'range'
+    strength.min = '0.05'
+    strength.max = '1'
+    strength.step = '0.05'
+    strength.value = String(this.settings.mutationStrength)
+    strength.style.width = '80px'
+    strength.addEventListener('input', () => { this.settings.mutationStrength = Number(strength.value) })
+    strengthLabel.appendChild(strength)
+    toolbar.appendChild(strengthLabel)
+
+    this.statusText = document.createElement('span')
+    this.statusText.style.cssText = 'flex: 1; color: #aaa;'
+    toolbar.appendChild(this.statusText)
+
+    toolbar.appendChild(this.createButton('Close', () => this.hide()))
+    this.panel.appendChild(toolbar)
+
+    // Scrollable tile grid
+    this.grid = document.createElement('div')
+    this.grid.style.cssText = `
+      flex: 1;
+      overflow: auto;
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(${TILE_DISPLAY_SIZE}px, 1fr));
+      align-content: start;
+      gap: 10px;
+      padding: 12px;
+    `
+    this.panel.appendChild(this.grid)
+    document.body.appendChild(this.panel)
+  }
+
+  /**
+   * Replace the grid with tiles for `variants` and fill them in as the workers finish
+   */
+  private async explore(variants: GalleryVariant[]): Promise<void> {
+    this.cancellationToken?.cancel()
+    const cancellationToken = new CancellationToken()
+    this.cancellationToken = cancellationToken
+
+    const { resolution } = this.settings
+    this.variants = variants
+    this.heights = variants.map(() => null)
+    this.grid.replaceChildren()
+    this.canvases = variants.map(variant => this.createTile(variant, resolution))
+
+    let finished = 0
+    this.statusText.textContent = `Generating 0/${variants.length}...`
+
+    try {
+      await this.terrainBuilder.generateGalleryThumbnails(variants, resolution, (index, heightData) => {
+        this.heights[index] = heightData
+        this.drawThumbnail(index)
+        finished++
+        this.statusText.textContent = `Generating ${finished}/${variants.length}...`
+      }, cancellationToken)
+      this.statusText.textContent = 'Click a tile to use it at full resolution'
+    } catch (error) {
+      if (isCancelledError(error)) return
+      console.error('Failed to generate gallery thumbnails:', error)
+      this.statusText.textContent = `Failed: ${error instanceof Error ? error.message : error}`
+    } finally {
+      if (this.cancellationToken === cancellationToken) {
+        this.cancellationToken = null
+      }
+    }
+  }
+
+  private createTile(variant: GalleryVariant, resolution: number): HTMLCanvasElement {
+    const tile = document.createElement('div')
+    tile.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      padding: 6px;
+      background: #2a2a2a;
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 6px;
+      cursor: pointer;
+    `
+    tile.title = 'Use this terrain at full resolution'
+    tile.addEventListener('mouseenter', () => { tile.style.borderColor = '#0066cc' })
+    tile.addEventListener('mouseleave', () => { tile.style.borderColor = 'rgba(255, 255, 255, 0.15)' })
+    tile.addEventListener('click', () => this.applyVariant(variant))
+
+    const canvas = document.createElement('canvas')
+    canvas.width = resolution
+    canvas.height = resolution
+    canvas.style.cssText = `
+      width: 100%;
+      aspect-ratio: 1;
+      background: #111;
+      border-radius: 4px;
+      image-rendering: pixelated;
+    `
+    tile.appendChild(canvas)
+
+    const label = document.createElement('span')
+    label.textContent = variant.label
+    label.style.color = '#aaa'
+    tile.appendChild(label)
+
+    this.grid.appendChild(tile)
+    return canvas
+  }
+
+  private drawThumbnail(index: number): void {
+    const heightData = this.heights[index]
+    const canvas = this.canvases[index]
+    if (!heightData || !canvas) return
+
+    const resolution = canvas.width
+    const worldSize = this.terrainBuilder.getConfig().size * 1000
+    const pixels = SeedGallery.renderThumbnail(heightData, resolution, worldSize, this.settings.style)
+    canvas.getContext('2d')!.putImageData(new ImageData(pixels, resolution, resolution), 0, 0)
+  }
+
+  private redrawThumbnails(): void {
+    this.heights.forEach((_, index) => this.drawThumbnail(index))
+  }
+
+  private async applyVariant(variant: GalleryVariant): Promise<void> {
+    try {
+      this.statusText.textContent = `Applying ${variant.label}...`
+      await this.terrainBuilder.applyGalleryVariant(variant)
+      this.statusText.textContent = `Using ${variant.label}`
+      this.onApplied()
+    } catch (error) {
+      console.error('Failed to apply gallery terrain:', error)
+      alert(`Failed to apply gallery terrain: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  private numberOptions(values: number[]): Record<string, string> {
+    return Object.fromEntries(values.map(value => [String(value), String(value)]))
+  }
+
+  private createSelect(label: string, options: Record<string, string>, value: string, onChange: (value: string) => void): HTMLLabelElement {
+    const wrapper = document.createElement('label')
+    wrapper.textContent = `${label} `
+    const select = document.createElement('select')
+    for (const [text, optionValue] of Object.entries(options)) {
+      select.appendChild(new Option(text, optionValue, false, optionValue === value))
+    }
+    select.addEventListener('change', () => onChange(select.value))
+    wrapper.appendChild(select)
+    return wrapper
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button')
+    button.textContent = label
+    button.style.cssText = `
+      padding: 4px 10px;
+      background: #0066cc;
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+    `
+    button.addEventListener('click', onClick)
+    return button
+  }
+}
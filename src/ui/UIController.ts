@@ -1,7 +1,17 @@
-import { GUI } from 'lil-gui'
+import { GUI, Controller } from 'lil-gui'
 import { TerrainBuilder, EditorMode } from '../core/TerrainBuilder'
-import { BrushMode } from '../core/BrushSystem'
+import { BrushMode } from '../core/HeightBrush'
+import { HeightmapFormat, HeightmapMetadataMode } from '../core/HeightmapExporter'
+import { BAKE_MAP_TYPES, BakeMapType } from '../core/TerrainBaker'
+import { HeightmapImporter, ImportedHeightmap } from '../core/HeightmapImporter'
+import { DemImporter } from '../core/DemImporter'
+import { BlendMode, DEFAULT_SLOPE_FALLOFF } from '../core/AdvancedTerrainGenerator'
+import { TerrainPresets } from '../core/TerrainPresets'
+import { PresetMorph } from '../core/PresetMorph'
+import { PresetStore } from '../core/PresetStore'
 import { ProgressOverlay } from './ProgressOverlay'
+import { GraphEditorPanel } from './GraphEditorPanel'
+import { SeedGalleryPanel } from './SeedGalleryPanel'
 
 export class UIController {
   private terrainBuilder: TerrainBuilder
@@ -11,27 +21,64 @@ export class UIController {
   private noiseLayersFolder: any = null
   private updateTimeout: number | null = null
   private progressOverlay: ProgressOverlay
+  private graphEditorPanel: GraphEditorPanel
+  private seedGalleryPanel: SeedGalleryPanel
+  private presetStore: PresetStore = new PresetStore()
+  private presetController: Controller | null = null
+  private morphFromController: Controller | null = null
+  private morphToController: Controller | null = null
 
   // UI state objects for lil-gui
   private terrainParams = {
     size: 5,
     resolution: 256,
+    keepEditsOnResize: true,
     geologicalComplexity: 1.0,
     domainWarping: 0.5,
     reliefAmplitude: 2.0,
     featureScale: 1.5,
+    tileable: false,
     seed: 123456,
     showGrid: true,
     randomizeSeed: () => this.randomizeSeed(),
+    openSeedGallery: () => this.seedGalleryPanel.toggle(),
     testHighRes: () => this.testHighResolution()
   }
 
+  private presetSettings = {
+    preset: 'rolling_hills',
+    name: 'My Preset',
+    description: '',
+    applyPreset: () => this.applyTerrainPreset(),
+    savePreset: () => this.saveTerrainPreset(),
+    deletePreset: () => this.deleteTerrainPreset(),
+    exportPresets: () => this.exportTerrainPresets(),
+    importPresets: () => this.importTerrainPresets()
+  }
+
+  private morphSettings = {
+    from: 'alpine_peaks',
+    to: 'rolling_hills',
+    mode: 'uniform' as 'uniform' | 'gradient',
+    blend: 0.5,
+    angle: 90,
+    center: 0,
+    width: 1,
+    applyMorph: () => this.applyPresetMorph(),
+    clearMorph: () => this.terrainBuilder.clearTerrainMorph()
+  }
+
   private brushParams = {
     mode: 'raise' as BrushMode,
     size: 10,
     strength: 0.5
   }
 
+  private historyActions = {
+    undo: () => this.undo(),
+    redo: () => this.redo()
+  }
+
   private mountainPresets = {
     alaskanEverest: () => this.applyMountainPreset('alaskan'),
     nevadaNewMexico: () => this.applyMountainPreset('desert')
@@ -44,9 +91,62 @@ export class UIController {
     createRiver: () => this.createRiver()
   }
 
+  private erosionSettings = {
+    seed: 1337
+  }
+
+  private graphActions = {
+    openGraphEditor: () => this.graphEditorPanel.toggle()
+  }
+
+  private worldSettings = {
+    enabled: false,
+    viewRadius: 1,
+    chunkResolution: 129,
+    erosion: false
+  }
+
   private exportActions = {
     exportHeightmap: () => this.exportHeightmap(),
-    exportProject: () => this.exportProject()
+    exportGLB: () => this.exportGLB(),
+    exportOBJ: () => this.exportOBJ(),
+    exportSTL: () => this.exportSTL(),
+    exportSplatmap: () => this.exportSplatmap(),
+    bakeMaps: () => this.bakeMaps(),
+    exportProject: () => this.exportProject(),
+    importProject: () => this.importProject()
+  }
+
+  private importSettings = {
+    mode: 'replace' as 'replace' | 'layer',
+    blendMode: BlendMode.ADD,
+    minHeight: 0,
+    maxHeight: 500,
+    // DEM region as fractions of the source grid
+    regionLeft: 0,
+    regionTop: 0,
+    regionWidth: 1,
+    regionHeight: 1,
+    importHeightmap: () => this.importHeightmap()
+  }
+
+  private exportSettings = {
+    heightmapFormat: 'png16' as HeightmapFormat,
+    heightmapMetadata: 'sidecar' as HeightmapMetadataMode,
+    // Mesh export: 0 keeps full resolution
+    meshTargetTriangles: 0,
+    meshTiles: 1,
+    meshVertexColors: true,
+    // 3D print export, millimeters
+    printSize: 200,
+    printBaseThickness: 5,
+    printExaggeration: 1.5,
+    printTargetTriangles: 500000,
+    // Map baking
+    bakeType: 'normal-tangent' as BakeMapType | 'all',
+    bakeNormalConvention: 'opengl' as 'opengl' | 'directx',
+    bakeAORadius: 50,
+    compressProject: true
   }
 
   private guideInfo = {
@@ -55,18 +155,22 @@ export class UIController {
     modeSwitch: "Use the Mode button (top-left) to switch between Orbit and Brush modes",
     terrainTips: "Adjust geological parameters for different terrain types",
     brushTips: "Different brush modes: Raise/Lower for height, Smooth for blending, Flatten for plateaus",
-    presetTips: "Mountain presets apply specialized large-scale brushes - switch to Brush mode first"
+    presetTips: "Mountain presets apply specialized large-scale brushes - switch to Brush mode first",
+    undoTips: "Ctrl+Z undoes strokes, erosion and regeneration - Ctrl+Shift+Z redoes"
   }
 
   constructor(terrainBuilder: TerrainBuilder) {
     this.terrainBuilder = terrainBuilder
     this.canvas = document.getElementById('canvas') as HTMLCanvasElement
     this.progressOverlay = new ProgressOverlay()
+    this.graphEditorPanel = new GraphEditorPanel(terrainBuilder)
+    this.seedGalleryPanel = new SeedGalleryPanel(terrainBuilder, () => this.syncUIWithTerrain())
     
     this.setupModeToggle()
     this.setupGUI()
     this.setupCanvasEvents()
     this.syncUIWithTerrain()
+    this.loadUserPresets()
   }
 
   private setupModeToggle(): void {
@@ -134,9 +238,13 @@ export class UIController {
       .name('🔧 Resolution')
       .onChange((value: number) => {
         console.log(`Setting resolution to ${value}x${value}`)
-        this.terrainBuilder.setResolution(value)
+        this.changeResolution(value)
         this.updateResolutionInfo(value)
       })
+    
+    // Resample the sculpted terrain on resolution changes, or regenerate it from scratch
+    terrainFolder.add(this.terrainParams, 'keepEditsOnResize')
+      .name('Keep Edits on Resize')
 
     // Test high resolution button
     terrainFolder.add(this.terrainParams, 'testHighRes')
@@ -166,6 +274,12 @@ export class UIController {
         this.terrainBuilder.updateConfig({ featureScale: value })
       })
 
+    terrainFolder.add(this.terrainParams, 'tileable')
+      .name('Tileable')
+      .onChange((value: boolean) => {
+        this.terrainBuilder.updateConfig({ tileable: value })
+      })
+
     terrainFolder.add(this.terrainParams, 'seed')
       .name('Seed')
       .onChange((value: number) => {
@@ -175,6 +289,9 @@ export class UIController {
     terrainFolder.add(this.terrainParams, 'randomizeSeed')
       .name('🎲 Randomize Seed')
 
+    terrainFolder.add(this.terrainParams, 'openSeedGallery')
+      .name('🖼️ Seed Gallery')
+
     terrainFolder.add(this.terrainParams, 'showGrid')
       .name('Show Grid')
       .onChange((value: boolean) => {
@@ -183,6 +300,70 @@ export class UIController {
 
     terrainFolder.open()
 
+    // Terrain presets folder: built-in presets plus user presets kept in IndexedDB
+    const presetFolder = this.gui.addFolder('Terrain Presets')
+    
+    this.presetController = presetFolder.add(this.presetSettings, 'preset', this.getPresetOptions())
+      .name('Preset')
+    
+    presetFolder.add(this.presetSettings, 'applyPreset')
+      .name('✅ Apply Preset')
+    
+    presetFolder.add(this.presetSettings, 'name')
+      .name('Preset Name')
+    
+    presetFolder.add(this.presetSettings, 'description')
+      .name('Description')
+    
+    presetFolder.add(this.presetSettings, 'savePreset')
+      .name('💾 Save Current as Preset')
+    
+    presetFolder.add(this.presetSettings, 'deletePreset')
+      .name('🗑️ Delete User Preset')
+    
+    presetFolder.add(this.presetSettings, 'exportPresets')
+      .name('Export User Presets')
+    
+    presetFolder.add(this.presetSettings, 'importPresets')
+      .name('Import Presets')
+    
+    // Morph between two presets, everywhere at once or along a gradient across the map
+    const morphFolder = presetFolder.addFolder('Preset Morph')
+    
+    this.morphFromController = morphFolder.add(this.morphSettings, 'from', this.getPresetOptions())
+      .name('From')
+    
+    this.morphToController = morphFolder.add(this.morphSettings, 'to', this.getPresetOptions())
+      .name('To')
+    
+    morphFolder.add(this.morphSettings, 'mode', { 'Uniform': 'uniform', 'Gradient': 'gradient' })
+      .name('Mode')
+    
+    morphFolder.add(this.morphSettings, 'blend', 0, 1, 0.01)
+      .name('Blend (Uniform)')
+      .onFinishChange(() => {
+        if (this.morphSettings.mode === 'uniform') {
+          this.applyPresetMorph()
+        }
+      })
+    
+    morphFolder.add(this.morphSettings, 'angle', 0, 360, 5)
+      .name('Direction (°)')
+    
+    morphFolder.add(this.morphSettings, 'center', -1, 1, 0.05)
+      .name('Center')
+    
+    morphFolder.add(this.morphSettings, 'width', 0.05, 2, 0.05)
+      .name('Transition Width')
+    
+    morphFolder.add(this.morphSettings, 'applyMorph')
+      .name('🔀 Apply Morph')
+    
+    morphFolder.add(this.morphSettings, 'clearMorph')
+      .name('Clear Gradient Morph')
+    
+    presetFolder.close()
+
     // Brush Tools folder
     const brushFolder = this.gui.addFolder('Brush Tools')
     
@@ -204,6 +385,12 @@ export class UIController {
         this.terrainBuilder.getBrushSystem().setBrushSettings({ strength: value })
       })
 
+    brushFolder.add(this.historyActions, 'undo')
+      .name('↶ Undo (Ctrl+Z)')
+    
+    brushFolder.add(this.historyActions, 'redo')
+      .name('↷ Redo (Ctrl+Shift+Z)')
+
     brushFolder.open()
 
     // Mountain Presets folder
@@ -218,20 +405,157 @@ export class UIController {
     // Erosion Presets folder
     const erosionFolder = this.gui.addFolder('Erosion Presets')
     
+    erosionFolder.add(this.erosionSettings, 'seed')
+      .name('Erosion Seed')
+      .onChange((value: number) => {
+        this.terrainBuilder.setErosionSeed(value)
+      })
+    
     erosionFolder.add(this.erosionPresets, 'gentleRain')
       .name('🌧️ Gentle Rain')
     
     erosionFolder.add(this.erosionPresets, 'createRiver')
       .name('🏞️ Create River')
 
+    // Node graph folder
+    const graphFolder = this.gui.addFolder('Node Graph')
+    
+    graphFolder.add(this.graphActions, 'openGraphEditor')
+      .name('🕸️ Open Graph Editor')
+
+    // Infinite world folder
+    const worldFolder = this.gui.addFolder('Infinite World')
+    
+    worldFolder.add(this.worldSettings, 'enabled')
+      .name('Stream Chunks')
+      .onChange(() => this.applyWorldSettings())
+    
+    worldFolder.add(this.worldSettings, 'viewRadius', 1, 4, 1)
+      .name('View Radius (chunks)')
+      .onFinishChange(() => this.applyWorldSettings())
+    
+    worldFolder.add(this.worldSettings, 'chunkResolution', [65, 129, 257])
+      .name('Chunk Resolution')
+      .onChange(() => this.applyWorldSettings())
+    
+    worldFolder.add(this.worldSettings, 'erosion')
+      .name('Erode Chunks')
+      .onChange(() => this.applyWorldSettings())
+
+    // Import folder
+    const importFolder = this.gui.addFolder('Import Heightmap')
+    
+    importFolder.add(this.importSettings, 'mode', {
+      'Replace Terrain': 'replace',
+      'Add as Layer': 'layer'
+    }).name('Import Mode')
+    
+    importFolder.add(this.importSettings, 'blendMode', {
+      'Add': BlendMode.ADD,
+      'Multiply': BlendMode.MULTIPLY,
+      'Overlay': BlendMode.OVERLAY,
+      'Screen': BlendMode.SCREEN,
+      'Subtract': BlendMode.SUBTRACT,
+      'Elevation Mask': BlendMode.MASK_ELEVATION,
+      'Slope Mask': BlendMode.MASK_SLOPE
+    }).name('Layer Blend Mode')
+    
+    importFolder.add(this.importSettings, 'minHeight', -2000, 5000, 10)
+      .name('Min Height (m)')
+    
+    importFolder.add(this.importSettings, 'maxHeight', -2000, 5000, 10)
+      .name('Max Height (m)')
+    
+    const regionFolder = importFolder.addFolder('DEM Region (.hgt/.asc)')
+    regionFolder.add(this.importSettings, 'regionLeft', 0, 1, 0.01).name('Left')
+    regionFolder.add(this.importSettings, 'regionTop', 0, 1, 0.01).name('Top')
+    regionFolder.add(this.importSettings, 'regionWidth', 0.01, 1, 0.01).name('Width')
+    regionFolder.add(this.importSettings, 'regionHeight', 0.01, 1, 0.01).name('Height')
+    regionFolder.close()
+    
+    importFolder.add(this.importSettings, 'importHeightmap')
+      .name('📥 Import Heightmap / DEM')
+    
+    importFolder.close()
+
     // Export folder
     const exportFolder = this.gui.addFolder('Export')
     
+    exportFolder.add(this.exportSettings, 'heightmapFormat', {
+      'PNG 16-bit': 'png16',
+      'RAW R16 (Unity/Unreal)': 'r16',
+      'RAW R32 (float)': 'r32',
+      'PNG 8-bit': 'png8'
+    }).name('Heightmap Format')
+    
+    exportFolder.add(this.exportSettings, 'heightmapMetadata', {
+      'JSON Sidecar': 'sidecar',
+      'Embedded (PNG only)': 'embed',
+      'Embedded + Sidecar': 'both',
+      'None': 'none'
+    }).name('Height Metadata')
+    
     exportFolder.add(this.exportActions, 'exportHeightmap')
       .name('Export Heightmap')
     
+    const meshFolder = exportFolder.addFolder('Mesh (GLB / OBJ)')
+    meshFolder.add(this.exportSettings, 'meshTargetTriangles', 0, 2000000, 10000)
+      .name('Target Triangles (0 = full)')
+    meshFolder.add(this.exportSettings, 'meshTiles', 1, 16, 1)
+      .name('Tiles per Side')
+    meshFolder.add(this.exportSettings, 'meshVertexColors')
+      .name('Vertex Colors')
+    meshFolder.add(this.exportActions, 'exportGLB')
+      .name('Export GLB')
+    meshFolder.add(this.exportActions, 'exportOBJ')
+      .name('Export OBJ + MTL')
+    meshFolder.close()
+    
+    const printFolder = exportFolder.addFolder('3D Print (STL)')
+    printFolder.add(this.exportSettings, 'printSize', 20, 1000, 5)
+      .name('Print Size (mm)')
+    printFolder.add(this.exportSettings, 'printBaseThickness', 0, 50, 0.5)
+      .name('Base Thickness (mm)')
+    printFolder.add(this.exportSettings, 'printExaggeration', 0.1, 10, 0.1)
+      .name('Vertical Exaggeration')
+    printFolder.add(this.exportSettings, 'printTargetTriangles', 10000, 4000000, 10000)
+      .name('Max Triangles')
+    printFolder.add(this.exportActions, 'exportSTL')
+      .name('Export STL')
+    printFolder.close()
+    
+    exportFolder.add(this.exportActions, 'exportSplatmap')
+      .name('Export Splatmap (RGBA)')
+    
+    const bakeFolder = exportFolder.addFolder('Bake Maps (16-bit PNG)')
+    bakeFolder.add(this.exportSettings, 'bakeType', {
+      'Normal (Tangent Space)': 'normal-tangent',
+      'Normal (Object Space)': 'normal-object',
+      'Slope': 'slope',
+      'Aspect': 'aspect',
+      'Plan Curvature': 'curvature-plan',
+      'Profile Curvature': 'curvature-profile',
+      'Ambient Occlusion': 'ao',
+      'All Maps': 'all'
+    }).name('Map')
+    bakeFolder.add(this.exportSettings, 'bakeNormalConvention', {
+      'OpenGL (Y+)': 'opengl',
+      'DirectX (Y-)': 'directx'
+    }).name('Normal Convention')
+    bakeFolder.add(this.exportSettings, 'bakeAORadius', 1, 2000, 1)
+      .name('AO Radius (m)')
+    bakeFolder.add(this.exportActions, 'bakeMaps')
+      .name('Bake & Export')
+    bakeFolder.close()
+    
+    exportFolder.add(this.exportSettings, 'compressProject')
+      .name('Compress Project')
+    
     exportFolder.add(this.exportActions, 'exportProject')
       .name('Export Project')
+    
+    exportFolder.add(this.exportActions, 'importProject')
+      .name('Import Project')
 
     // Guide folder (collapsed by default)
     const guideFolder = this.gui.addFolder('Guide')
@@ -261,6 +585,10 @@ export class UIController {
       .name('📦 Preset Tips')
       .disable()
     
+    guideFolder.add(this.guideInfo, 'undoTips')
+      .name('↶ Undo/Redo')
+      .disable()
+    
     // Keep guide folder closed by default
     guideFolder.close()
     
@@ -340,6 +668,51 @@ export class UIController {
           this.terrainBuilder.updateLayerWeight(index, value / 100, false)
         })
       
+      // Blending for custom layers - slope masking puts detail only on steep faces or flats
+      if (isCustomLayer) {
+        const blendControl = {
+          blendMode: layer.blendMode ?? BlendMode.ADD,
+          minSlope: layer.slopeRange?.min ?? 35,
+          maxSlope: layer.slopeRange?.max ?? 90,
+          slopeFalloff: layer.slopeFalloff ?? DEFAULT_SLOPE_FALLOFF
+        }
+        
+        folder.add(blendControl, 'blendMode', {
+          'Add': BlendMode.ADD,
+          'Multiply': BlendMode.MULTIPLY,
+          'Overlay': BlendMode.OVERLAY,
+          'Screen': BlendMode.SCREEN,
+          'Subtract': BlendMode.SUBTRACT,
+          'Elevation Mask': BlendMode.MASK_ELEVATION,
+          'Slope Mask': BlendMode.MASK_SLOPE
+        }).name('Blend Mode')
+          .onChange((value: BlendMode) => {
+            this.terrainBuilder.updateCustomLayer(index, { blendMode: value })
+          })
+        
+        if (blendControl.blendMode === BlendMode.MASK_SLOPE) {
+          const updateSlopeRange = () => {
+            this.terrainBuilder.updateCustomLayer(index, {
+              slopeRange: { min: blendControl.minSlope, max: blendControl.maxSlope }
+            })
+          }
+          
+          folder.add(blendControl, 'minSlope', 0, 90, 1)
+            .name('Min Slope (°)')
+            .onFinishChange(updateSlopeRange)
+          
+          folder.add(blendControl, 'maxSlope', 0, 90, 1)
+            .name('Max Slope (°)')
+            .onFinishChange(updateSlopeRange)
+          
+          folder.add(blendControl, 'slopeFalloff', 0, 30, 1)
+            .name('Slope Falloff (°)')
+            .onFinishChange((value: number) => {
+              this.terrainBuilder.updateCustomLayer(index, { slopeFalloff: value })
+            })
+        }
+      }
+      
       // Add preview canvas to folder
       const previewContainer = document.createElement('div')
       previewContainer.style.padding = '8px'
@@ -424,7 +797,15 @@ export class UIController {
     })
   }
 
-  private syncUIWithTerrain(): void {
+  /**
+   * Start, restart or stop infinite world streaming from the folder's settings
+   */
+  private applyWorldSettings(): void {
+    const { enabled, viewRadius, chunkResolution, erosion } = this.worldSettings
+    this.terrainBuilder.setInfiniteWorld(enabled ? { viewRadius, chunkResolution: Number(chunkResolution), erosion } : null)
+  }
+
+  public syncUIWithTerrain(): void {
     const config = this.terrainBuilder.getConfig()
     
     // Update terrain params
@@ -434,7 +815,10 @@ export class UIController {
     this.terrainParams.domainWarping = config.domainWarping
     this.terrainParams.reliefAmplitude = config.reliefAmplitude
     this.terrainParams.featureScale = config.featureScale
+    this.terrainParams.tileable = !!config.tileable
     this.terrainParams.seed = config.seed
+    this.erosionSettings.seed = this.terrainBuilder.getErosionSeed()
+    this.graphEditorPanel.syncWithTerrain()
     this.terrainParams.showGrid = this.terrainBuilder.isGridVisible()
 
     // Update brush params
@@ -447,6 +831,163 @@ export class UIController {
     this.updateGUIDisplay()
   }
 
+  /**
+   * Dropdown entries (label -> preset key); user presets are starred
+   */
+  private getPresetOptions(): Record<string, string> {
+    const options: Record<string, string> = {}
+    for (const key of TerrainPresets.getPresetNames()) {
+      const preset = TerrainPresets.getPreset(key)!
+      options[TerrainPresets.isBuiltIn(key) ? preset.name : `⭐ ${preset.name}`] = key
+    }
+    return options
+  }
+
+  private refreshPresetOptions(selected?: string): void {
+    if (selected) {
+      this.presetSettings.preset = selected
+    }
+    this.presetController = this.presetController?.options(this.getPresetOptions()).name('Preset') ?? null
+    
+    // Deleted presets fall back to the first one in the morph dropdowns
+    const fallback = TerrainPresets.getPresetNames()[0]
+    if (!TerrainPresets.hasPreset(this.morphSettings.from)) this.morphSettings.from = fallback
+    if (!TerrainPresets.hasPreset(this.morphSettings.to)) this.morphSettings.to = fallback
+    this.morphFromController = this.morphFromController?.options(this.getPresetOptions()).name('From') ?? null
+    this.morphToController = this.morphToController?.options(this.getPresetOptions()).name('To') ?? null
+  }
+
+  /**
+   * Register the presets saved in earlier sessions
+   */
+  private async loadUserPresets(): Promise<void> {
+    if (!PresetStore.isAvailable()) return
+    
+    try {
+      for (const preset of await this.presetStore.getAll()) {
+        TerrainPresets.addPreset(preset)
+      }
+      this.refreshPresetOptions()
+    } catch (error) {
+      console.warn('Failed to load user presets:', error)
+    }
+  }
+
+  private async applyTerrainPreset(): Promise<void> {
+    const preset = TerrainPresets.getPreset(this.presetSettings.preset)
+    if (!preset) return
+    
+    try {
+      await this.terrainBuilder.applyPreset(structuredClone(preset))
+      this.syncUIWithTerrain()
+    } catch (error) {
+      console.error('Failed to apply preset:', error)
+      alert(`Failed to apply preset: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  /**
+   * Uniform mode applies the interpolated preset, gradient mode turns "From" into "To"
+   * across the map in the direction set
+   */
+  private async applyPresetMorph(): Promise<void> {
+    const { from, to, mode, blend, angle, center, width } = this.morphSettings
+    const fromPreset = TerrainPresets.getPreset(from)
+    const toPreset = TerrainPresets.getPreset(to)
+    if (!fromPreset || !toPreset) return
+    
+    try {
+      if (mode === 'gradient') {
+        await this.terrainBuilder.applyPreset(structuredClone(fromPreset), PresetMorph.createMorph(toPreset, { angle, center, width }))
+      } else {
+        await this.terrainBuilder.applyPreset(PresetMorph.interpolate(fromPreset, toPreset, blend))
+      }
+      this.syncUIWithTerrain()
+    } catch (error) {
+      console.error('Failed to apply preset morph:', error)
+      alert(`Failed to apply preset morph: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  private async saveTerrainPreset(): Promise<void> {
+    const name = this.presetSettings.name.trim()
+    if (!name) {
+      alert('Please enter a preset name first.')
+      return
+    }
+    
+    try {
+      const key = TerrainPresets.keyFor(name)
+      if (TerrainPresets.hasPreset(key) && !TerrainPresets.isBuiltIn(key) && !confirm(`Replace the preset "${name}"?`)) {
+        return
+      }
+      
+      const preset = this.terrainBuilder.capturePreset(name, this.presetSettings.description)
+      TerrainPresets.addPreset(preset)
+      if (PresetStore.isAvailable()) {
+        await this.presetStore.put(preset)
+      }
+      this.refreshPresetOptions(key)
+    } catch (error) {
+      console.error('Failed to save preset:', error)
+      alert(`Failed to save preset: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  private async deleteTerrainPreset(): Promise<void> {
+    const key = this.presetSettings.preset
+    const preset = TerrainPresets.getPreset(key)
+    if (!preset) return
+    if (TerrainPresets.isBuiltIn(key)) {
+      alert('Built-in presets cannot be deleted.')
+      return
+    }
+    if (!confirm(`Delete the preset "${preset.name}"?`)) return
+    
+    try {
+      TerrainPresets.removePreset(key)
+      if (PresetStore.isAvailable()) {
+        await this.presetStore.delete(preset.name)
+      }
+      this.refreshPresetOptions(TerrainPresets.getPresetNames()[0])
+    } catch (error) {
+      console.error('Failed to delete preset:', error)
+      alert(`Failed to delete preset: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  private exportTerrainPresets(): void {
+    const presets = TerrainPresets.getPresetNames()
+      .filter(key => !TerrainPresets.isBuiltIn(key))
+      .map(key => TerrainPresets.getPreset(key)!)
+    if (presets.length === 0) {
+      alert('There are no user presets to export yet.')
+      return
+    }
+    
+    this.downloadBlob(new Blob([TerrainPresets.toJSON(presets)], { type: 'application/json' }), 'terrain-presets.json')
+  }
+
+  private importTerrainPresets(): void {
+    this.selectFiles('.json,application/json', true, async (files) => {
+      try {
+        let lastKey: string | undefined
+        for (const file of files) {
+          for (const preset of TerrainPresets.fromJSON(await file.text())) {
+            lastKey = TerrainPresets.addPreset(preset)
+            if (PresetStore.isAvailable()) {
+              await this.presetStore.put(preset)
+            }
+          }
+        }
+        this.refreshPresetOptions(lastKey)
+      } catch (error) {
+        console.error('Failed to import presets:', error)
+        alert(`Failed to import presets: ${error instanceof Error ? error.message : error}`)
+      }
+    })
+  }
+
   private randomizeSeed(): void {
     this.terrainBuilder.randomizeSeed()
     const newSeed = this.terrainBuilder.getConfig().seed
@@ -454,6 +995,14 @@ export class UIController {
     this.updateGUIDisplay()
   }
 
+  private undo(): void {
+    this.terrainBuilder.undo().catch(console.error)
+  }
+
+  private redo(): void {
+    this.terrainBuilder.redo().catch(console.error)
+  }
+
   private applyMountainPreset(preset: 'alaskan' | 'desert'): void {
     this.terrainBuilder.getBrushSystem().applyMountainPreset(preset)
     this.syncBrushUI()
@@ -489,22 +1038,104 @@ export class UIController {
     this.updateGUIDisplay()
   }
 
-  private exportHeightmap(): void {
+  private async exportHeightmap(): Promise<void> {
     try {
-      const dataUrl = this.terrainBuilder.exportHeightmap()
-      this.downloadFile(dataUrl, 'heightmap.png')
+      const result = await this.terrainBuilder.exportHeightmapFile({
+        format: this.exportSettings.heightmapFormat,
+        metadata: this.exportSettings.heightmapMetadata
+      })
+      this.downloadBlob(new Blob([result.data as Uint8Array<ArrayBuffer>], { type: result.mimeType }), `heightmap.${result.extension}`)
+      
+      if (result.sidecar) {
+        this.downloadBlob(new Blob([result.sidecar], { type: 'application/json' }), 'heightmap.json')
+      }
     } catch (error) {
       console.error('Failed to export heightmap:', error)
       alert('Failed to export heightmap. Please try again.')
     }
   }
 
-  private exportProject(): void {
+  private exportGLB(): void {
+    try {
+      const result = this.terrainBuilder.exportGLB({
+        targetTriangles: this.exportSettings.meshTargetTriangles,
+        tiles: this.exportSettings.meshTiles,
+        vertexColors: this.exportSettings.meshVertexColors
+      })
+      console.log(`Exported GLB with ${result.triangleCount} triangles in ${result.tileCount} tile(s)`)
+      this.downloadBlob(new Blob([result.data as Uint8Array<ArrayBuffer>], { type: 'model/gltf-binary' }), 'terrain.glb')
+    } catch (error) {
+      console.error('Failed to export GLB:', error)
+      alert('Failed to export GLB. Please try again.')
+    }
+  }
+
+  private async exportOBJ(): Promise<void> {
     try {
-      const projectData = this.terrainBuilder.exportProject()
-      const blob = new Blob([projectData], { type: 'application/json' })
+      const result = await this.terrainBuilder.exportOBJ({
+        targetTriangles: this.exportSettings.meshTargetTriangles,
+        tiles: this.exportSettings.meshTiles
+      })
+      console.log(`Exported OBJ with ${result.triangleCount} triangles`)
+      for (const file of result.files) {
+        this.downloadBlob(new Blob([file.data as Uint8Array<ArrayBuffer>], { type: file.mimeType }), file.name)
+      }
+    } catch (error) {
+      console.error('Failed to export OBJ:', error)
+      alert('Failed to export OBJ. Please try again.')
+    }
+  }
+
+  private exportSTL(): void {
+    try {
+      const result = this.terrainBuilder.exportSTL({
+        printSize: this.exportSettings.printSize,
+        baseThickness: this.exportSettings.printBaseThickness,
+        verticalExaggeration: this.exportSettings.printExaggeration,
+        targetTriangles: this.exportSettings.printTargetTriangles
+      })
+      console.log(`Exported STL with ${result.triangleCount} triangles, model height ${result.modelHeight.toFixed(1)}mm`)
+      this.downloadBlob(new Blob([result.data as Uint8Array<ArrayBuffer>], { type: 'model/stl' }), 'terrain.stl')
+    } catch (error) {
+      console.error('Failed to export STL:', error)
+      alert('Failed to export STL. Please try again.')
+    }
+  }
+
+  private async exportSplatmap(): Promise<void> {
+    try {
+      const result = await this.terrainBuilder.exportSplatmap('splatmap.png')
+      this.downloadBlob(new Blob([result.png as Uint8Array<ArrayBuffer>], { type: 'image/png' }), 'splatmap.png')
+      this.downloadBlob(new Blob([result.manifest], { type: 'application/json' }), 'splatmap.json')
+    } catch (error) {
+      console.error('Failed to export splatmap:', error)
+      alert('Failed to export splatmap. Please try again.')
+    }
+  }
+
+  private async bakeMaps(): Promise<void> {
+    const types = this.exportSettings.bakeType === 'all' ? BAKE_MAP_TYPES : [this.exportSettings.bakeType]
+    
+    try {
+      for (const type of types) {
+        const { png } = await this.terrainBuilder.bakeMap(type, {
+          normalConvention: this.exportSettings.bakeNormalConvention,
+          aoRadius: this.exportSettings.bakeAORadius
+        })
+        this.downloadBlob(new Blob([png as Uint8Array<ArrayBuffer>], { type: 'image/png' }), `terrain_${type}.png`)
+      }
+    } catch (error) {
+      console.error('Failed to bake maps:', error)
+      alert('Failed to bake maps. Please try again.')
+    }
+  }
+
+  private async exportProject(): Promise<void> {
+    try {
+      const projectData = await this.terrainBuilder.exportProject({ compress: this.exportSettings.compressProject })
+      const blob = new Blob([projectData], { type: 'application/octet-stream' })
       const url = URL.createObjectURL(blob)
-      this.downloadFile(url, 'terrain-project.json')
+      this.downloadFile(url, 'terrain-project.welt')
       URL.revokeObjectURL(url)
     } catch (error) {
       console.error('Failed to export project:', error)
@@ -512,6 +1143,81 @@ export class UIController {
     }
   }
 
+  private importProject(): void {
+    this.selectFiles('.welt,.json,application/json', false, async ([file]) => {
+      try {
+        const projectData = await file.arrayBuffer()
+        await this.terrainBuilder.importProject(projectData)
+        this.syncUIWithTerrain()
+      } catch (error) {
+        console.error('Failed to import project:', error)
+        alert(`Failed to import project: ${error instanceof Error ? error.message : error}`)
+      }
+    })
+  }
+
+  /**
+   * Import a heightmap or DEM file; a JSON sidecar from our exporter may be selected alongside it
+   */
+  private importHeightmap(): void {
+    this.selectFiles('.png,.r16,.raw,.r32,.f32,.hgt,.asc,.json', true, async (files) => {
+      try {
+        const heightmapFile = files.find(file => !file.name.toLowerCase().endsWith('.json'))
+        if (!heightmapFile) {
+          throw new Error('Please select a heightmap file (.png, .r16, .raw, .r32, .hgt, .asc)')
+        }
+        
+        const bytes = new Uint8Array(await heightmapFile.arrayBuffer())
+        let heightmap: ImportedHeightmap
+        
+        if (/\.(hgt|asc)$/i.test(heightmapFile.name)) {
+          // Real-world DEM - heights are already meters, size comes from the cell size
+          const grid = DemImporter.parseFile(heightmapFile.name, bytes)
+          const { regionLeft, regionTop, regionWidth, regionHeight } = this.importSettings
+          const region = DemImporter.regionFromFractions(grid, regionLeft, regionTop, regionWidth, regionHeight)
+          heightmap = DemImporter.toHeightmap(grid, region)
+        } else {
+          const sidecarFile = files.find(file => file.name.toLowerCase().endsWith('.json'))
+          const metadata = sidecarFile ? JSON.parse(await sidecarFile.text()) : undefined
+          
+          heightmap = await HeightmapImporter.fromFile(
+            heightmapFile.name,
+            bytes,
+            { minHeight: this.importSettings.minHeight, maxHeight: this.importSettings.maxHeight, metadata }
+          )
+        }
+        
+        await this.terrainBuilder.importHeightmap(heightmap, {
+          mode: this.importSettings.mode,
+          blendMode: this.importSettings.blendMode,
+          name: heightmapFile.name
+        })
+        this.syncUIWithTerrain()
+      } catch (error) {
+        console.error('Failed to import heightmap:', error)
+        alert(`Failed to import heightmap: ${error instanceof Error ? error.message : error}`)
+      }
+    })
+  }
+
+  private selectFiles(accept: string, multiple: boolean, onSelect: (files: File[]) => void): void {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = accept
+    input.multiple = multiple
+    input.addEventListener('change', () => {
+      const files = Array.from(input.files ?? [])
+      if (files.length > 0) onSelect(files)
+    })
+    input.click()
+  }
+
+  private downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob)
+    this.downloadFile(url, filename)
+    URL.revokeObjectURL(url)
+  }
+
   private downloadFile(url: string, filename: string): void {
     const link = document.createElement('a')
     link.href = url
@@ -569,6 +1275,23 @@ export class UIController {
     }
   }
 
+  private async changeResolution(resolution: number): Promise<void> {
+    if (!this.terrainParams.keepEditsOnResize) {
+      this.terrainBuilder.setResolution(resolution)
+      this.terrainBuilder.generateTerrain().catch(console.error)
+      return
+    }
+    
+    try {
+      await this.terrainBuilder.resampleTerrain(resolution)
+    } catch (error) {
+      console.error('Failed to resample terrain:', error)
+      alert(`Failed to resample terrain: ${error instanceof Error ? error.message : error}`)
+      this.syncUIWithTerrain()
+      this.updateResolutionInfo(this.terrainBuilder.getConfig().resolution)
+    }
+  }
+
   private async testHighResolution(): Promise<void> {
     console.log('🧪 Testing high resolution terrain generation...')
     
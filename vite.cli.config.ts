@@ -0,0 +1,12 @@
+import { defineConfig } from 'vite'
+
+// Bundles the batch generator (src/cli/generate.ts) for Node
+export default defineConfig({
+  logLevel: 'warn',
+  build: {
+    ssr: 'src/cli/generate.ts',
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    target: 'node20',
+  },
+})